@@ -4,6 +4,59 @@ import path from 'path';
 // Load .env file
 dotenv.config();
 
+// Shipped so development works out of the box; refused everywhere else
+export const DEFAULT_TOKEN_ENCRYPTION_KEY = 'dev_key_change_in_production_32chars!';
+
+export interface EncryptionKey {
+  id: string;
+  secret: string;
+}
+
+/**
+ * Parses TOKEN_ENCRYPTION_KEYS ("id:secret" pairs, comma separated, newest first)
+ * Falls back to the single TOKEN_ENCRYPTION_KEY under the id "default"
+ */
+function parseEncryptionKeys(keyList: string | undefined, legacyKey: string | undefined): EncryptionKey[] {
+  if (!keyList) {
+    return [{ id: 'default', secret: legacyKey || DEFAULT_TOKEN_ENCRYPTION_KEY }];
+  }
+  
+  return keyList
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { id: entry.slice(0, separator), secret: entry.slice(separator + 1) }
+        : { id: '', secret: entry };
+    });
+}
+
+export interface GroupRoleMapping {
+  groupId: string;
+  projectId: string;
+  role: string;
+}
+
+/**
+ * Parses ENTRA_GROUP_ROLE_MAP ("groupId:projectId:ROLE" entries, comma separated)
+ */
+function parseGroupRoleMappings(mapList: string | undefined): GroupRoleMapping[] {
+  if (!mapList) {
+    return [];
+  }
+  
+  return mapList
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [groupId = '', projectId = '', role = ''] = entry.split(':').map(part => part.trim());
+      return { groupId, projectId, role: role.toUpperCase() };
+    });
+}
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || '3001', 10),
@@ -19,7 +72,8 @@ export const config = {
     clientSecret: process.env.AUTODESK_CLIENT_SECRET || '',
     callbackUrl: process.env.AUTODESK_CALLBACK_URL || 'http://localhost:3001/auth/callback',
     authBaseUrl: 'https://developer.api.autodesk.com/authentication/v2',
-    apiBaseUrl: 'https://developer.api.autodesk.com',
+    // Overridable so the client can be pointed at a recorded-fixture stand-in
+    apiBaseUrl: process.env.AUTODESK_API_BASE_URL || 'https://developer.api.autodesk.com',
     scopes: [
       'data:read',
       'data:write',
@@ -28,11 +82,60 @@ export const config = {
       'user:read',
       'user-profile:read',
     ],
+    // Outbound request budget per ACC hub (token bucket: sustained rate plus burst)
+    rateLimitPerMinute: parseInt(process.env.ACC_RATE_LIMIT_PER_MINUTE || '300', 10),
+    rateLimitBurst: parseInt(process.env.ACC_RATE_LIMIT_BURST || '20', 10),
+    // Retries for 429s, 5xx and dropped connections; delays double from the base with jitter
+    maxRetries: parseInt(process.env.ACC_MAX_RETRIES || '4', 10),
+    retryBaseMs: parseInt(process.env.ACC_RETRY_BASE_MS || '500', 10),
+    // Background sync falls back to a 2-legged app token when a link's user token is revoked
+    // (the app must be provisioned as a custom integration on the ACC account)
+    appTokenFallback: process.env.ACC_APP_TOKEN_FALLBACK === 'true',
+    appTokenScopes: ['data:read', 'account:read'],
   },
   
   // Security
-  tokenEncryptionKey: process.env.TOKEN_ENCRYPTION_KEY || 'dev_key_change_in_production_32chars!',
+  // The first key encrypts new values; every key can decrypt, so old ones stay listed until rotation finishes
+  tokenEncryptionKeys: parseEncryptionKeys(process.env.TOKEN_ENCRYPTION_KEYS, process.env.TOKEN_ENCRYPTION_KEY),
   sessionSecret: process.env.SESSION_SECRET || 'session_secret_change_in_production',
+  // Sessions end after this long without a request, and this long after sign-in however active they are
+  sessionIdleTimeoutMinutes: parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || '120', 10),
+  sessionAbsoluteTimeoutHours: parseInt(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS || '24', 10),
+  
+  // Application administrators (by email, comma separated): only they can create projects
+  adminEmails: (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean),
+  
+  // Local (email/password) login
+  // Failed attempts before an account is locked, and for how long
+  loginMaxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+  loginLockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+  passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+  
+  // Personal API tokens: lifetime when none is requested, and the longest allowed
+  apiTokenDefaultDays: parseInt(process.env.API_TOKEN_DEFAULT_DAYS || '90', 10),
+  apiTokenMaxDays: parseInt(process.env.API_TOKEN_MAX_DAYS || '365', 10),
+  
+  // Entra ID (Azure AD) single sign-on for internal users; enabled when a client ID is set
+  entra: {
+    enabled: !!process.env.ENTRA_CLIENT_ID,
+    // e.g. https://login.microsoftonline.com/<tenant-id>/v2.0, or the local mock IdP
+    issuer: (process.env.ENTRA_ISSUER || '').replace(/\/+$/, ''),
+    clientId: process.env.ENTRA_CLIENT_ID || '',
+    clientSecret: process.env.ENTRA_CLIENT_SECRET || '',
+    callbackUrl: process.env.ENTRA_CALLBACK_URL || 'http://localhost:3001/auth/entra/callback',
+    scopes: ['openid', 'profile', 'email'],
+    // Group membership in the ID token grants these project roles
+    groupRoleMappings: parseGroupRoleMappings(process.env.ENTRA_GROUP_ROLE_MAP),
+  },
+  
+  // Outgoing mail; until an SMTP relay is configured, messages are written to the outbox folder
+  mail: {
+    from: process.env.MAIL_FROM || 'ACC Integration <no-reply@localhost>',
+    outboxPath: process.env.MAIL_OUTBOX_PATH || path.join(process.cwd(), 'storage', 'outbox'),
+  },
   
   // Optional defaults
   defaultProjectId: process.env.DEFAULT_PROJECT_ID || '',
@@ -43,9 +146,31 @@ export const config = {
   
   // Storage
   storagePath: path.join(process.cwd(), 'storage'),
+  // Folders (comma separated) that project network base paths must sit inside; sync writes files under them
+  networkStorageRoots: (process.env.NETWORK_STORAGE_ROOTS || '')
+    .split(',')
+    .map(root => root.trim())
+    .filter(Boolean)
+    .map(root => path.resolve(root)),
   
   // Sync
-  syncIntervalMinutes: parseInt(process.env.SYNC_INTERVAL_MINUTES || '2', 10),
+  // How often the scheduler checks for projects that are due; each project has its own interval
+  syncIntervalMinutes: parseInt(process.env.SYNC_INTERVAL_MINUTES || '1', 10),
+  // Timezone that project quiet hours are expressed in
+  syncTimezone: process.env.SYNC_TIMEZONE || 'UTC',
+  // A link's sync lease expires this long after its last heartbeat, letting another process recover it
+  syncLeaseSeconds: parseInt(process.env.SYNC_LEASE_SECONDS || '300', 10),
+  
+  // Background job queue
+  jobWorkerConcurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+  jobPollSeconds: parseInt(process.env.JOB_POLL_SECONDS || '5', 10),
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5', 10),
+  // First retry waits this long, doubling on each further attempt
+  jobRetryBaseSeconds: parseInt(process.env.JOB_RETRY_BASE_SECONDS || '30', 10),
+  // Running jobs whose worker hasn't heartbeated within this window are assumed crashed and requeued
+  jobTimeoutMinutes: parseInt(process.env.JOB_TIMEOUT_MINUTES || '60', 10),
+  // Incremental syncs fall back to a full reconcile at least this often
+  fullReconcileHours: parseInt(process.env.SYNC_FULL_RECONCILE_HOURS || '24', 10),
 } as const;
 
 // Validate required config
@@ -60,4 +185,75 @@ export function validateConfig(): void {
   if (missing.length > 0 && config.nodeEnv !== 'development') {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
+  
+  const keyErrors = getEncryptionKeyErrors();
+  if (keyErrors.length > 0) {
+    throw new Error(`Invalid token encryption keys: ${keyErrors.join('; ')}`);
+  }
+  
+  const entraErrors = getEntraConfigErrors();
+  if (entraErrors.length > 0) {
+    throw new Error(`Invalid Entra ID configuration: ${entraErrors.join('; ')}`);
+  }
+}
+
+/**
+ * Problems with the Entra ID sign-in settings (none when SSO is disabled)
+ */
+export function getEntraConfigErrors(): string[] {
+  const errors: string[] = [];
+  
+  if (!config.entra.enabled) {
+    return errors;
+  }
+  
+  if (!config.entra.issuer) {
+    errors.push('ENTRA_ISSUER is required when ENTRA_CLIENT_ID is set');
+  } else if (!config.entra.issuer.startsWith('https://') && config.nodeEnv !== 'development') {
+    errors.push('ENTRA_ISSUER must use https');
+  }
+  
+  if (!config.entra.clientSecret) {
+    errors.push('ENTRA_CLIENT_SECRET is required when ENTRA_CLIENT_ID is set');
+  }
+  
+  for (const mapping of config.entra.groupRoleMappings) {
+    if (!mapping.groupId || !mapping.projectId) {
+      errors.push(`group role mapping "${mapping.groupId}:${mapping.projectId}:${mapping.role}" must be groupId:projectId:ROLE`);
+    } else if (!['PROJECT_ADMIN', 'REVIEWER', 'QC_REVIEWER', 'VIEWER'].includes(mapping.role)) {
+      errors.push(`group ${mapping.groupId} maps to unknown role "${mapping.role}"`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Problems with the configured token encryption keys; using the built-in key is only allowed in development
+ */
+export function getEncryptionKeyErrors(): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  
+  if (config.tokenEncryptionKeys.length === 0) {
+    errors.push('no keys configured');
+  }
+  
+  for (const key of config.tokenEncryptionKeys) {
+    if (!key.id || !/^[A-Za-z0-9_-]+$/.test(key.id)) {
+      errors.push(`key id "${key.id}" must be non-empty and use only letters, digits, "-" or "_"`);
+    }
+    if (ids.has(key.id)) {
+      errors.push(`key id "${key.id}" is listed more than once`);
+    }
+    ids.add(key.id);
+    
+    if (!key.secret) {
+      errors.push(`key "${key.id}" has no secret`);
+    } else if (key.secret === DEFAULT_TOKEN_ENCRYPTION_KEY && config.nodeEnv !== 'development') {
+      errors.push(`key "${key.id}" is the built-in development key`);
+    }
+  }
+  
+  return errors;
 }
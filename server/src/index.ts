@@ -12,6 +12,7 @@ import path from 'path';
 import { config, validateConfig } from './config';
 import { logger } from './lib/logger';
 import { connectDatabase, disconnectDatabase } from './lib/prisma';
+import { PrismaSessionStore } from './lib/sessionStore';
 import {
   requestIdMiddleware,
   httpLogger,
@@ -37,15 +38,16 @@ app.use(cookieParser());
 app.use(requestIdMiddleware);
 app.use(httpLogger);
 
-// Session configuration
+// Session configuration (stored in the database; the store enforces the idle timeout)
 app.use(session({
   secret: config.sessionSecret,
+  store: new PrismaSessionStore(),
   resave: false,
   saveUninitialized: false,
   cookie: {
     secure: config.nodeEnv === 'production',
     httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000, // 24 hours
+    maxAge: config.sessionAbsoluteTimeoutHours * 60 * 60 * 1000,
     sameSite: config.nodeEnv === 'production' ? 'none' : 'lax',
   },
 }));
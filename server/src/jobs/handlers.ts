@@ -0,0 +1,35 @@
+/**
+ * Job Handlers
+ *
+ * Connects each queued job type to the service that does the work
+ */
+
+import { registerJobHandler } from '../services/jobService';
+import { syncProject } from '../services/syncService';
+import { sendRfiResponseToAcc, sendSubmittalResponseToAcc } from '../services/responseService';
+
+/**
+ * Registers every job handler; called once before the workers start
+ */
+export function registerJobHandlers(): void {
+  registerJobHandler('SYNC_PROJECT', async ({ projectId, triggeredBy, modules }) => {
+    const outcome = await syncProject(projectId, triggeredBy, { modules });
+    
+    // Every link was locked by another run, so retry later rather than report an empty success
+    if (outcome.results.length === 0 && outcome.inProgress.length > 0) {
+      throw new Error('Project is already being synced by another run');
+    }
+    
+    return outcome;
+  });
+  
+  registerJobHandler('SEND_RFI_RESPONSE', async ({ rfiId, userId, ...data }) => {
+    const rfi = await sendRfiResponseToAcc(rfiId, userId, data);
+    return { rfiId: rfi.id, internalStatus: rfi.internalStatus, responseSentAt: rfi.responseSentAt };
+  });
+  
+  registerJobHandler('SEND_SUBMITTAL_RESPONSE', async ({ submittalId, userId, ...data }) => {
+    const submittal = await sendSubmittalResponseToAcc(submittalId, userId, data);
+    return { submittalId: submittal.id, internalStatus: submittal.internalStatus, responseSentAt: submittal.responseSentAt };
+  });
+}
@@ -8,41 +8,17 @@ import cron from 'node-cron';
 import { config } from '../config';
 import { logger, createChildLogger } from '../lib/logger';
 import { prisma } from '../lib/prisma';
-import { getValidAccessToken } from '../lib/accClient';
-import { syncAllEnabledProjects } from '../services/syncService';
+import { runDueSyncs } from '../services/syncScheduler';
+import { processNextJob, recoverStaleJobs } from '../services/jobService';
+import { refreshExpiringTokens } from '../services/accTokenService';
+import { registerJobHandlers } from './handlers';
 
 const log = createChildLogger({ module: 'jobs' });
 
 let syncTask: cron.ScheduledTask | null = null;
 
 /**
- * Gets an access token for a project
- * This is a simple implementation - in production, you might want
- * to associate tokens with specific projects/hubs
- */
-async function getAccessTokenForProject(projectId: string): Promise<string | null> {
-  // For MVP, we use the first available token
-  // In production, you'd want to map projects to specific users/service accounts
-  const authToken = await prisma.authToken.findFirst({
-    where: {
-      expiresAt: {
-        gt: new Date(),
-      },
-    },
-    orderBy: {
-      updatedAt: 'desc',
-    },
-  });
-  
-  if (!authToken) {
-    return null;
-  }
-  
-  return getValidAccessToken(authToken.userId);
-}
-
-/**
- * Starts the sync cron job
+ * Starts the sync scheduler tick; each tick syncs the projects whose own interval has elapsed
  */
 export function startSyncJob(): void {
   const cronExpression = `*/${config.syncIntervalMinutes} * * * *`;
@@ -50,10 +26,10 @@ export function startSyncJob(): void {
   log.info({ cronExpression, intervalMinutes: config.syncIntervalMinutes }, 'Starting sync job');
   
   syncTask = cron.schedule(cronExpression, async () => {
-    log.info('Sync job triggered');
+    log.debug('Sync scheduler tick');
     
     try {
-      await syncAllEnabledProjects(getAccessTokenForProject);
+      await runDueSyncs();
     } catch (error) {
       log.error({ error }, 'Sync job failed');
     }
@@ -76,8 +52,96 @@ export function stopSyncJob(): void {
   }
 }
 
+let tokenRefreshTask: cron.ScheduledTask | null = null;
+
+/**
+ * Starts the token refresh job (every 10 minutes), renewing linked ACC tokens before they expire
+ */
+export function startTokenRefreshJob(): void {
+  log.info('Starting token refresh job');
+  
+  tokenRefreshTask = cron.schedule('*/10 * * * *', async () => {
+    try {
+      await refreshExpiringTokens();
+    } catch (error) {
+      log.error({ error }, 'Token refresh job failed');
+    }
+  }, {
+    scheduled: true,
+    timezone: 'UTC',
+  });
+  
+  log.info('Token refresh job started');
+}
+
+/**
+ * Stops the token refresh cron job
+ */
+export function stopTokenRefreshJob(): void {
+  if (tokenRefreshTask) {
+    tokenRefreshTask.stop();
+    tokenRefreshTask = null;
+    log.info('Token refresh job stopped');
+  }
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+const busyWorkerSlots = new Set<number>();
+
 /**
- * Cleans up expired OAuth states and old sync logs
+ * Drains the job queue in one worker slot until nothing is due
+ */
+async function runWorker(slot: number): Promise<void> {
+  busyWorkerSlots.add(slot);
+  try {
+    while (workerTimer && await processNextJob(slot)) {
+      // keep draining
+    }
+  } catch (error) {
+    log.error({ slot, error }, 'Job worker failed');
+  } finally {
+    busyWorkerSlots.delete(slot);
+  }
+}
+
+/**
+ * Starts the job queue workers, polling for due jobs and recovering ones from crashed workers
+ */
+export function startJobWorkers(): void {
+  registerJobHandlers();
+  
+  log.info({ concurrency: config.jobWorkerConcurrency, pollSeconds: config.jobPollSeconds }, 'Starting job workers');
+  
+  workerTimer = setInterval(async () => {
+    try {
+      await recoverStaleJobs();
+    } catch (error) {
+      log.error({ error }, 'Failed to recover stale jobs');
+    }
+    
+    for (let slot = 0; slot < config.jobWorkerConcurrency; slot++) {
+      if (!busyWorkerSlots.has(slot)) {
+        void runWorker(slot);
+      }
+    }
+  }, config.jobPollSeconds * 1000);
+  
+  log.info('Job workers started');
+}
+
+/**
+ * Stops polling for jobs; running jobs finish but no new ones are claimed
+ */
+export function stopJobWorkers(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+    log.info('Job workers stopped');
+  }
+}
+
+/**
+ * Cleans up expired OAuth states and sessions, old sync logs and finished jobs
  */
 async function cleanupTask(): Promise<void> {
   log.debug('Running cleanup task');
@@ -96,6 +160,19 @@ async function cleanupTask(): Promise<void> {
       log.info({ count: deletedStates.count }, 'Deleted expired OAuth states');
     }
     
+    // Delete sessions that timed out without being read again
+    const deletedSessions = await prisma.session.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date(),
+        },
+      },
+    });
+    
+    if (deletedSessions.count > 0) {
+      log.info({ count: deletedSessions.count }, 'Deleted expired sessions');
+    }
+    
     // Delete old sync logs (older than 30 days)
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const deletedLogs = await prisma.syncLog.deleteMany({
@@ -109,6 +186,20 @@ async function cleanupTask(): Promise<void> {
     if (deletedLogs.count > 0) {
       log.info({ count: deletedLogs.count }, 'Deleted old sync logs');
     }
+    
+    // Delete finished jobs (older than 30 days); dead-lettered ones are kept for inspection
+    const deletedJobs = await prisma.job.deleteMany({
+      where: {
+        status: 'SUCCEEDED',
+        completedAt: {
+          lt: thirtyDaysAgo,
+        },
+      },
+    });
+    
+    if (deletedJobs.count > 0) {
+      log.info({ count: deletedJobs.count }, 'Deleted old jobs');
+    }
   } catch (error) {
     log.error({ error }, 'Cleanup task failed');
   }
@@ -148,6 +239,8 @@ export function stopCleanupJob(): void {
  * Starts all background jobs
  */
 export function startAllJobs(): void {
+  startJobWorkers();
+  startTokenRefreshJob();
   startSyncJob();
   startCleanupJob();
 }
@@ -157,5 +250,7 @@ export function startAllJobs(): void {
  */
 export function stopAllJobs(): void {
   stopSyncJob();
+  stopTokenRefreshJob();
   stopCleanupJob();
+  stopJobWorkers();
 }
@@ -5,7 +5,7 @@
  * including OAuth, Data Management, and ACC-specific APIs.
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import FormData from 'form-data';
 import fs from 'fs';
 import path from 'path';
@@ -13,6 +13,8 @@ import { config } from '../config';
 import { logger, createChildLogger } from './logger';
 import { prisma } from './prisma';
 import { encrypt, decrypt } from './crypto';
+import { applyRequestLayer, createLayeredClient, setTokenRefresher } from './accRequest';
+import type { AccOAuthToken } from '@prisma/client';
 import type {
   APSTokenResponse,
   APSUserProfile,
@@ -24,12 +26,18 @@ import type {
   ACCRFIListResponse,
   ACCSubmittal,
   ACCSubmittalListResponse,
+  ACCAttachment,
+  ACCAssignee,
+  ACCSubmittalReviewStep,
   AttachmentRef,
   SyncModule,
 } from '@acc-integration/shared';
 
 const log = createChildLogger({ module: 'accClient' });
 
+// Rate-limit bucket for calls that can't be tied to a hub (OAuth, profile, hub listing)
+const DEFAULT_HUB_KEY = 'default';
+
 // ============================================================================
 // OAuth Functions
 // ============================================================================
@@ -62,7 +70,8 @@ export async function exchangeCodeForTokens(code: string): Promise<APSTokenRespo
     redirect_uri: config.autodesk.callbackUrl,
   });
   
-  const response = await axios.post<APSTokenResponse>(
+  const client = createLayeredClient({ hubKey: DEFAULT_HUB_KEY, authenticated: false });
+  const response = await client.post<APSTokenResponse>(
     `${config.autodesk.authBaseUrl}/token`,
     params.toString(),
     {
@@ -91,7 +100,8 @@ export async function refreshAccessToken(refreshToken: string): Promise<APSToken
     refresh_token: refreshToken,
   });
   
-  const response = await axios.post<APSTokenResponse>(
+  const client = createLayeredClient({ hubKey: DEFAULT_HUB_KEY, authenticated: false });
+  const response = await client.post<APSTokenResponse>(
     `${config.autodesk.authBaseUrl}/token`,
     params.toString(),
     {
@@ -109,6 +119,33 @@ export async function refreshAccessToken(refreshToken: string): Promise<APSToken
   return response.data;
 }
 
+/**
+ * Revokes a token at Autodesk so it can no longer be used, even by someone holding a copy
+ */
+export async function revokeToken(token: string, tokenTypeHint: 'access_token' | 'refresh_token'): Promise<void> {
+  log.info({ tokenTypeHint }, 'Revoking token');
+  
+  const params = new URLSearchParams({
+    token,
+    token_type_hint: tokenTypeHint,
+  });
+  
+  const client = createLayeredClient({ hubKey: DEFAULT_HUB_KEY, authenticated: false });
+  await client.post(
+    `${config.autodesk.authBaseUrl}/revoke`,
+    params.toString(),
+    {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      auth: {
+        username: config.autodesk.clientId,
+        password: config.autodesk.clientSecret,
+      },
+    }
+  );
+}
+
 /**
  * Stores tokens in the database (encrypted)
  */
@@ -139,12 +176,100 @@ export async function storeTokens(
       refreshToken: encrypt(tokens.refresh_token),
       expiresAt,
       scopes: config.autodesk.scopes.join(','),
+      revokedAt: null,
+      lastRefreshError: null,
+      relinkNotifiedAt: null,
     },
   });
   
   log.info({ userId }, 'Tokens stored successfully');
 }
 
+// Recently issued access tokens, so a 401 on one can be traced back to the user who owns it
+const MAX_TRACKED_TOKENS = 500;
+const tokenOwners = new Map<string, string>();
+
+// In-flight refreshes per user, so concurrent requests share one refresh
+const pendingRefreshes = new Map<string, Promise<string | null>>();
+
+function trackToken(accessToken: string, userId: string): string {
+  tokenOwners.delete(accessToken);
+  tokenOwners.set(accessToken, userId);
+  
+  if (tokenOwners.size > MAX_TRACKED_TOKENS) {
+    tokenOwners.delete(tokenOwners.keys().next().value as string);
+  }
+  
+  return accessToken;
+}
+
+/**
+ * Whether a token endpoint error says the refresh token itself was rejected
+ */
+function isInvalidGrantError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return false;
+  }
+  
+  const { status, data } = error.response;
+  return (status === 400 || status === 401)
+    && (data as { error?: string } | undefined)?.error === 'invalid_grant';
+}
+
+/**
+ * Refreshes a user's tokens once, however many callers ask at the same time
+ */
+function refreshUserTokens(userId: string, refreshTokenCipher: string): Promise<string | null> {
+  const pending = pendingRefreshes.get(userId);
+  if (pending) {
+    return pending;
+  }
+  
+  const refresh = (async () => {
+    let grantRejected = false;
+    
+    try {
+      const refreshToken = decrypt(refreshTokenCipher);
+      const newTokens = await refreshAccessToken(refreshToken).catch((error) => {
+        grantRejected = isInvalidGrantError(error);
+        throw error;
+      });
+      
+      // Get updated profile
+      const profile = await getUserProfile(newTokens.access_token);
+      
+      // Store new tokens
+      await storeTokens(userId, newTokens, profile);
+      await prisma.accOAuthToken.update({
+        where: { userId },
+        data: { lastRefreshedAt: new Date() },
+      });
+      
+      return trackToken(newTokens.access_token, userId);
+    } catch (error) {
+      log.error({ userId, error }, 'Failed to refresh token');
+      
+      // Only invalid_grant from the token endpoint means the grant is gone; rate limits, profile
+      // lookups and storage failures may succeed on a later try.
+      // The record is kept either way because project links still point at it
+      await prisma.accOAuthToken.updateMany({
+        where: { userId },
+        data: {
+          lastRefreshError: error instanceof Error ? error.message : String(error),
+          ...(grantRejected ? { revokedAt: new Date() } : {}),
+        },
+      });
+      
+      return null;
+    } finally {
+      pendingRefreshes.delete(userId);
+    }
+  })();
+  
+  pendingRefreshes.set(userId, refresh);
+  return refresh;
+}
+
 /**
  * Gets a valid access token for a user, refreshing if necessary
  */
@@ -158,36 +283,123 @@ export async function getValidAccessToken(userId: string): Promise<string | null
     return null;
   }
   
+  if (authToken.revokedAt) {
+    log.debug({ userId }, 'Token was revoked; user must re-authorize');
+    return null;
+  }
+  
   // Check if token is expired or will expire in the next 5 minutes
   const bufferTime = 5 * 60 * 1000; // 5 minutes
   const isExpired = authToken.expiresAt.getTime() - bufferTime < Date.now();
   
   if (!isExpired) {
-    return decrypt(authToken.accessToken);
+    return trackToken(decrypt(authToken.accessToken), userId);
   }
   
   // Token is expired, try to refresh
   log.info({ userId }, 'Token expired, refreshing');
   
-  try {
-    const refreshToken = decrypt(authToken.refreshToken);
-    const newTokens = await refreshAccessToken(refreshToken);
-    
-    // Get updated profile
-    const profile = await getUserProfile(newTokens.access_token);
-    
-    // Store new tokens
-    await storeTokens(userId, newTokens, profile);
-    
-    return newTokens.access_token;
-  } catch (error) {
-    log.error({ userId, error }, 'Failed to refresh token');
-    
-    // Delete invalid token
-    await prisma.accOAuthToken.delete({ where: { userId } });
-    
+  return refreshUserTokens(userId, authToken.refreshToken);
+}
+
+/**
+ * Replaces an access token that ACC rejected before its recorded expiry
+ * Uses the stored token if another request already refreshed it
+ */
+async function replaceRejectedToken(staleToken: string): Promise<string | null> {
+  const userId = tokenOwners.get(staleToken);
+  if (!userId) {
     return null;
   }
+  
+  const authToken = await prisma.accOAuthToken.findUnique({
+    where: { userId },
+  });
+  
+  if (!authToken || authToken.revokedAt) {
+    return null;
+  }
+  
+  const storedToken = decrypt(authToken.accessToken);
+  if (storedToken !== staleToken) {
+    return trackToken(storedToken, userId);
+  }
+  
+  log.info({ userId }, 'Access token rejected by ACC, refreshing');
+  
+  return refreshUserTokens(userId, authToken.refreshToken);
+}
+
+setTokenRefresher(replaceRejectedToken);
+
+/**
+ * Refreshes a user's tokens ahead of expiry; returns false if the refresh failed
+ */
+export async function refreshTokensForUser(userId: string): Promise<boolean> {
+  const authToken = await prisma.accOAuthToken.findUnique({
+    where: { userId },
+  });
+  
+  if (!authToken || authToken.revokedAt) {
+    return false;
+  }
+  
+  return (await refreshUserTokens(userId, authToken.refreshToken)) !== null;
+}
+
+// Cached 2-legged token, shared by every fallback sync until shortly before it expires
+let appToken: { accessToken: string; expiresAt: number } | null = null;
+
+/**
+ * Gets a 2-legged (client credentials) access token for the APS app itself
+ */
+export async function getAppAccessToken(): Promise<string> {
+  if (appToken && appToken.expiresAt - 5 * 60 * 1000 > Date.now()) {
+    return appToken.accessToken;
+  }
+  
+  log.info('Requesting app access token');
+  
+  const params = new URLSearchParams({
+    grant_type: 'client_credentials',
+    scope: config.autodesk.appTokenScopes.join(' '),
+  });
+  
+  const client = createLayeredClient({ hubKey: DEFAULT_HUB_KEY, authenticated: false });
+  const response = await client.post<APSTokenResponse>(
+    `${config.autodesk.authBaseUrl}/token`,
+    params.toString(),
+    {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      auth: {
+        username: config.autodesk.clientId,
+        password: config.autodesk.clientSecret,
+      },
+    }
+  );
+  
+  appToken = {
+    accessToken: response.data.access_token,
+    expiresAt: Date.now() + response.data.expires_in * 1000,
+  };
+  
+  return appToken.accessToken;
+}
+
+/**
+ * Gets a valid access token for a stored ACC OAuth token record
+ * Throws if the token can no longer be refreshed
+ */
+export async function getValidToken(oauthToken: AccOAuthToken): Promise<string> {
+  const accessToken = await getValidAccessToken(oauthToken.userId);
+  
+  if (!accessToken) {
+    throw new Error(`ACC authorization for ${oauthToken.email || oauthToken.userId} has expired. Please re-authorize.`);
+  }
+  
+  return accessToken;
 }
 
 // ============================================================================
@@ -200,7 +412,9 @@ export async function getValidAccessToken(userId: string): Promise<string | null
 export async function getUserProfile(accessToken: string): Promise<APSUserProfile> {
   log.debug('Fetching user profile');
   
-  const response = await axios.get<APSUserProfile>(
+  // Also used mid-refresh, so a 401 here must not trigger another refresh
+  const client = createLayeredClient({ hubKey: DEFAULT_HUB_KEY, authenticated: false });
+  const response = await client.get<APSUserProfile>(
     `${config.autodesk.apiBaseUrl}/userprofile/v1/users/@me`,
     {
       headers: {
@@ -216,10 +430,56 @@ export async function getUserProfile(accessToken: string): Promise<APSUserProfil
 // API Client Factory
 // ============================================================================
 
+// ACC project ID -> hub ID, from the project links
+const hubKeyCache = new Map<string, string>();
+
+interface ApiClientScope {
+  hubId?: string;
+  projectId?: string;
+}
+
+/**
+ * Resolves which hub's rate-limit budget a request counts against
+ */
+async function resolveHubKey(scope: ApiClientScope): Promise<string> {
+  if (scope.hubId) {
+    return normalizeAccId(scope.hubId);
+  }
+  
+  if (!scope.projectId) {
+    return DEFAULT_HUB_KEY;
+  }
+  
+  const projectId = normalizeAccId(scope.projectId);
+  const cached = hubKeyCache.get(projectId);
+  if (cached) {
+    return cached;
+  }
+  
+  try {
+    const link = await prisma.accProjectLink.findFirst({
+      where: { accProjectId: { in: [projectId, `b.${projectId}`] } },
+      select: { accHubId: true },
+    });
+    
+    if (!link) {
+      return DEFAULT_HUB_KEY;
+    }
+    
+    const hubKey = normalizeAccId(link.accHubId);
+    hubKeyCache.set(projectId, hubKey);
+    return hubKey;
+  } catch (error) {
+    log.warn({ projectId, error }, 'Failed to resolve hub for rate limiting');
+    return DEFAULT_HUB_KEY;
+  }
+}
+
 /**
  * Creates an authenticated Axios instance for APS API calls
+ * Requests are rate limited per hub, retried on throttling and transient failures, and replayed once after a 401
  */
-function createApiClient(accessToken: string): AxiosInstance {
+function createApiClient(accessToken: string, scope: ApiClientScope = {}): AxiosInstance {
   const client = axios.create({
     baseURL: config.autodesk.apiBaseUrl,
     headers: {
@@ -228,29 +488,7 @@ function createApiClient(accessToken: string): AxiosInstance {
     },
   });
   
-  // Add request logging
-  client.interceptors.request.use((config) => {
-    log.debug({ method: config.method, url: config.url }, 'API Request');
-    return config;
-  });
-  
-  // Add response logging and error handling
-  client.interceptors.response.use(
-    (response) => {
-      log.debug({ status: response.status, url: response.config.url }, 'API Response');
-      return response;
-    },
-    (error: AxiosError) => {
-      log.error({
-        status: error.response?.status,
-        url: error.config?.url,
-        error: error.response?.data,
-      }, 'API Error');
-      throw error;
-    }
-  );
-  
-  return client;
+  return applyRequestLayer(client, { hubKey: resolveHubKey(scope) });
 }
 
 // ============================================================================
@@ -265,6 +503,14 @@ interface ProjectsResponse {
   data: APSProject[];
 }
 
+/**
+ * Strips the Data Management "b." prefix from hub/project IDs
+ * The ACC construction APIs expect the bare GUID
+ */
+export function normalizeAccId(id: string): string {
+  return id.replace(/^b\./, '');
+}
+
 /**
  * Lists all hubs (BIM 360/ACC accounts) accessible to the user
  */
@@ -284,7 +530,7 @@ export async function listHubs(accessToken: string): Promise<APSHub[]> {
 export async function listProjects(accessToken: string, hubId: string): Promise<APSProject[]> {
   log.info({ hubId }, 'Listing projects for hub');
   
-  const client = createApiClient(accessToken);
+  const client = createApiClient(accessToken, { hubId });
   const response = await client.get<ProjectsResponse>(`/project/v1/hubs/${hubId}/projects`);
   
   log.info({ hubId, count: response.data.data.length }, 'Projects retrieved');
@@ -321,7 +567,7 @@ interface FoldersResponse {
 export async function listTopFolders(accessToken: string, hubId: string, projectId: string): Promise<APSFolder[]> {
   log.info({ hubId, projectId }, 'Listing top folders');
   
-  const client = createApiClient(accessToken);
+  const client = createApiClient(accessToken, { hubId });
   const response = await client.get<FoldersResponse>(
     `/project/v1/hubs/${hubId}/projects/${projectId}/topFolders`
   );
@@ -335,7 +581,7 @@ export async function listTopFolders(accessToken: string, hubId: string, project
 export async function listFolderContents(accessToken: string, projectId: string, folderId: string): Promise<(APSFolder | APSItem)[]> {
   log.info({ projectId, folderId }, 'Listing folder contents');
   
-  const client = createApiClient(accessToken);
+  const client = createApiClient(accessToken, { projectId });
   const response = await client.get<{ data: (APSFolder | APSItem)[] }>(
     `/data/v1/projects/${projectId}/folders/${folderId}/contents`
   );
@@ -379,7 +625,7 @@ async function createStorageLocation(
 ): Promise<APSStorageLocation> {
   log.info({ projectId, folderUrn, fileName }, 'Creating storage location');
   
-  const client = createApiClient(accessToken);
+  const client = createApiClient(accessToken, { projectId });
   
   const payload = {
     jsonapi: { version: '1.0' },
@@ -407,32 +653,40 @@ async function createStorageLocation(
   return response.data.data;
 }
 
+/**
+ * Splits an OSS storage URN into bucket and object key
+ * Format: urn:adsk.objects:os.object:bucket/object
+ */
+function parseStorageUrn(storageUrn: string): { bucket: string; objectKey: string } {
+  const urnParts = storageUrn.split(':');
+  const objectPath = urnParts[urnParts.length - 1];
+  const [bucket, ...objectKeyParts] = objectPath.split('/');
+  
+  return { bucket, objectKey: objectKeyParts.join('/') };
+}
+
 /**
  * Uploads a file to the storage location
  */
 async function uploadToStorage(
   accessToken: string,
+  projectId: string,
   storageUrn: string,
   filePath: string
 ): Promise<void> {
   log.info({ storageUrn, filePath }, 'Uploading file to storage');
   
-  // Parse the storage URN to get bucket and object key
-  // Format: urn:adsk.objects:os.object:bucket/object
-  const urnParts = storageUrn.split(':');
-  const objectPath = urnParts[urnParts.length - 1];
-  const [bucket, ...objectKeyParts] = objectPath.split('/');
-  const objectKey = objectKeyParts.join('/');
+  const { bucket, objectKey } = parseStorageUrn(storageUrn);
   
   const fileContent = fs.readFileSync(filePath);
   const fileName = path.basename(filePath);
   
-  await axios.put(
-    `${config.autodesk.apiBaseUrl}/oss/v2/buckets/${bucket}/objects/${encodeURIComponent(objectKey)}`,
+  const client = createApiClient(accessToken, { projectId });
+  await client.put(
+    `/oss/v2/buckets/${bucket}/objects/${encodeURIComponent(objectKey)}`,
     fileContent,
     {
       headers: {
-        Authorization: `Bearer ${accessToken}`,
         'Content-Type': 'application/octet-stream',
         'Content-Length': fileContent.length.toString(),
       },
@@ -454,7 +708,7 @@ async function createItem(
 ): Promise<{ itemId: string; versionId: string }> {
   log.info({ projectId, folderUrn, fileName }, 'Creating item');
   
-  const client = createApiClient(accessToken);
+  const client = createApiClient(accessToken, { projectId });
   
   const payload = {
     jsonapi: { version: '1.0' },
@@ -534,7 +788,7 @@ async function createVersion(
 ): Promise<string> {
   log.info({ projectId, itemId, fileName }, 'Creating new version');
   
-  const client = createApiClient(accessToken);
+  const client = createApiClient(accessToken, { projectId });
   
   const payload = {
     jsonapi: { version: '1.0' },
@@ -593,7 +847,7 @@ export async function uploadToDocs(
   const storageUrn = storage.id;
   
   // Step 2: Upload file to storage
-  await uploadToStorage(accessToken, storageUrn, filePath);
+  await uploadToStorage(accessToken, projectId, storageUrn, filePath);
   
   // Step 3: Create item or new version
   if (existingItemId) {
@@ -605,145 +859,644 @@ export async function uploadToDocs(
 }
 
 // ============================================================================
-// RFIs (STUB - implement when ACC API is available)
+// Construction API Paging
 // ============================================================================
 
+const PAGE_SIZE = 100;
+
+interface PagedResponse<T> {
+  pagination: {
+    limit: number;
+    offset: number;
+    totalResults: number;
+  };
+  results: T[];
+}
+
+interface RawAccAttachment {
+  id?: string;
+  attachmentId?: string;
+  name: string;
+  urn?: string;
+  storageUrn?: string;
+  versionUrn?: string;
+  mimeType?: string;
+  fileSize?: number;
+  size?: number;
+}
+
 /**
- * Lists RFIs for a project
- * 
- * TODO: Implement when ACC RFI API endpoints are available
- * Expected endpoint: GET /construction/rfis/v1/projects/{projectId}/rfis
+ * Fetches every page of an offset-paginated construction API collection
+ */
+async function fetchAllPages<T>(
+  client: AxiosInstance,
+  url: string,
+  params: Record<string, string | number> = {}
+): Promise<T[]> {
+  const results: T[] = [];
+  let offset = 0;
+  let totalResults = 0;
+  
+  do {
+    const response = await client.get<PagedResponse<T>>(url, {
+      params: { ...params, limit: PAGE_SIZE, offset },
+    });
+    
+    const page = response.data.results || [];
+    totalResults = response.data.pagination?.totalResults ?? page.length;
+    results.push(...page);
+    
+    if (page.length === 0) {
+      break;
+    }
+    offset += page.length;
+  } while (offset < totalResults);
+  
+  return results;
+}
+
+/**
+ * Builds the updatedAt filter used for incremental fetches
+ */
+function buildSinceParams(sinceCursor?: string): Record<string, string> {
+  const params: Record<string, string> = { sort: 'updatedAt ASC' };
+  if (sinceCursor) {
+    params['filter[updatedAt]'] = `${sinceCursor}..`;
+  }
+  return params;
+}
+
+/**
+ * Returns the newest updatedAt, used as the cursor for the next incremental fetch
+ */
+function latestUpdatedAt(items: { updatedAt: string }[], sinceCursor?: string): string | undefined {
+  return items.reduce<string | undefined>(
+    (latest, item) => (!latest || item.updatedAt > latest ? item.updatedAt : latest),
+    sinceCursor
+  );
+}
+
+/**
+ * Whether an item's updatedAt matches the one already synced, so its per-item details can't have changed
+ */
+function isUnchanged(raw: { id: string; createdAt: string; updatedAt?: string }, knownUpdatedAt?: Map<string, string>): boolean {
+  const known = knownUpdatedAt?.get(raw.id);
+  return known !== undefined && new Date(raw.updatedAt || raw.createdAt).toISOString() === known;
+}
+
+/**
+ * Joins list-valued ACC fields (discipline, category) into a single display string
+ */
+function joinList(value?: string[] | string): string | undefined {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : undefined;
+  }
+  return value || undefined;
+}
+
+/**
+ * Maps ACC attachment references to the shared attachment shape
+ */
+function mapAccAttachment(raw: RawAccAttachment): ACCAttachment {
+  return {
+    id: raw.id || raw.attachmentId || '',
+    name: raw.name,
+    urn: raw.storageUrn || raw.urn || '',
+    versionUrn: raw.versionUrn || raw.urn,
+    mimeType: raw.mimeType || 'application/octet-stream',
+    size: raw.fileSize ?? raw.size ?? 0,
+  };
+}
+
+// ============================================================================
+// RFIs
+// ============================================================================
+
+interface RawAccRfi {
+  id: string;
+  customIdentifier?: string;
+  title?: string;
+  question?: string;
+  suggestedAnswer?: string;
+  status: string;
+  priority?: string;
+  discipline?: string[] | string;
+  category?: string[] | string;
+  dueDate?: string;
+  createdBy?: string;
+  assignedTo?: { id: string; type?: string; name?: string }[];
+  officialResponse?: string;
+  officialResponseStatus?: string;
+  respondedAt?: string;
+  respondedBy?: string;
+  customAttributes?: {
+    attributeDefinitionId?: string;
+    id?: string;
+    name?: string;
+    type?: string;
+    value?: any;
+    values?: any[];
+  }[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Maps a raw ACC RFI into the shared ACCRFI shape
+ */
+function mapAccRfi(projectId: string, raw: RawAccRfi, attachments: ACCAttachment[]): ACCRFI {
+  return {
+    id: raw.id,
+    externalId: raw.id,
+    projectId,
+    number: raw.customIdentifier || raw.id,
+    title: raw.title || 'Untitled RFI',
+    description: raw.question,
+    status: raw.status,
+    priority: raw.priority,
+    discipline: joinList(raw.discipline),
+    category: joinList(raw.category),
+    dueDate: raw.dueDate,
+    createdBy: raw.createdBy,
+    assignedTo: (raw.assignedTo || []).map(assignee => ({
+      id: assignee.id,
+      type: assignee.type || 'user',
+      name: assignee.name,
+    })),
+    contractorComments: raw.suggestedAnswer,
+    response: raw.officialResponse
+      ? {
+          status: raw.officialResponseStatus,
+          text: raw.officialResponse,
+          respondedBy: raw.respondedBy,
+          respondedAt: raw.respondedAt,
+        }
+      : undefined,
+    customAttributes: (raw.customAttributes || []).map(attr => ({
+      id: attr.attributeDefinitionId || attr.id || '',
+      name: attr.name || '',
+      type: attr.type || 'text',
+      value: attr.values ?? attr.value ?? null,
+    })),
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt || raw.createdAt,
+    attachments,
+  };
+}
+
+/**
+ * Lists attachment references for a single RFI
+ * Endpoint: GET /construction/rfis/v2/projects/{projectId}/rfis/{rfiId}/attachments
+ */
+async function listRFIAttachments(
+  client: AxiosInstance,
+  projectId: string,
+  rfiId: string
+): Promise<ACCAttachment[]> {
+  const attachments = await fetchAllPages<RawAccAttachment>(
+    client,
+    `/construction/rfis/v2/projects/${projectId}/rfis/${rfiId}/attachments`
+  );
+  
+  return attachments.map(mapAccAttachment);
+}
+
+/**
+ * Lists all RFIs for a project, following pagination to the end
+ * Endpoint: GET /construction/rfis/v2/projects/{projectId}/rfis
  * 
- * @stub Returns mock data for testing
+ * sinceCursor is the updatedAt timestamp returned as `cursor` by the previous
+ * call; only RFIs updated at or after it are returned.
+ * knownUpdatedAt maps RFI IDs to the updatedAt already synced; RFIs that still
+ * match skip the per-RFI attachments call (see detailsSkipped).
  */
 export async function listRFIs(
   accessToken: string,
   projectId: string,
-  sinceCursor?: string
+  sinceCursor?: string,
+  knownUpdatedAt?: Map<string, string>
 ): Promise<ACCRFIListResponse> {
-  log.info({ projectId, sinceCursor }, 'Listing RFIs (STUB)');
+  log.info({ projectId, sinceCursor }, 'Listing RFIs');
   
-  // TODO: Replace with actual API call when available
-  // Example of what the real implementation might look like:
-  /*
-  const client = createApiClient(accessToken);
-  const params: Record<string, string> = { limit: '50' };
-  if (sinceCursor) {
-    params.cursor = sinceCursor;
-  }
+  const accProjectId = normalizeAccId(projectId);
+  const client = createApiClient(accessToken, { projectId });
   
-  const response = await client.get<ACCRFIListResponse>(
-    `/construction/rfis/v1/projects/${projectId}/rfis`,
-    { params }
+  const rawRfis = await fetchAllPages<RawAccRfi>(
+    client,
+    `/construction/rfis/v2/projects/${accProjectId}/rfis`,
+    buildSinceParams(sinceCursor)
   );
   
-  return response.data;
-  */
+  const rfis: ACCRFI[] = [];
+  let skipped = 0;
+  
+  for (const raw of rawRfis) {
+    if (isUnchanged(raw, knownUpdatedAt)) {
+      rfis.push({ ...mapAccRfi(projectId, raw, []), detailsSkipped: true });
+      skipped++;
+      continue;
+    }
+    
+    const attachments = await listRFIAttachments(client, accProjectId, raw.id);
+    rfis.push(mapAccRfi(projectId, raw, attachments));
+  }
+  
+  log.info({ projectId, count: rfis.length, detailsSkipped: skipped }, 'RFIs retrieved');
   
-  // Stub response for testing
   return {
-    data: [],
+    data: rfis,
     pagination: {
-      limit: 50,
+      limit: PAGE_SIZE,
       offset: 0,
-      totalResults: 0,
+      totalResults: rfis.length,
     },
-    cursor: undefined,
+    cursor: latestUpdatedAt(rfis, sinceCursor),
   };
 }
 
+/**
+ * Updates the status of an RFI in ACC
+ * Endpoint: PATCH /construction/rfis/v2/projects/{projectId}/rfis/{rfiId}
+ */
+export async function updateRFIStatus(
+  projectId: string,
+  rfiId: string,
+  status: string,
+  accessToken: string
+): Promise<void> {
+  log.info({ projectId, rfiId, status }, 'Updating RFI status');
+  
+  const client = createApiClient(accessToken, { projectId });
+  await client.patch(
+    `/construction/rfis/v2/projects/${normalizeAccId(projectId)}/rfis/${rfiId}`,
+    { status }
+  );
+}
+
+/**
+ * Posts the official response text on an RFI in ACC
+ * Endpoint: POST /construction/rfis/v2/projects/{projectId}/rfis/{rfiId}/responses
+ */
+export async function postRFIResponse(
+  projectId: string,
+  rfiId: string,
+  text: string,
+  accessToken: string
+): Promise<void> {
+  log.info({ projectId, rfiId }, 'Posting RFI response');
+  
+  const client = createApiClient(accessToken, { projectId });
+  await client.post(
+    `/construction/rfis/v2/projects/${normalizeAccId(projectId)}/rfis/${rfiId}/responses`,
+    { content: text }
+  );
+}
+
+/**
+ * Uploads a file as an attachment on an RFI in ACC
+ * Endpoint: POST /construction/rfis/v2/projects/{projectId}/rfis/{rfiId}/attachments
+ */
+export async function uploadRFIAttachment(
+  projectId: string,
+  rfiId: string,
+  fileBuffer: Buffer,
+  fileName: string,
+  accessToken: string
+): Promise<void> {
+  log.info({ projectId, rfiId, fileName, size: fileBuffer.length }, 'Uploading RFI attachment');
+  
+  const form = new FormData();
+  form.append('file', fileBuffer, { filename: fileName });
+  
+  const client = createApiClient(accessToken, { projectId });
+  await client.post(
+    `/construction/rfis/v2/projects/${normalizeAccId(projectId)}/rfis/${rfiId}/attachments`,
+    form,
+    { headers: form.getHeaders() }
+  );
+}
+
 // ============================================================================
-// Submittals (STUB - implement when ACC API is available)
+// Submittals
 // ============================================================================
 
+interface RawAccSubmittalItem {
+  id: string;
+  identifier?: number | string;
+  customIdentifier?: string;
+  title?: string;
+  description?: string;
+  specId?: string;
+  packageId?: string;
+  stateId?: string;
+  statusId?: string;
+  priority?: string;
+  dueDate?: string;
+  createdBy?: string;
+  ballInCourtUsers?: string[];
+  ballInCourtCompanies?: string[];
+  ballInCourtRoles?: string[];
+  responseId?: string;
+  responseComment?: string;
+  respondedAt?: string;
+  respondedBy?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+interface RawAccSubmittalPackage {
+  id: string;
+  identifier?: number | string;
+  title?: string;
+}
+
+interface RawAccSubmittalSpec {
+  id: string;
+  identifier: string;
+  title?: string;
+}
+
+interface RawAccSubmittalStep {
+  id: string;
+  stepNumber: number;
+  status: string;
+  dueDate?: string;
+}
+
+interface RawAccSubmittalTask {
+  id: string;
+  assignedTo?: string;
+  assignedToType?: string;
+  status: string;
+  dueDate?: string;
+  completedAt?: string;
+}
+
 /**
- * Lists Submittals for a project
- * 
- * TODO: Implement when ACC Submittals API endpoints are available
- * Expected endpoint: GET /construction/submittals/v1/projects/{projectId}/submittals
+ * Collects ball-in-court users, companies and roles as assignees
+ */
+function mapBallInCourt(raw: RawAccSubmittalItem): ACCAssignee[] {
+  return [
+    ...(raw.ballInCourtUsers || []).map(id => ({ id, type: 'user' })),
+    ...(raw.ballInCourtCompanies || []).map(id => ({ id, type: 'company' })),
+    ...(raw.ballInCourtRoles || []).map(id => ({ id, type: 'role' })),
+  ];
+}
+
+/**
+ * Lists review steps with their tasks for a submittal item
+ * Endpoints: GET .../items/{itemId}/steps and .../steps/{stepId}/tasks
+ */
+async function listSubmittalReviewSteps(
+  client: AxiosInstance,
+  projectId: string,
+  itemId: string
+): Promise<ACCSubmittalReviewStep[]> {
+  const baseUrl = `/construction/submittals/v2/projects/${projectId}/items/${itemId}/steps`;
+  const steps = await fetchAllPages<RawAccSubmittalStep>(client, baseUrl);
+  
+  const reviewSteps: ACCSubmittalReviewStep[] = [];
+  for (const step of steps) {
+    const tasks = await fetchAllPages<RawAccSubmittalTask>(client, `${baseUrl}/${step.id}/tasks`);
+    
+    reviewSteps.push({
+      id: step.id,
+      stepNumber: step.stepNumber,
+      status: step.status,
+      dueDate: step.dueDate,
+      tasks: tasks.map(task => ({
+        id: task.id,
+        assignedTo: task.assignedTo ? [{ id: task.assignedTo, type: task.assignedToType || 'user' }] : [],
+        status: task.status,
+        dueDate: task.dueDate,
+        completedAt: task.completedAt,
+      })),
+    });
+  }
+  
+  return reviewSteps.sort((a, b) => a.stepNumber - b.stepNumber);
+}
+
+/**
+ * The current reviewer is the first open task on the in-progress review step
+ */
+function findCurrentReviewer(steps: ACCSubmittalReviewStep[]): ACCAssignee | undefined {
+  const activeStep = steps.find(step => step.status === 'in-progress');
+  const openTask = activeStep?.tasks.find(task => task.status !== 'completed' && task.assignedTo.length > 0);
+  
+  return openTask?.assignedTo[0];
+}
+
+/**
+ * Maps a raw ACC submittal item into the shared ACCSubmittal shape
+ */
+function mapAccSubmittal(
+  projectId: string,
+  raw: RawAccSubmittalItem,
+  spec: RawAccSubmittalSpec | undefined,
+  pkg: RawAccSubmittalPackage | undefined,
+  reviewSteps: ACCSubmittalReviewStep[],
+  attachments: ACCAttachment[]
+): ACCSubmittal {
+  const number = raw.customIdentifier
+    || (spec && raw.identifier !== undefined ? `${spec.identifier}-${raw.identifier}` : undefined)
+    || String(raw.identifier ?? raw.id);
+  
+  return {
+    id: raw.id,
+    externalId: raw.id,
+    projectId,
+    number,
+    title: raw.title || 'Untitled Submittal',
+    description: raw.description,
+    specSection: spec?.identifier,
+    specSectionTitle: spec?.title,
+    packageNumber: pkg?.identifier !== undefined ? String(pkg.identifier) : undefined,
+    packageTitle: pkg?.title,
+    status: raw.stateId || raw.statusId || 'unknown',
+    priority: raw.priority,
+    dueDate: raw.dueDate,
+    createdBy: raw.createdBy,
+    assignedTo: mapBallInCourt(raw),
+    currentReviewer: findCurrentReviewer(reviewSteps),
+    reviewSteps,
+    response: raw.responseId || raw.responseComment
+      ? {
+          status: raw.responseId,
+          text: raw.responseComment || '',
+          respondedBy: raw.respondedBy,
+          respondedAt: raw.respondedAt,
+        }
+      : undefined,
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt || raw.createdAt,
+    attachments,
+  };
+}
+
+/**
+ * Lists all Submittal items for a project with their spec section, package,
+ * review steps and attachments, following pagination to the end
+ * Endpoint: GET /construction/submittals/v2/projects/{projectId}/items
  * 
- * @stub Returns mock data for testing
+ * sinceCursor is the updatedAt timestamp returned as `cursor` by the previous
+ * call; only items updated at or after it are returned.
+ * knownUpdatedAt maps item IDs to the updatedAt already synced; items that still
+ * match skip the per-item step, task and attachment calls (see detailsSkipped).
  */
 export async function listSubmittals(
   accessToken: string,
   projectId: string,
-  sinceCursor?: string
+  sinceCursor?: string,
+  knownUpdatedAt?: Map<string, string>
 ): Promise<ACCSubmittalListResponse> {
-  log.info({ projectId, sinceCursor }, 'Listing Submittals (STUB)');
+  log.info({ projectId, sinceCursor }, 'Listing Submittals');
   
-  // TODO: Replace with actual API call when available
-  // Example of what the real implementation might look like:
-  /*
-  const client = createApiClient(accessToken);
-  const params: Record<string, string> = { limit: '50' };
-  if (sinceCursor) {
-    params.cursor = sinceCursor;
-  }
+  const accProjectId = normalizeAccId(projectId);
+  const client = createApiClient(accessToken, { projectId });
+  const baseUrl = `/construction/submittals/v2/projects/${accProjectId}`;
   
-  const response = await client.get<ACCSubmittalListResponse>(
-    `/construction/submittals/v1/projects/${projectId}/submittals`,
-    { params }
-  );
+  // Specs and packages are small lookup tables, fetched once per call
+  const [rawItems, specs, packages] = await Promise.all([
+    fetchAllPages<RawAccSubmittalItem>(client, `${baseUrl}/items`, buildSinceParams(sinceCursor)),
+    fetchAllPages<RawAccSubmittalSpec>(client, `${baseUrl}/specs`),
+    fetchAllPages<RawAccSubmittalPackage>(client, `${baseUrl}/packages`),
+  ]);
   
-  return response.data;
-  */
+  const specsById = new Map(specs.map(spec => [spec.id, spec]));
+  const packagesById = new Map(packages.map(pkg => [pkg.id, pkg]));
+  
+  const submittals: ACCSubmittal[] = [];
+  let skipped = 0;
+  
+  for (const raw of rawItems) {
+    const spec = raw.specId ? specsById.get(raw.specId) : undefined;
+    const pkg = raw.packageId ? packagesById.get(raw.packageId) : undefined;
+    
+    if (isUnchanged(raw, knownUpdatedAt)) {
+      submittals.push({ ...mapAccSubmittal(projectId, raw, spec, pkg, [], []), detailsSkipped: true });
+      skipped++;
+      continue;
+    }
+    
+    const reviewSteps = await listSubmittalReviewSteps(client, accProjectId, raw.id);
+    const attachments = await fetchAllPages<RawAccAttachment>(client, `${baseUrl}/items/${raw.id}/attachments`);
+    
+    submittals.push(mapAccSubmittal(projectId, raw, spec, pkg, reviewSteps, attachments.map(mapAccAttachment)));
+  }
+  
+  log.info({ projectId, count: submittals.length, detailsSkipped: skipped }, 'Submittals retrieved');
   
-  // Stub response for testing
   return {
-    data: [],
+    data: submittals,
     pagination: {
-      limit: 50,
+      limit: PAGE_SIZE,
       offset: 0,
-      totalResults: 0,
+      totalResults: submittals.length,
     },
-    cursor: undefined,
+    cursor: latestUpdatedAt(submittals, sinceCursor),
   };
 }
 
+/**
+ * Updates the review status of a Submittal item in ACC
+ * Endpoint: PATCH /construction/submittals/v2/projects/{projectId}/items/{itemId}
+ */
+export async function updateSubmittalStatus(
+  projectId: string,
+  submittalId: string,
+  status: string,
+  accessToken: string
+): Promise<void> {
+  log.info({ projectId, submittalId, status }, 'Updating Submittal status');
+  
+  const client = createApiClient(accessToken, { projectId });
+  await client.patch(
+    `/construction/submittals/v2/projects/${normalizeAccId(projectId)}/items/${submittalId}`,
+    { status }
+  );
+}
+
+/**
+ * Posts the official review response text on a Submittal item in ACC
+ * Endpoint: POST /construction/submittals/v2/projects/{projectId}/items/{itemId}/comments
+ */
+export async function postSubmittalResponse(
+  projectId: string,
+  submittalId: string,
+  text: string,
+  accessToken: string
+): Promise<void> {
+  log.info({ projectId, submittalId }, 'Posting Submittal response');
+  
+  const client = createApiClient(accessToken, { projectId });
+  await client.post(
+    `/construction/submittals/v2/projects/${normalizeAccId(projectId)}/items/${submittalId}/comments`,
+    { body: text }
+  );
+}
+
+/**
+ * Uploads a file as an attachment on a Submittal item in ACC
+ * Endpoint: POST /construction/submittals/v2/projects/{projectId}/items/{itemId}/attachments
+ */
+export async function uploadSubmittalAttachment(
+  projectId: string,
+  submittalId: string,
+  fileBuffer: Buffer,
+  fileName: string,
+  accessToken: string
+): Promise<void> {
+  log.info({ projectId, submittalId, fileName, size: fileBuffer.length }, 'Uploading Submittal attachment');
+  
+  const form = new FormData();
+  form.append('file', fileBuffer, { filename: fileName });
+  
+  const client = createApiClient(accessToken, { projectId });
+  await client.post(
+    `/construction/submittals/v2/projects/${normalizeAccId(projectId)}/items/${submittalId}/attachments`,
+    form,
+    { headers: form.getHeaders() }
+  );
+}
+
 // ============================================================================
-// Attachments (STUB - implement when needed)
+// Attachments
 // ============================================================================
 
+interface SignedDownloadResponse {
+  url: string;
+  size?: number;
+  status?: string;
+}
+
 /**
- * Downloads an attachment from ACC
- * 
- * TODO: Implement based on attachment type and source module
- * 
- * @stub Returns null for testing
+ * Downloads an attachment from ACC through a signed OSS URL
+ * Endpoint: GET /oss/v2/buckets/{bucketKey}/objects/{objectKey}/signeds3download
  */
 export async function downloadAttachment(
   accessToken: string,
   attachmentRef: AttachmentRef
-): Promise<{ localPath: string; size: number } | null> {
-  log.info({ attachmentRef }, 'Downloading attachment (STUB)');
+): Promise<Buffer> {
+  log.info({ attachmentId: attachmentRef.id, fileName: attachmentRef.fileName }, 'Downloading attachment');
   
-  // TODO: Implement actual download logic
-  // 1. Get download URL from attachment reference
-  // 2. Download file content
-  // 3. Save to local storage
-  // 4. Return local path and file size
+  const { bucket, objectKey } = parseStorageUrn(attachmentRef.urn);
   
-  /*
-  const client = createApiClient(accessToken);
-  
-  // Get signed URL for download
-  const signedUrl = await getSignedDownloadUrl(client, attachmentRef.urn);
+  const client = createApiClient(accessToken, { projectId: attachmentRef.projectId });
+  const signed = await client.get<SignedDownloadResponse>(
+    `/oss/v2/buckets/${bucket}/objects/${encodeURIComponent(objectKey)}/signeds3download`
+  );
   
-  // Download file
-  const response = await axios.get(signedUrl, { responseType: 'arraybuffer' });
+  if (!signed.data.url) {
+    throw new Error(`No download URL returned for ${attachmentRef.fileName} (${signed.data.status || 'unknown status'})`);
+  }
   
-  // Save to storage
-  const localPath = path.join(config.storagePath, attachmentRef.projectId, attachmentRef.fileName);
-  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
-  await fs.promises.writeFile(localPath, response.data);
+  // The signed URL is pre-authorized, so it must be fetched without our bearer token
+  const download = createLayeredClient({ hubKey: 'oss-signed', authenticated: false });
+  const response = await download.get<ArrayBuffer>(signed.data.url, { responseType: 'arraybuffer' });
+  const buffer = Buffer.from(response.data);
   
-  return {
-    localPath,
-    size: response.data.length,
-  };
-  */
+  log.info({ attachmentId: attachmentRef.id, size: buffer.length }, 'Attachment downloaded');
   
-  return null;
+  return buffer;
 }
-
-
@@ -0,0 +1,392 @@
+/**
+ * ACC Request Layer
+ *
+ * Shared transport for every APS/ACC call: per-hub rate limiting, jittered retries
+ * (honouring 429 Retry-After), refresh-and-replay on 401 and per-endpoint metrics
+ */
+
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../config';
+import { createChildLogger } from './logger';
+
+const log = createChildLogger({ module: 'accRequest' });
+
+export interface RequestLayerOptions {
+  hubKey: string | Promise<string>; // Rate-limit bucket; resolved lazily so callers can look the hub up
+  authenticated?: boolean; // False for pre-signed URLs, which must not get a 401 replay
+}
+
+export interface EndpointMetrics {
+  requests: number;
+  failures: number;
+  retries: number;
+  tokenRefreshes: number;
+  throttledMs: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  statusCounts: Record<string, number>;
+}
+
+interface RequestMeta {
+  endpoint: string;
+  hubKey: string;
+  attempt: number;
+  replayed: boolean;
+  startedAt: number;
+  throttledMs: number;
+}
+
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    accMeta?: RequestMeta; // Carried across retries and replays of the same request
+  }
+}
+
+interface HubBucket {
+  tokens: number;
+  updatedAt: number;
+  pausedUntil: number;
+}
+
+// Methods that are safe to repeat after a 5xx or dropped connection
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'patch', 'delete'];
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+const buckets = new Map<string, HubBucket>();
+const metrics = new Map<string, EndpointMetrics>();
+
+let tokenRefresher: ((staleToken: string) => Promise<string | null>) | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Registers how a rejected access token is exchanged for a fresh one
+ */
+export function setTokenRefresher(refresher: (staleToken: string) => Promise<string | null>): void {
+  tokenRefresher = refresher;
+}
+
+/**
+ * Waits for a request slot in the hub's token bucket; returns how long it waited
+ */
+async function acquireSlot(hubKey: string): Promise<number> {
+  const { rateLimitPerMinute, rateLimitBurst } = config.autodesk;
+  const refillPerMs = rateLimitPerMinute / 60000;
+  
+  let bucket = buckets.get(hubKey);
+  if (!bucket) {
+    bucket = { tokens: rateLimitBurst, updatedAt: Date.now(), pausedUntil: 0 };
+    buckets.set(hubKey, bucket);
+  }
+  
+  let waitedMs = 0;
+  for (;;) {
+    const now = Date.now();
+    
+    if (now < bucket.pausedUntil) {
+      const pauseMs = bucket.pausedUntil - now;
+      await sleep(pauseMs);
+      waitedMs += pauseMs;
+      continue;
+    }
+    
+    bucket.tokens = Math.min(rateLimitBurst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return waitedMs;
+    }
+    
+    const refillMs = Math.ceil((1 - bucket.tokens) / refillPerMs);
+    await sleep(refillMs);
+    waitedMs += refillMs;
+  }
+}
+
+/**
+ * Holds back every request to a hub after ACC told us to slow down
+ */
+function pauseHub(hubKey: string, ms: number): void {
+  const bucket = buckets.get(hubKey);
+  if (bucket) {
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+  }
+}
+
+/**
+ * Collapses IDs, URNs and numbers in a URL so metrics group by endpoint rather than by record
+ */
+function toEndpointKey(method: string | undefined, url: string | undefined): string {
+  const pathname = (url || '').split('?')[0].replace(config.autodesk.apiBaseUrl, '');
+  const templated = pathname
+    .split('/')
+    .map(segment => (
+      /^[0-9a-f-]{16,}$/i.test(segment)
+      || /^b\.[\w-]+$/.test(segment)
+      || /^urn(:|%3A)/i.test(segment)
+      || /%3A|%2F/i.test(segment)
+      || /^\d+$/.test(segment)
+        ? ':id'
+        : segment
+    ))
+    .join('/');
+  
+  return `${(method || 'get').toUpperCase()} ${templated}`;
+}
+
+function getEndpointMetrics(endpoint: string): EndpointMetrics {
+  let entry = metrics.get(endpoint);
+  if (!entry) {
+    entry = {
+      requests: 0,
+      failures: 0,
+      retries: 0,
+      tokenRefreshes: 0,
+      throttledMs: 0,
+      totalDurationMs: 0,
+      maxDurationMs: 0,
+      statusCounts: {},
+    };
+    metrics.set(endpoint, entry);
+  }
+  return entry;
+}
+
+/**
+ * Records the final outcome of a request (after any retries) and emits it as a structured log line
+ */
+function recordOutcome(meta: RequestMeta, status: number | string) {
+  const durationMs = Date.now() - meta.startedAt;
+  const entry = getEndpointMetrics(meta.endpoint);
+  const failed = typeof status !== 'number' || status >= 400;
+  
+  entry.requests++;
+  entry.totalDurationMs += durationMs;
+  entry.maxDurationMs = Math.max(entry.maxDurationMs, durationMs);
+  entry.throttledMs += meta.throttledMs;
+  entry.statusCounts[String(status)] = (entry.statusCounts[String(status)] || 0) + 1;
+  if (failed) {
+    entry.failures++;
+  }
+  
+  const fields = {
+    metric: 'acc_request',
+    endpoint: meta.endpoint,
+    hubKey: meta.hubKey,
+    status,
+    attempts: meta.attempt,
+    durationMs,
+    throttledMs: meta.throttledMs,
+  };
+  
+  if (failed) {
+    log.warn(fields, 'ACC request failed');
+  } else {
+    log.debug(fields, 'ACC request');
+  }
+}
+
+/**
+ * Snapshot of per-endpoint request metrics since the process started
+ */
+export function getAccRequestMetrics(): Record<string, EndpointMetrics & { averageDurationMs: number }> {
+  const snapshot: Record<string, EndpointMetrics & { averageDurationMs: number }> = {};
+  
+  for (const [endpoint, entry] of metrics) {
+    snapshot[endpoint] = {
+      ...entry,
+      statusCounts: { ...entry.statusCounts },
+      averageDurationMs: entry.requests > 0 ? Math.round(entry.totalDurationMs / entry.requests) : 0,
+    };
+  }
+  
+  return snapshot;
+}
+
+/**
+ * Parses Retry-After (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Exponential backoff with jitter between 50% and 150% of the nominal delay
+ */
+function backoffMs(attempt: number): number {
+  const nominal = config.autodesk.retryBaseMs * 2 ** (attempt - 1);
+  return Math.min(nominal * (0.5 + Math.random()), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Streamed bodies (multipart uploads) are consumed by the first attempt and can't be sent again
+ */
+function isReplayable(requestConfig: InternalAxiosRequestConfig): boolean {
+  return !(requestConfig.data && typeof requestConfig.data.pipe === 'function');
+}
+
+/**
+ * The server's Retry-After if it sent one, otherwise backoff; null when it asks for longer than
+ * MAX_RETRY_DELAY_MS, so the request fails instead of holding the caller for that long
+ */
+function retryAfterOrBackoff(error: AxiosError, attempt: number): number | null {
+  const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+  
+  if (retryAfter === null) {
+    return backoffMs(attempt);
+  }
+  
+  return retryAfter <= MAX_RETRY_DELAY_MS ? retryAfter : null;
+}
+
+/**
+ * How long to wait before retrying, or null if the error should not be retried
+ */
+function getRetryDelay(error: AxiosError, attempt: number): number | null {
+  if (attempt > config.autodesk.maxRetries) {
+    return null;
+  }
+  
+  const status = error.response?.status;
+  
+  // A 429 was never processed, so even POSTs are safe to resend
+  if (status === 429) {
+    return retryAfterOrBackoff(error, attempt);
+  }
+  
+  const method = (error.config?.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.includes(method)) {
+    return null;
+  }
+  
+  if (status && RETRYABLE_STATUSES.includes(status)) {
+    return retryAfterOrBackoff(error, attempt);
+  }
+  
+  if (!error.response && error.code && RETRYABLE_NETWORK_CODES.includes(error.code)) {
+    return backoffMs(attempt);
+  }
+  
+  return null;
+}
+
+/**
+ * Adds rate limiting, retries, 401 replay and metrics to an Axios instance
+ */
+export function applyRequestLayer(client: AxiosInstance, options: RequestLayerOptions): AxiosInstance {
+  const authenticated = options.authenticated ?? true;
+  
+  client.interceptors.request.use(async (requestConfig: InternalAxiosRequestConfig) => {
+    const hubKey = await options.hubKey;
+    const meta: RequestMeta = requestConfig.accMeta ?? {
+      endpoint: toEndpointKey(requestConfig.method, `${requestConfig.baseURL || ''}${requestConfig.url || ''}`),
+      hubKey,
+      attempt: 0,
+      replayed: false,
+      startedAt: Date.now(),
+      throttledMs: 0,
+    };
+    
+    meta.attempt++;
+    meta.throttledMs += await acquireSlot(hubKey);
+    requestConfig.accMeta = meta;
+    
+    return requestConfig;
+  });
+  
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      const meta = response.config.accMeta;
+      if (meta) {
+        recordOutcome(meta, response.status);
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const requestConfig = error.config as InternalAxiosRequestConfig | undefined;
+      const meta = requestConfig?.accMeta;
+      
+      if (!requestConfig || !meta) {
+        throw error;
+      }
+      
+      const replayable = isReplayable(requestConfig);
+      
+      const status = error.response?.status;
+      
+      // The token may have been refreshed (or revoked) while this request was in flight
+      if (status === 401 && authenticated && replayable && !meta.replayed && tokenRefresher) {
+        const staleToken = String(requestConfig.headers.Authorization || '').replace(/^Bearer /, '');
+        const freshToken = staleToken ? await tokenRefresher(staleToken) : null;
+        
+        if (freshToken) {
+          meta.replayed = true;
+          getEndpointMetrics(meta.endpoint).tokenRefreshes++;
+          requestConfig.headers.Authorization = `Bearer ${freshToken}`;
+          
+          // Later requests on this client (the next page, say) start with the fresh token too
+          if (client.defaults.headers.Authorization === `Bearer ${staleToken}`) {
+            client.defaults.headers.Authorization = `Bearer ${freshToken}`;
+          }
+          
+          log.info({ endpoint: meta.endpoint }, 'Replaying ACC request with refreshed token');
+          return client.request(requestConfig);
+        }
+      }
+      
+      const delayMs = replayable ? getRetryDelay(error, meta.attempt) : null;
+      
+      if (delayMs !== null) {
+        getEndpointMetrics(meta.endpoint).retries++;
+        if (status === 429) {
+          pauseHub(meta.hubKey, delayMs);
+        }
+        
+        log.warn({
+          endpoint: meta.endpoint,
+          hubKey: meta.hubKey,
+          status: status ?? error.code,
+          attempt: meta.attempt,
+          retryInMs: Math.round(delayMs),
+        }, 'Retrying ACC request');
+        
+        await sleep(delayMs);
+        return client.request(requestConfig);
+      }
+      
+      recordOutcome(meta, status ?? error.code ?? 'network_error');
+      
+      log.error({
+        status,
+        url: requestConfig.url,
+        error: error.response?.data,
+      }, 'API Error');
+      
+      throw error;
+    }
+  );
+  
+  return client;
+}
+
+/**
+ * A bare Axios instance with the request layer, for calls that don't go through the APS base URL
+ */
+export function createLayeredClient(options: RequestLayerOptions): AxiosInstance {
+  return applyRequestLayer(axios.create(), options);
+}
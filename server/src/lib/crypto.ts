@@ -1,17 +1,34 @@
 import crypto from 'crypto';
-import { config } from '../config';
+import { config, type EncryptionKey } from '../config';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
 const SALT_LENGTH = 32;
 
+// Prefix of ciphertext that names the key it was encrypted with
+const FORMAT_VERSION = 'v1';
+
+function getActiveKey(): EncryptionKey {
+  return config.tokenEncryptionKeys[0];
+}
+
+function getKeyById(keyId: string): EncryptionKey {
+  const key = config.tokenEncryptionKeys.find(candidate => candidate.id === keyId);
+  
+  if (!key) {
+    throw new Error(`Encryption key "${keyId}" is not configured`);
+  }
+  
+  return key;
+}
+
 /**
- * Derives a key from the encryption key using PBKDF2
+ * Derives a key from an encryption secret using PBKDF2
  */
-function deriveKey(salt: Buffer): Buffer {
+function deriveKey(secret: string, salt: Buffer): Buffer {
   return crypto.pbkdf2Sync(
-    config.tokenEncryptionKey,
+    secret,
     salt,
     100000,
     32,
@@ -19,13 +36,29 @@ function deriveKey(salt: Buffer): Buffer {
   );
 }
 
+function decryptWithKey(secret: string, [saltB64, ivB64, authTagB64, ciphertext]: string[]): string {
+  const salt = Buffer.from(saltB64, 'base64');
+  const iv = Buffer.from(ivB64, 'base64');
+  const authTag = Buffer.from(authTagB64, 'base64');
+  const key = deriveKey(secret, salt);
+  
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  
+  let decrypted = decipher.update(ciphertext, 'base64', 'utf8');
+  decrypted += decipher.final('utf8');
+  
+  return decrypted;
+}
+
 /**
- * Encrypts a string using AES-256-GCM
- * Format: salt:iv:authTag:ciphertext (all base64 encoded)
+ * Encrypts a string using AES-256-GCM with the active key
+ * Format: v1:keyId:salt:iv:authTag:ciphertext (binary parts base64 encoded)
  */
 export function encrypt(plaintext: string): string {
+  const activeKey = getActiveKey();
   const salt = crypto.randomBytes(SALT_LENGTH);
-  const key = deriveKey(salt);
+  const key = deriveKey(activeKey.secret, salt);
   const iv = crypto.randomBytes(IV_LENGTH);
   
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
@@ -36,6 +69,8 @@ export function encrypt(plaintext: string): string {
   const authTag = cipher.getAuthTag();
   
   return [
+    FORMAT_VERSION,
+    activeKey.id,
     salt.toString('base64'),
     iv.toString('base64'),
     authTag.toString('base64'),
@@ -45,28 +80,44 @@ export function encrypt(plaintext: string): string {
 
 /**
  * Decrypts a string encrypted with the encrypt function
+ * Also reads the older unversioned format (salt:iv:authTag:ciphertext) by trying each configured key
  */
 export function decrypt(encryptedData: string): string {
   const parts = encryptedData.split(':');
   
+  if (parts.length === 6 && parts[0] === FORMAT_VERSION) {
+    return decryptWithKey(getKeyById(parts[1]).secret, parts.slice(2));
+  }
+  
   if (parts.length !== 4) {
     throw new Error('Invalid encrypted data format');
   }
   
-  const [saltB64, ivB64, authTagB64, ciphertext] = parts;
-  
-  const salt = Buffer.from(saltB64, 'base64');
-  const iv = Buffer.from(ivB64, 'base64');
-  const authTag = Buffer.from(authTagB64, 'base64');
-  const key = deriveKey(salt);
-  
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
-  
-  let decrypted = decipher.update(ciphertext, 'base64', 'utf8');
-  decrypted += decipher.final('utf8');
+  // GCM authentication fails for the wrong key, so the first key that succeeds is the right one
+  for (const key of config.tokenEncryptionKeys) {
+    try {
+      return decryptWithKey(key.secret, parts);
+    } catch {
+      // try the next key
+    }
+  }
   
-  return decrypted;
+  throw new Error('Encrypted data does not match any configured key');
+}
+
+/**
+ * The key id a value was encrypted with, or null for the older unversioned format
+ */
+export function getCiphertextKeyId(encryptedData: string): string | null {
+  const parts = encryptedData.split(':');
+  return parts.length === 6 && parts[0] === FORMAT_VERSION ? parts[1] : null;
+}
+
+/**
+ * Whether a value should be re-encrypted because it isn't under the active key
+ */
+export function needsReencryption(encryptedData: string): boolean {
+  return getCiphertextKeyId(encryptedData) !== getActiveKey().id;
 }
 
 /**
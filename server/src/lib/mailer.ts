@@ -0,0 +1,47 @@
+/**
+ * Mailer
+ *
+ * Local stand-in for an SMTP relay: each message is written to the outbox folder as an
+ * .eml file (openable in any mail client) and logged, so email flows work without a mail server
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config';
+import { createChildLogger } from './logger';
+
+const log = createChildLogger({ module: 'mailer' });
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends an email; returns the message ID
+ */
+export async function sendMail(message: MailMessage): Promise<string> {
+  const messageId = `${crypto.randomUUID()}@acc-integration`;
+  
+  const eml = [
+    `Message-ID: <${messageId}>`,
+    `Date: ${new Date().toUTCString()}`,
+    `From: ${config.mail.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+  ].join('\r\n');
+  
+  await fs.promises.mkdir(config.mail.outboxPath, { recursive: true });
+  const filePath = path.join(config.mail.outboxPath, `${Date.now()}-${messageId.split('@')[0]}.eml`);
+  await fs.promises.writeFile(filePath, eml, 'utf8');
+  
+  log.info({ to: message.to, subject: message.subject, filePath }, 'Email written to outbox');
+  
+  return messageId;
+}
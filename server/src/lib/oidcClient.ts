@@ -0,0 +1,240 @@
+/**
+ * OpenID Connect Client (Entra ID)
+ *
+ * Authorization code flow with PKCE for internal user sign-in. Endpoints come from the
+ * issuer's discovery document, and ID tokens are verified against its published signing keys.
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import { config } from '../config';
+import { createChildLogger } from './logger';
+
+const log = createChildLogger({ module: 'oidcClient' });
+
+// Allowed difference between our clock and the IdP's when checking exp/nbf/iat
+const CLOCK_SKEW_SECONDS = 120;
+
+// Discovery documents and signing keys change rarely; keys are refetched early when an unknown kid shows up
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+interface OidcTokenResponse {
+  id_token: string;
+  access_token?: string;
+  token_type: string;
+  expires_in?: number;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  nonce?: string;
+  oid?: string; // Entra object ID; stable across apps in the tenant, unlike sub
+  tid?: string;
+  email?: string;
+  preferred_username?: string;
+  upn?: string;
+  xms_edov?: boolean | string; // Optional claim: the email's domain is verified by the user's tenant
+  verified_primary_email?: string[]; // Optional claim: primary emails the tenant has verified
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  groups?: string[];
+  // Present instead of "groups" when the user is in too many groups to fit in the token
+  _claim_names?: Record<string, string>;
+}
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+let discoveryCache: { document: DiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+/**
+ * Gets the issuer's OpenID configuration
+ */
+async function getDiscoveryDocument(): Promise<DiscoveryDocument> {
+  if (discoveryCache && Date.now() - discoveryCache.fetchedAt < METADATA_TTL_MS) {
+    return discoveryCache.document;
+  }
+  
+  const response = await axios.get<DiscoveryDocument>(
+    `${config.entra.issuer}/.well-known/openid-configuration`,
+    { timeout: 10000 }
+  );
+  
+  discoveryCache = { document: response.data, fetchedAt: Date.now() };
+  return response.data;
+}
+
+/**
+ * Gets the issuer's signing keys
+ */
+async function getSigningKeys(forceRefresh: boolean = false): Promise<Jwk[]> {
+  if (!forceRefresh && jwksCache && Date.now() - jwksCache.fetchedAt < METADATA_TTL_MS) {
+    return jwksCache.keys;
+  }
+  
+  const discovery = await getDiscoveryDocument();
+  const response = await axios.get<{ keys: Jwk[] }>(discovery.jwks_uri, { timeout: 10000 });
+  
+  jwksCache = { keys: response.data.keys || [], fetchedAt: Date.now() };
+  return jwksCache.keys;
+}
+
+/**
+ * Creates a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Generates a nonce to bind the ID token to this sign-in
+ */
+export function generateNonce(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Generates the authorization URL for the sign-in redirect
+ */
+export async function getAuthorizationUrl(state: string, nonce: string, codeChallenge: string): Promise<string> {
+  const discovery = await getDiscoveryDocument();
+  const params = new URLSearchParams({
+    response_type: 'code',
+    response_mode: 'query',
+    client_id: config.entra.clientId,
+    redirect_uri: config.entra.callbackUrl,
+    scope: config.entra.scopes.join(' '),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  
+  return `${discovery.authorization_endpoint}?${params.toString()}`;
+}
+
+/**
+ * Exchanges an authorization code (and the PKCE verifier) for tokens
+ */
+export async function exchangeCodeForTokens(code: string, codeVerifier: string): Promise<OidcTokenResponse> {
+  const discovery = await getDiscoveryDocument();
+  
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.entra.callbackUrl,
+    code_verifier: codeVerifier,
+    client_id: config.entra.clientId,
+    client_secret: config.entra.clientSecret,
+    scope: config.entra.scopes.join(' '),
+  });
+  
+  const response = await axios.post<OidcTokenResponse>(discovery.token_endpoint, params.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    timeout: 15000,
+  });
+  
+  if (!response.data.id_token) {
+    throw new Error('Token response did not include an ID token');
+  }
+  
+  log.info('OIDC token exchange successful');
+  return response.data;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+/**
+ * Verifies an ID token's signature and standard claims, returning its claims
+ */
+export async function verifyIdToken(idToken: string, expectedNonce: string): Promise<IdTokenClaims> {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new Error('ID token is not a JWT');
+  }
+  
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg: string; kid?: string }>(encodedHeader);
+  
+  if (header.alg !== 'RS256') {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+  
+  let keys = await getSigningKeys();
+  let jwk = keys.find(key => key.kid === header.kid);
+  
+  // Keys roll over; look again before giving up on an unknown kid
+  if (!jwk) {
+    keys = await getSigningKeys(true);
+    jwk = keys.find(key => key.kid === header.kid);
+  }
+  
+  if (!jwk) {
+    throw new Error(`No signing key matches ID token kid ${header.kid}`);
+  }
+  
+  const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  const signatureValid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    publicKey,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  
+  if (!signatureValid) {
+    throw new Error('ID token signature is invalid');
+  }
+  
+  const claims = decodeSegment<IdTokenClaims>(encodedPayload);
+  const discovery = await getDiscoveryDocument();
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  
+  if (claims.iss !== discovery.issuer) {
+    throw new Error(`ID token issuer ${claims.iss} does not match ${discovery.issuer}`);
+  }
+  if (!audiences.includes(config.entra.clientId)) {
+    throw new Error('ID token was not issued for this application');
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nbf && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('ID token is not valid yet');
+  }
+  if (claims.nonce !== expectedNonce) {
+    throw new Error('ID token nonce does not match this sign-in');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+  
+  return claims;
+}
@@ -0,0 +1,99 @@
+/**
+ * Prisma Session Store
+ *
+ * express-session store backed by the Session table, so sign-ins survive restarts and every
+ * instance sees the same sessions. The store also enforces the idle and absolute timeouts:
+ * a session read after either has passed is deleted and treated as missing.
+ */
+
+import session from 'express-session';
+import { prisma } from './prisma';
+import { config } from '../config';
+import { createChildLogger } from './logger';
+
+const log = createChildLogger({ module: 'sessionStore' });
+
+// Requests within this window of the last one don't rewrite lastSeenAt, to spare a write per request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+function getIdleExpiry(absoluteExpiresAt: Date): Date {
+  const idleExpiresAt = new Date(Date.now() + config.sessionIdleTimeoutMinutes * 60 * 1000);
+  return idleExpiresAt < absoluteExpiresAt ? idleExpiresAt : absoluteExpiresAt;
+}
+
+export class PrismaSessionStore extends session.Store {
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void): void {
+    (async () => {
+      const row = await prisma.session.findUnique({
+        where: { sid },
+      });
+      
+      if (!row) {
+        return null;
+      }
+      
+      if (row.expiresAt < new Date()) {
+        log.debug({ sessionId: row.id, userId: row.userId }, 'Session timed out');
+        await prisma.session.deleteMany({ where: { sid } });
+        return null;
+      }
+      
+      return JSON.parse(row.data) as session.SessionData;
+    })().then(data => callback(null, data), callback);
+  }
+  
+  set(sid: string, data: session.SessionData, callback?: (err?: unknown) => void): void {
+    (async () => {
+      const existing = await prisma.session.findUnique({
+        where: { sid },
+        select: { absoluteExpiresAt: true },
+      });
+      const absoluteExpiresAt = existing?.absoluteExpiresAt
+        ?? new Date(Date.now() + config.sessionAbsoluteTimeoutHours * 60 * 60 * 1000);
+      
+      const fields = {
+        userId: data.userId ?? null,
+        data: JSON.stringify(data),
+        ipAddress: data.ipAddress ?? null,
+        userAgent: data.userAgent ?? null,
+        lastSeenAt: new Date(),
+        expiresAt: getIdleExpiry(absoluteExpiresAt),
+      };
+      
+      await prisma.session.upsert({
+        where: { sid },
+        create: { sid, absoluteExpiresAt, ...fields },
+        update: fields,
+      });
+    })().then(() => callback?.(), callback);
+  }
+  
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    prisma.session.deleteMany({ where: { sid } })
+      .then(() => callback?.(), callback);
+  }
+  
+  /**
+   * Called by express-session for requests that didn't change the session; keeps it from idling out
+   */
+  touch(sid: string, _data: session.SessionData, callback?: () => void): void {
+    (async () => {
+      const row = await prisma.session.findUnique({
+        where: { sid },
+        select: { lastSeenAt: true, absoluteExpiresAt: true },
+      });
+      
+      if (!row || Date.now() - row.lastSeenAt.getTime() < TOUCH_INTERVAL_MS) {
+        return;
+      }
+      
+      await prisma.session.updateMany({
+        where: { sid },
+        data: { lastSeenAt: new Date(), expiresAt: getIdleExpiry(row.absoluteExpiresAt) },
+      });
+    })().then(() => callback?.(), (error) => {
+      log.warn({ error }, 'Failed to touch session');
+      callback?.();
+    });
+  }
+}
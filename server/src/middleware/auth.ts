@@ -2,50 +2,202 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { getValidAccessToken } from '../lib/accClient';
 import { logger } from '../lib/logger';
+import {
+  can,
+  getProjectAccess,
+  PERMISSION_DENIED_MESSAGES,
+  type ProjectAccess,
+  type ProjectPermission,
+} from '../services/policyService';
+import { createAuditLog, getAuditContext } from '../services/auditService';
+import { authenticateApiToken, touchApiToken } from '../services/apiTokenService';
+
+// Methods a read-only API token may use
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
 
 // Extend session type
 declare module 'express-session' {
   interface SessionData {
-    userId?: string;
+    userId?: string; // Internal User.id, set by local login or Autodesk sign-in
+    accUserId?: string; // Autodesk user ID, only when signed in with Autodesk
+    rebindTokenId?: string; // Token whose links move to the next token issued in this session
+    ipAddress?: string; // Last client IP and user agent, shown in the session list
+    userAgent?: string;
   }
 }
 
 /**
- * Middleware to check if user is authenticated
- * Validates session and token, attaches userId to request
+ * Authenticates a request made with a personal API token, recording the use in the audit log
  */
-export async function requireAuth(req: Request, res: Response, next: NextFunction) {
-  const userId = req.session?.userId;
+async function authenticateBearer(req: Request, res: Response, next: NextFunction, authorization: string) {
+  const [scheme, credential] = authorization.trim().split(/\s+/);
   
-  if (!userId) {
-    logger.debug({ requestId: req.requestId }, 'No session userId');
+  if (scheme.toLowerCase() !== 'bearer' || !credential) {
     return res.status(401).json({
       success: false,
-      error: 'Authentication required',
+      error: 'Authorization header must be "Bearer <token>"',
       requestId: req.requestId,
     });
   }
   
-  // Validate token exists and is valid
-  const accessToken = await getValidAccessToken(userId);
+  const result = await authenticateApiToken(credential);
   
-  if (!accessToken) {
-    logger.debug({ requestId: req.requestId, userId }, 'No valid token for user');
-    // Clear invalid session
-    req.session.destroy(() => {});
+  if (!result) {
+    logger.debug({ requestId: req.requestId }, 'Invalid, revoked or expired API token');
     return res.status(401).json({
       success: false,
-      error: 'Session expired. Please re-authenticate.',
+      error: 'Invalid or expired API token',
       requestId: req.requestId,
     });
   }
   
-  // Attach userId to request
-  req.userId = userId;
+  const { token, user } = result;
+  
+  req.userId = user.id;
+  req.user = { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName };
+  req.apiToken = token;
+  
+  await touchApiToken(token.id, req.ip);
+  await createAuditLog({
+    ...getAuditContext(req),
+    action: 'API_TOKEN_USED',
+    entityType: 'API_TOKEN',
+    entityId: token.id,
+    details: { method: req.method, path: req.originalUrl },
+  });
+  
+  if (!token.scopes.includes('write') && !SAFE_METHODS.includes(req.method)) {
+    return denyAccess(req, res, {
+      permission: 'write',
+      message: 'This API token is read-only',
+      entityType: 'API_TOKEN',
+      entityId: token.id,
+    });
+  }
   
   next();
 }
 
+/**
+ * Middleware to check that an internal user is signed in (locally or through Autodesk),
+ * or that the request carries a personal API token (Authorization: Bearer)
+ * Attaches the internal User.id, the user and (when present) the Autodesk identity to the request
+ */
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    // A token always wins over any session cookie sent alongside it
+    const authorization = req.get('authorization');
+    if (authorization) {
+      return await authenticateBearer(req, res, next, authorization);
+    }
+    
+    const userId = req.session?.userId;
+    
+    if (!userId) {
+      logger.debug({ requestId: req.requestId }, 'No session userId');
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, firstName: true, lastName: true, isActive: true },
+    });
+    
+    if (!user || !user.isActive) {
+      logger.debug({ requestId: req.requestId, userId }, 'Session user missing or inactive');
+      req.session.destroy(() => {});
+      return res.status(401).json({
+        success: false,
+        error: 'Session expired. Please sign in again.',
+        requestId: req.requestId,
+      });
+    }
+    
+    req.userId = user.id;
+    req.user = { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName };
+    req.accUserId = req.session.accUserId;
+    
+    // Shown in the session list; express-session only rewrites the session when these change
+    req.session.ipAddress = req.ip;
+    req.session.userAgent = req.get('user-agent');
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Middleware for routes that call ACC with the signed-in user's own Autodesk token
+ * Use after requireUser; local-only users get a 403 asking them to connect Autodesk
+ */
+export async function requireAccAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (req.apiToken) {
+      return res.status(403).json({
+        success: false,
+        error: 'API tokens cannot call ACC on your behalf; use the web app signed in with Autodesk',
+        requestId: req.requestId,
+      });
+    }
+    
+    const accUserId = req.session?.accUserId;
+    
+    if (!accUserId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Connect your Autodesk account to use this feature',
+        requestId: req.requestId,
+      });
+    }
+    
+    // Validate token exists and is valid
+    const accessToken = await getValidAccessToken(accUserId);
+    
+    if (!accessToken) {
+      logger.debug({ requestId: req.requestId, accUserId }, 'No valid token for user');
+      // The internal sign-in stays valid; only the Autodesk connection has lapsed
+      delete req.session.accUserId;
+      return res.status(401).json({
+        success: false,
+        error: 'Autodesk session expired. Please re-authenticate.',
+        requestId: req.requestId,
+      });
+    }
+    
+    req.accUserId = accUserId;
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Middleware for routes that must not be reachable with an API token (such as managing tokens)
+ * Use after requireUser
+ */
+export async function requireSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (req.apiToken) {
+      return await denyAccess(req, res, {
+        permission: 'session',
+        message: 'This action requires signing in to the web app',
+        entityType: 'API_TOKEN',
+        entityId: req.apiToken.id,
+      });
+    }
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Optional auth middleware - doesn't fail if not authenticated
  * Useful for endpoints that work differently with/without auth
@@ -54,11 +206,132 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
   const userId = req.session?.userId;
   
   if (userId) {
-    const accessToken = await getValidAccessToken(userId);
-    if (accessToken) {
-      req.userId = userId;
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, firstName: true, lastName: true, isActive: true },
+    });
+    
+    if (user?.isActive) {
+      req.userId = user.id;
+      req.user = { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName };
+      req.accUserId = req.session.accUserId;
     }
   }
   
   next();
 }
+
+/**
+ * Sends the standard 403 for a denied permission and records the attempt in the audit log
+ */
+export async function denyAccess(
+  req: Request,
+  res: Response,
+  denial: { permission: string; message: string; entityType: string; entityId?: string; details?: Record<string, unknown> }
+) {
+  logger.info({
+    requestId: req.requestId,
+    userId: req.userId,
+    permission: denial.permission,
+    entityType: denial.entityType,
+    entityId: denial.entityId,
+  }, 'Access denied');
+  
+  try {
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'ACCESS_DENIED',
+      entityType: denial.entityType,
+      entityId: denial.entityId,
+      details: {
+        permission: denial.permission,
+        method: req.method,
+        path: req.originalUrl,
+        ...denial.details,
+      },
+    });
+  } catch (error) {
+    // The denial stands even if it couldn't be recorded
+    logger.error({ requestId: req.requestId, error }, 'Failed to audit denied access');
+  }
+  
+  res.status(403).json({
+    success: false,
+    error: denial.message,
+    requestId: req.requestId,
+  });
+}
+
+/**
+ * Resolves the requester's membership in a project, once per request
+ * A project-limited API token sees projects outside its list as if the user weren't a member
+ */
+export async function resolveProjectAccess(req: Request, projectId: string): Promise<ProjectAccess> {
+  if (req.projectAccess?.projectId !== projectId) {
+    const outsideToken = req.apiToken?.projectIds && !req.apiToken.projectIds.includes(projectId);
+    
+    req.projectAccess = outsideToken
+      ? { projectId, userId: req.userId!, membership: null }
+      : await getProjectAccess(req.userId!, projectId);
+  }
+  
+  return req.projectAccess;
+}
+
+/**
+ * Checks a project permission for the requester, sending the 403 itself when it's missing
+ * Non-members always get the "no access" response, whatever they asked for
+ */
+export async function authorizeProject(
+  req: Request,
+  res: Response,
+  projectId: string,
+  permission: ProjectPermission
+): Promise<boolean> {
+  const access = await resolveProjectAccess(req, projectId);
+  
+  if (can(access.membership, permission)) {
+    return true;
+  }
+  
+  const effective: ProjectPermission = access.membership ? permission : 'view';
+  
+  await denyAccess(req, res, {
+    permission: effective,
+    message: PERMISSION_DENIED_MESSAGES[effective],
+    entityType: 'PROJECT',
+    entityId: projectId,
+    details: { role: access.membership?.role ?? null, apiTokenId: req.apiToken?.id },
+  });
+  
+  return false;
+}
+
+/**
+ * Middleware factory that requires a permission in the project named by the :projectId route
+ * parameter (or wherever locateProjectId finds it); see policyService for what each permission means
+ */
+export function requireProjectPermission(
+  permission: ProjectPermission,
+  locateProjectId: (req: Request) => string | undefined = req => req.params.projectId
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = locateProjectId(req);
+      
+      if (!projectId) {
+        return res.status(400).json({
+          success: false,
+          error: 'projectId is required',
+          requestId: req.requestId,
+        });
+      }
+      
+      if (await authorizeProject(req, res, projectId, permission)) {
+        next();
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,2 +1,3 @@
 export { requestIdMiddleware, httpLogger, errorHandler, notFoundHandler } from './logging';
-export { requireAuth, optionalAuth } from './auth';
+export { requireUser, requireAccAuth, requireSession, optionalAuth, requireProjectPermission, authorizeProject, resolveProjectAccess, denyAccess } from './auth';
+export { requireStringQuery } from './validation';
@@ -2,13 +2,24 @@ import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pinoHttp from 'pino-http';
 import { logger } from '../lib/logger';
+import type { ProjectAccess } from '../services/policyService';
+import type { ApiTokenContext } from '../services/apiTokenService';
 
 // Extend Express Request type
 declare global {
   namespace Express {
     interface Request {
       requestId: string;
-      userId?: string;
+      userId?: string; // Internal User.id
+      user?: {
+        id: string;
+        email: string;
+        firstName: string;
+        lastName: string;
+      };
+      accUserId?: string; // Autodesk user ID, when the session is connected to Autodesk
+      apiToken?: ApiTokenContext; // Set when the request authenticated with a personal API token
+      projectAccess?: ProjectAccess; // Requester's membership, resolved by the project permission checks
     }
   }
 }
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Middleware factory that rejects requests where any of the named query parameters is
+ * repeated or nested (?status=a&status=b, ?status[x]=a), so handlers can treat them as strings
+ */
+export function requireStringQuery(...names: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const invalid = names.find(name => req.query[name] !== undefined && typeof req.query[name] !== 'string');
+    
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: `Query parameter "${invalid}" must be a single value`,
+        requestId: req.requestId,
+      });
+    }
+    
+    next();
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Mock OpenID Connect Identity Provider
+ * Local stand-in for Entra ID so SSO sign-in can be exercised without a tenant
+ *
+ * Usage: npm run mock-idp
+ * Then set ENTRA_ISSUER=http://localhost:3999 and ENTRA_CLIENT_ID/ENTRA_CLIENT_SECRET to
+ * MOCK_IDP_CLIENT_ID/MOCK_IDP_CLIENT_SECRET (defaults: mock-client / mock-secret).
+ * The sign-in page lets you pick the email (and whether it's verified), name, object ID and groups to put in the ID token.
+ */
+
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import { logger } from './lib/logger';
+
+const log = logger.child({ module: 'mock-idp' });
+
+const port = parseInt(process.env.MOCK_IDP_PORT || '3999', 10);
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.MOCK_IDP_CLIENT_ID || 'mock-client';
+const clientSecret = process.env.MOCK_IDP_CLIENT_SECRET || 'mock-secret';
+
+// Fresh signing key per run; the app fetches it from the JWKS endpoint
+const keyId = crypto.randomBytes(8).toString('hex');
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyId })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function tokenError(res: Response, error: string, description: string) {
+  log.warn({ error, description }, 'Token request rejected');
+  res.status(400).json({ error, error_description: description });
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['pairwise'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (req: Request, res: Response) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }],
+  });
+});
+
+/**
+ * Sign-in page; the query string is carried through to the POST as hidden fields
+ */
+app.get('/authorize', (req: Request, res: Response) => {
+  const query = req.query as Record<string, string>;
+  
+  if (query.client_id !== clientId || query.response_type !== 'code') {
+    return res.status(400).send('Unknown client_id or unsupported response_type');
+  }
+  if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+    return res.status(400).send('PKCE (S256) is required');
+  }
+  
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(query[name] || '')}">`)
+    .join('');
+  
+  res.send(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 28rem; margin: 3rem auto">
+  <h2>Mock Entra ID sign-in</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" value="jane.doe@example.com" size="40"></label></p>
+    <p><label>Name<br><input name="name" value="Jane Doe" size="40"></label></p>
+    <p><label>Object ID (oid)<br><input name="oid" value="11111111-1111-1111-1111-111111111111" size="40"></label></p>
+    <p><label>Group IDs (comma separated)<br><input name="groups" value="" size="40"></label></p>
+    <p><label><input type="checkbox" name="verified" checked> Email verified (xms_edov)</label></p>
+    <p><label><input type="checkbox" name="overage"> Simulate group overage (no groups claim)</label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+  </form>
+</body></html>`);
+});
+
+app.post('/authorize', (req: Request, res: Response) => {
+  const body = req.body as Record<string, string>;
+  const redirect = new URL(body.redirect_uri);
+  
+  if (body.deny) {
+    redirect.searchParams.set('error', 'access_denied');
+    redirect.searchParams.set('state', body.state);
+    return res.redirect(redirect.toString());
+  }
+  
+  const [givenName = '', ...rest] = (body.name || '').trim().split(/\s+/);
+  const claims: Record<string, unknown> = {
+    oid: body.oid,
+    tid: 'mock-tenant',
+    email: body.email,
+    preferred_username: body.email,
+    name: body.name,
+    given_name: givenName,
+    family_name: rest.join(' '),
+    xms_edov: !!body.verified,
+  };
+  
+  if (body.overage) {
+    claims._claim_names = { groups: 'src1' };
+  } else {
+    claims.groups = (body.groups || '').split(',').map(group => group.trim()).filter(Boolean);
+  }
+  
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    redirectUri: body.redirect_uri,
+    codeChallenge: body.code_challenge,
+    nonce: body.nonce || undefined,
+    claims,
+    expiresAt: Date.now() + 60 * 1000,
+  });
+  
+  redirect.searchParams.set('code', code);
+  redirect.searchParams.set('state', body.state);
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req: Request, res: Response) => {
+  const body = req.body as Record<string, string>;
+  
+  if (body.grant_type !== 'authorization_code') {
+    return tokenError(res, 'unsupported_grant_type', 'Only authorization_code is supported');
+  }
+  if (body.client_id !== clientId || body.client_secret !== clientSecret) {
+    return tokenError(res, 'invalid_client', 'Client authentication failed');
+  }
+  
+  const pending = codes.get(body.code);
+  codes.delete(body.code);
+  
+  if (!pending || pending.expiresAt < Date.now()) {
+    return tokenError(res, 'invalid_grant', 'Unknown or expired code');
+  }
+  if (pending.redirectUri !== body.redirect_uri) {
+    return tokenError(res, 'invalid_grant', 'redirect_uri does not match');
+  }
+  
+  const challenge = crypto.createHash('sha256').update(body.code_verifier || '').digest('base64url');
+  if (challenge !== pending.codeChallenge) {
+    return tokenError(res, 'invalid_grant', 'PKCE verification failed');
+  }
+  
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    ...pending.claims,
+    iss: issuer,
+    aud: clientId,
+    sub: crypto.createHash('sha256').update(`${clientId}:${pending.claims.oid}`).digest('base64url'),
+    iat: now,
+    nbf: now,
+    exp: now + 3600,
+    nonce: pending.nonce,
+  });
+  
+  res.json({
+    token_type: 'Bearer',
+    expires_in: 3600,
+    id_token: idToken,
+    access_token: crypto.randomBytes(24).toString('base64url'),
+  });
+});
+
+app.listen(port, () => {
+  log.info({ issuer, clientId }, 'Mock IdP listening');
+});
@@ -0,0 +1,95 @@
+/**
+ * Token Encryption Key Rotation
+ * Re-encrypts every stored OAuth token under the active (first) key in TOKEN_ENCRYPTION_KEYS
+ *
+ * Usage: npm run rotate-keys [-- --dry-run]
+ * Once it reports nothing left to rotate, old keys can be removed from TOKEN_ENCRYPTION_KEYS
+ */
+
+import { config, getEncryptionKeyErrors } from './config';
+import { logger } from './lib/logger';
+import { prisma } from './lib/prisma';
+import { encrypt, decrypt, getCiphertextKeyId, needsReencryption } from './lib/crypto';
+
+const log = logger.child({ module: 'rotate-keys' });
+
+export async function rotateEncryptionKeys(dryRun: boolean = false) {
+  const keyErrors = getEncryptionKeyErrors();
+  if (keyErrors.length > 0) {
+    throw new Error(`Invalid token encryption keys: ${keyErrors.join('; ')}`);
+  }
+  
+  const activeKeyId = config.tokenEncryptionKeys[0].id;
+  const summary = { checked: 0, rotated: 0, current: 0, skipped: 0, failed: 0 };
+  const keyUsage: Record<string, number> = {};
+  
+  log.info({ activeKeyId, dryRun }, 'Rotating token encryption keys');
+  
+  const tokens = await prisma.accOAuthToken.findMany({
+    select: { id: true, accessToken: true, refreshToken: true },
+  });
+  
+  for (const token of tokens) {
+    summary.checked++;
+    
+    // Revoked tokens keep their row but not their secrets
+    if (!token.accessToken && !token.refreshToken) {
+      summary.skipped++;
+      continue;
+    }
+    
+    for (const value of [token.accessToken, token.refreshToken]) {
+      const keyId = getCiphertextKeyId(value) ?? 'unversioned';
+      keyUsage[keyId] = (keyUsage[keyId] || 0) + 1;
+    }
+    
+    if (!needsReencryption(token.accessToken) && !needsReencryption(token.refreshToken)) {
+      summary.current++;
+      continue;
+    }
+    
+    try {
+      const accessToken = encrypt(decrypt(token.accessToken));
+      const refreshToken = encrypt(decrypt(token.refreshToken));
+      
+      if (dryRun) {
+        summary.rotated++;
+        continue;
+      }
+      
+      // Only overwrite what we read, so a refresh that landed meanwhile isn't lost
+      const updated = await prisma.accOAuthToken.updateMany({
+        where: { id: token.id, accessToken: token.accessToken, refreshToken: token.refreshToken },
+        data: { accessToken, refreshToken },
+      });
+      
+      if (updated.count === 1) {
+        summary.rotated++;
+      } else {
+        // Refreshed while rotating; the refresh already wrote it under the active key
+        summary.current++;
+      }
+    } catch (error) {
+      summary.failed++;
+      log.error({ tokenId: token.id, error: error instanceof Error ? error.message : error }, 'Failed to re-encrypt token');
+    }
+  }
+  
+  log.info({ ...summary, keyUsageBefore: keyUsage, activeKeyId, dryRun }, 'Key rotation finished');
+  
+  return summary;
+}
+
+// Run rotation if executed directly
+if (require.main === module) {
+  rotateEncryptionKeys(process.argv.includes('--dry-run'))
+    .then(summary => summary.failed > 0 ? 1 : 0)
+    .catch(error => {
+      log.error({ error: error instanceof Error ? error.message : error }, 'Key rotation failed');
+      return 1;
+    })
+    .then(async exitCode => {
+      await prisma.$disconnect();
+      process.exit(exitCode);
+    });
+}
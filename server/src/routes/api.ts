@@ -4,71 +4,78 @@ import path from 'path';
 import { config } from '../config';
 import { prisma } from '../lib/prisma';
 import { logger } from '../lib/logger';
-import { requireAuth } from '../middleware/auth';
+import { requireUser, requireAccAuth, requireProjectPermission, authorizeProject } from '../middleware/auth';
 import {
   getValidAccessToken,
-  getUserProfile,
   listHubsAndProjects,
   listTopFolders,
+  normalizeAccId,
   uploadToDocs,
 } from '../lib/accClient';
-import { syncProject } from '../services/syncService';
+import { queueProjectSync } from '../services/syncScheduler';
+import { getProjectSyncLeases } from '../services/syncLockService';
+import { getAccRequestMetrics } from '../lib/accRequest';
+import { getViewableProjectIds } from '../services/policyService';
+import rfiRoutes from './rfis';
+import submittalRoutes from './submittals';
+import projectRoutes from './projects';
+import manualResponseRoutes from './manualResponses';
+import jobRoutes from './jobs';
+import oauthTokenRoutes from './oauthTokens';
+import apiTokenRoutes from './apiTokens';
+import sessionRoutes from './sessions';
 import type { HubWithProjects, ProjectListItem, SyncRunRequest } from '@acc-integration/shared';
 
 const router = Router();
 
-// All API routes require authentication
-router.use(requireAuth);
+// All API routes require a signed-in user; routes that browse ACC as that user also need requireAccAuth
+router.use(requireUser);
+
+// Project-scoped workflow routes
+router.use('/projects/:projectId/rfis', rfiRoutes);
+router.use('/projects/:projectId/submittals', submittalRoutes);
+router.use('/projects/:projectId/manual-responses', manualResponseRoutes);
+router.use('/projects', projectRoutes);
+router.use('/jobs', jobRoutes);
+router.use('/oauth-tokens', oauthTokenRoutes);
+router.use('/api-tokens', apiTokenRoutes);
+router.use('/sessions', sessionRoutes);
 
 /**
  * GET /api/me
- * Returns current user info and token status
+ * Returns the signed-in user and, when connected, their Autodesk token status
  */
 router.get('/me', async (req: Request, res: Response) => {
   try {
-    const userId = req.userId!;
-    
-    const authToken = await prisma.authToken.findUnique({
-      where: { userId },
-      select: {
-        email: true,
-        firstName: true,
-        lastName: true,
-        expiresAt: true,
-        scopes: true,
-        updatedAt: true,
-      },
-    });
-    
-    if (!authToken) {
-      return res.status(404).json({
-        success: false,
-        error: 'User not found',
-        requestId: req.requestId,
-      });
-    }
+    const user = req.user!;
+    const accUserId = req.accUserId;
     
-    // Get fresh profile from Autodesk
-    let profile = null;
-    try {
-      const accessToken = await getValidAccessToken(userId);
-      if (accessToken) {
-        profile = await getUserProfile(accessToken);
-      }
-    } catch (error) {
-      logger.warn({ requestId: req.requestId, error }, 'Failed to fetch profile');
-    }
+    const authToken = accUserId
+      ? await prisma.accOAuthToken.findUnique({
+        where: { userId: accUserId },
+        select: {
+          email: true,
+          expiresAt: true,
+          scopes: true,
+          updatedAt: true,
+        },
+      })
+      : null;
     
     res.json({
       success: true,
       data: {
-        userId,
-        email: profile?.emailId || authToken.email,
-        firstName: profile?.firstName || authToken.firstName,
-        lastName: profile?.lastName || authToken.lastName,
-        tokenExpiresAt: authToken.expiresAt.toISOString(),
-        lastUpdated: authToken.updatedAt.toISOString(),
-        scopes: authToken.scopes.split(','),
+        userId: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        acc: authToken ? {
+          userId: accUserId,
+          email: authToken.email,
+          tokenExpiresAt: authToken.expiresAt.toISOString(),
+          lastUpdated: authToken.updatedAt.toISOString(),
+          scopes: authToken.scopes.split(','),
+        } : null,
       },
       requestId: req.requestId,
     });
@@ -86,10 +93,9 @@ router.get('/me', async (req: Request, res: Response) => {
  * GET /api/projects
  * Lists all hubs and projects accessible to the user
  */
-router.get('/projects', async (req: Request, res: Response) => {
+router.get('/projects', requireAccAuth, async (req: Request, res: Response) => {
   try {
-    const userId = req.userId!;
-    const accessToken = await getValidAccessToken(userId);
+    const accessToken = await getValidAccessToken(req.accUserId!);
     
     if (!accessToken) {
       return res.status(401).json({
@@ -101,6 +107,12 @@ router.get('/projects', async (req: Request, res: Response) => {
     
     const hubsAndProjects = await listHubsAndProjects(accessToken);
     
+    // Internal projects (among those the user can view) linked to each ACC project; /sync/run takes their IDs
+    const links = await prisma.accProjectLink.findMany({
+      where: { projectId: { in: await getViewableProjectIds(req.userId!) } },
+      select: { accProjectId: true, project: { select: { id: true, name: true } } },
+    });
+    
     // Transform to simpler format
     const result: HubWithProjects[] = hubsAndProjects.map(({ hub, projects }) => ({
       id: hub.id,
@@ -114,6 +126,9 @@ router.get('/projects', async (req: Request, res: Response) => {
         region: hub.attributes.region,
         projectType: project.attributes.extension?.data?.projectType || 'unknown',
         webViewUrl: project.links?.webView?.href,
+        linkedProjects: links
+          .filter(link => normalizeAccId(link.accProjectId) === normalizeAccId(project.id))
+          .map(link => link.project),
       })),
     }));
     
@@ -136,12 +151,11 @@ router.get('/projects', async (req: Request, res: Response) => {
  * GET /api/projects/:projectId/folders
  * Lists top folders for a project
  */
-router.get('/projects/:hubId/:projectId/folders', async (req: Request, res: Response) => {
+router.get('/projects/:hubId/:projectId/folders', requireAccAuth, async (req: Request, res: Response) => {
   try {
-    const userId = req.userId!;
     const { hubId, projectId } = req.params;
     
-    const accessToken = await getValidAccessToken(userId);
+    const accessToken = await getValidAccessToken(req.accUserId!);
     
     if (!accessToken) {
       return res.status(401).json({
@@ -174,61 +188,55 @@ router.get('/projects/:hubId/:projectId/folders', async (req: Request, res: Resp
 
 /**
  * POST /api/sync/run
- * Triggers a manual sync for a project
+ * Queues a manual sync for an internal project (Project.id, not an ACC project ID) and returns the job ID to poll
+ * Returns 409 with the existing job (and its running SyncLog) when a sync is already queued or running
  */
-router.post('/sync/run', async (req: Request, res: Response) => {
+router.post('/sync/run', requireProjectPermission('contribute', req => req.body?.projectId), async (req: Request, res: Response) => {
   try {
-    const userId = req.userId!;
     const { projectId, modules = ['rfi', 'submittal'] } = req.body as SyncRunRequest;
     
-    if (!projectId) {
+    // Membership was checked above, so the project exists; without links the job would do nothing
+    const linkCount = await prisma.accProjectLink.count({
+      where: { projectId },
+    });
+    
+    if (linkCount === 0) {
       return res.status(400).json({
         success: false,
-        error: 'projectId is required',
+        error: 'This project has no linked ACC projects to sync',
         requestId: req.requestId,
       });
     }
     
-    const accessToken = await getValidAccessToken(userId);
+    const { job, created } = await queueProjectSync(projectId, 'MANUAL', {
+      modules: modules.map(module => (module === 'rfi' ? 'RFI' : 'SUBMITTAL')),
+      createdById: req.userId,
+    });
     
-    if (!accessToken) {
-      return res.status(401).json({
+    if (!created) {
+      const leases = await getProjectSyncLeases(projectId);
+      
+      return res.status(409).json({
         success: false,
-        error: 'Token expired',
+        error: 'A sync is already queued or running for this project',
+        data: {
+          jobId: job.id,
+          syncLogId: leases.find(lease => lease.syncLogId)?.syncLogId ?? null,
+        },
         requestId: req.requestId,
       });
     }
     
-    const startTime = Date.now();
-    
-    // Run sync for each module
-    const results = await Promise.all(
-      modules.map(module => syncProject(accessToken, projectId, module, 'manual'))
-    );
-    
-    const totalDuration = Date.now() - startTime;
-    
-    res.json({
+    res.status(202).json({
       success: true,
-      data: {
-        projectId,
-        results: results.map(r => ({
-          module: r.module,
-          success: r.success,
-          itemsProcessed: r.itemsProcessed,
-          newItems: r.newItems,
-          errors: r.errors,
-          duration: r.duration,
-        })),
-        totalDuration,
-      },
+      data: { jobId: job.id },
       requestId: req.requestId,
     });
   } catch (error) {
-    logger.error({ requestId: req.requestId, error }, 'Failed to run sync');
+    logger.error({ requestId: req.requestId, error }, 'Failed to queue sync');
     res.status(500).json({
       success: false,
-      error: 'Failed to run sync',
+      error: 'Failed to queue sync',
       requestId: req.requestId,
     });
   }
@@ -238,9 +246,8 @@ router.post('/sync/run', async (req: Request, res: Response) => {
  * POST /api/upload-test
  * Tests file upload to ACC Docs
  */
-router.post('/upload-test', async (req: Request, res: Response) => {
+router.post('/upload-test', requireAccAuth, async (req: Request, res: Response) => {
   try {
-    const userId = req.userId!;
     const { 
       projectId = config.defaultProjectId,
       folderUrn = config.defaultDocsFolderUrn,
@@ -256,7 +263,7 @@ router.post('/upload-test', async (req: Request, res: Response) => {
       });
     }
     
-    const accessToken = await getValidAccessToken(userId);
+    const accessToken = await getValidAccessToken(req.accUserId!);
     
     if (!accessToken) {
       return res.status(401).json({
@@ -301,13 +308,25 @@ router.post('/upload-test', async (req: Request, res: Response) => {
 
 /**
  * GET /api/sync/history
- * Returns sync history for a project
+ * Returns sync history for a project (or every project the user can view), optionally narrowed to one ACC project link
  */
 router.get('/sync/history', async (req: Request, res: Response) => {
   try {
-    const { projectId, limit = '20' } = req.query;
+    const { projectId, accProjectLinkId, limit = '20' } = req.query;
+    
+    if (projectId && !await authorizeProject(req, res, projectId as string, 'view')) {
+      return;
+    }
+    
+    const tokenProjectIds = req.apiToken?.projectIds;
+    const projectIds = projectId
+      ? [projectId as string]
+      : (await getViewableProjectIds(req.userId!)).filter(id => !tokenProjectIds || tokenProjectIds.includes(id));
     
-    const where = projectId ? { projectId: projectId as string } : {};
+    const where = {
+      projectId: { in: projectIds },
+      ...(accProjectLinkId ? { accProjectLinkId: accProjectLinkId as string } : {}),
+    };
     
     const logs = await prisma.syncLog.findMany({
       where,
@@ -320,6 +339,7 @@ router.get('/sync/history', async (req: Request, res: Response) => {
       data: logs.map(log => ({
         id: log.id,
         projectId: log.projectId,
+        accProjectLinkId: log.accProjectLinkId,
         module: log.module,
         status: log.status,
         itemsProcessed: log.itemsProcessed,
@@ -342,4 +362,16 @@ router.get('/sync/history', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/acc/metrics
+ * Returns per-endpoint ACC request counts, retries, throttling and latency since the server started
+ */
+router.get('/acc/metrics', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: getAccRequestMetrics(),
+    requestId: req.requestId,
+  });
+});
+
 export default router;
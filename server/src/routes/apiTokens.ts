@@ -0,0 +1,163 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config';
+import { logger } from '../lib/logger';
+import { requireSession } from '../middleware/auth';
+import { createApiToken, listApiTokens, revokeApiToken } from '../services/apiTokenService';
+import { userCan } from '../services/policyService';
+import { createAuditLog, getAuditContext } from '../services/auditService';
+import type { CreateApiTokenRequest } from '@acc-integration/shared';
+
+// Mounted at /api/api-tokens; tokens can't be used to mint or revoke other tokens
+const router = Router();
+
+router.use(requireSession);
+
+/**
+ * GET /api/api-tokens
+ * Lists the signed-in user's personal API tokens
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const tokens = await listApiTokens(req.userId!);
+    
+    res.json({
+      success: true,
+      data: tokens,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list API tokens');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list API tokens',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/api-tokens
+ * Creates a personal API token; the token value is only returned in this response
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as CreateApiTokenRequest;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const expiresInDays = body.expiresInDays ?? config.apiTokenDefaultDays;
+    
+    if (!name || name.length > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'name is required and must be at most 100 characters',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > config.apiTokenMaxDays) {
+      return res.status(400).json({
+        success: false,
+        error: `expiresInDays must be a whole number between 1 and ${config.apiTokenMaxDays}`,
+        requestId: req.requestId,
+      });
+    }
+    
+    let projectIds: string[] | null = null;
+    
+    if (body.projectIds !== undefined && body.projectIds !== null) {
+      if (!Array.isArray(body.projectIds) || body.projectIds.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'projectIds must be a non-empty array when given',
+          requestId: req.requestId,
+        });
+      }
+      
+      projectIds = [...new Set(body.projectIds)];
+      
+      for (const projectId of projectIds) {
+        if (typeof projectId !== 'string' || !await userCan(req.userId!, projectId, 'view')) {
+          return res.status(400).json({
+            success: false,
+            error: `You are not a member of project ${projectId}`,
+            requestId: req.requestId,
+          });
+        }
+      }
+    }
+    
+    const token = await createApiToken(req.userId!, {
+      name,
+      readOnly: body.readOnly === true,
+      projectIds,
+      expiresInDays,
+    });
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'CREATE',
+      entityType: 'API_TOKEN',
+      entityId: token.id,
+      details: {
+        name: token.name,
+        scopes: token.scopes,
+        projectIds: token.projectIds,
+        expiresAt: token.expiresAt,
+      },
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: token,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to create API token');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API token',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * DELETE /api/api-tokens/:tokenId
+ * Revokes one of the signed-in user's tokens; it stops working immediately
+ */
+router.delete('/:tokenId', async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+    const token = await revokeApiToken(req.userId!, tokenId);
+    
+    if (!token) {
+      return res.status(404).json({
+        success: false,
+        error: 'API token not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'DELETE',
+      entityType: 'API_TOKEN',
+      entityId: tokenId,
+      details: { name: token.name, tokenPrefix: token.tokenPrefix },
+    });
+    
+    res.json({
+      success: true,
+      data: token,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to revoke API token');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API token',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
@@ -9,6 +9,23 @@ import {
   getUserProfile,
   storeTokens,
 } from '../lib/accClient';
+import {
+  createPkcePair,
+  generateNonce,
+  getAuthorizationUrl as getEntraAuthorizationUrl,
+  exchangeCodeForTokens as exchangeEntraCode,
+  verifyIdToken,
+} from '../lib/oidcClient';
+import { rebindTokenLinks } from '../services/accTokenService';
+import { findOrProvisionSsoUser, syncGroupMemberships } from '../services/ssoService';
+import {
+  attemptLocalLogin,
+  requestPasswordReset,
+  resetPassword,
+  findUserForAccProfile,
+  MIN_PASSWORD_LENGTH,
+} from '../services/userService';
+import { createAuditLog, getAuditContext } from '../services/auditService';
 
 const router = Router();
 
@@ -77,7 +94,7 @@ router.get('/callback', async (req: Request, res: Response) => {
       where: { state: state as string },
     });
     
-    if (!storedState || storedState.expiresAt < new Date()) {
+    if (!storedState || storedState.provider !== 'autodesk' || storedState.expiresAt < new Date()) {
       logger.error({ requestId: req.requestId }, 'Invalid or expired state');
       return res.redirect(`${config.webOrigin}/auth/error?error=invalid_state`);
     }
@@ -93,20 +110,65 @@ router.get('/callback', async (req: Request, res: Response) => {
     // Get user profile
     const profile = await getUserProfile(tokens.access_token);
     
+    // Someone already signed in locally links Autodesk to their account, otherwise it must match an existing user
+    const user = req.session.userId
+      ? { id: req.session.userId }
+      : await findUserForAccProfile(profile);
+    
+    if (!user) {
+      logger.warn({ requestId: req.requestId, email: profile.emailId }, 'Autodesk sign-in has no matching account');
+      return res.redirect(`${config.webOrigin}/auth/error?error=account_not_found`);
+    }
+    
     // Store tokens
     await storeTokens(profile.userId, tokens, profile);
     
-    // Set session
-    req.session.userId = profile.userId;
-    
     logger.info({
       requestId: req.requestId,
       userId: profile.userId,
       email: profile.emailId,
     }, 'OAuth callback successful');
     
-    // Redirect to frontend
-    res.redirect(`${config.webOrigin}/auth/success`);
+    let redirectTo = `${config.webOrigin}/auth/success`;
+    
+    // Re-authorization started from the token health page: move the old token's links over
+    const rebindTokenId = req.session.rebindTokenId;
+    if (rebindTokenId) {
+      delete req.session.rebindTokenId;
+      
+      const newToken = await prisma.accOAuthToken.findUniqueOrThrow({
+        where: { userId: profile.userId },
+      });
+      const { rebound, skipped } = await rebindTokenLinks(rebindTokenId, newToken.id, tokens.access_token);
+      
+      await createAuditLog({
+        ...getAuditContext(req),
+        userId: user.id,
+        action: 'UPDATE',
+        entityType: 'ACC_OAUTH_TOKEN',
+        entityId: newToken.id,
+        details: {
+          reauthorizedTokenId: rebindTokenId,
+          reboundLinkIds: rebound,
+          skippedLinkIds: skipped,
+        },
+      });
+      
+      redirectTo = `${config.webOrigin}/admin/tokens?rebound=${rebound.length}&skipped=${skipped.length}`;
+    }
+    
+    // New session ID on sign-in so a pre-login session ID can't be reused
+    req.session.regenerate((err) => {
+      if (err) {
+        logger.error({ requestId: req.requestId, error: err }, 'Failed to regenerate session');
+        return res.redirect(`${config.webOrigin}/auth/error?error=callback_failed`);
+      }
+      
+      req.session.userId = user.id;
+      req.session.accUserId = profile.userId;
+      
+      res.redirect(redirectTo);
+    });
   } catch (error) {
     logger.error({ requestId: req.requestId, error: error instanceof Error ? { message: error.message, stack: error.stack, ...error } : error }, 'OAuth callback failed'); console.error('Full callback error:', JSON.stringify(error, Object.getOwnPropertyNames(error), 2));
     require('fs').appendFileSync('callback-error.log', new Date().toISOString() + ' - ' + JSON.stringify(error, Object.getOwnPropertyNames(error), 2) + '\n\n');
@@ -115,20 +177,171 @@ router.get('/callback', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /auth/logout
- * Clears session and tokens
+ * GET /auth/providers
+ * Lists the sign-in methods the web app should offer
  */
-router.get('/logout', async (req: Request, res: Response) => {
+router.get('/providers', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      local: true,
+      autodesk: true,
+      entra: config.entra.enabled,
+    },
+    requestId: req.requestId,
+  });
+});
+
+/**
+ * GET /auth/entra/login
+ * Starts Entra ID sign-in (authorization code flow with PKCE)
+ */
+router.get('/entra/login', async (req: Request, res: Response) => {
+  if (!config.entra.enabled) {
+    return res.redirect(`${config.webOrigin}/auth/error?error=sso_not_configured`);
+  }
+  
+  try {
+    const state = generateState();
+    const nonce = generateNonce();
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    
+    await prisma.oAuthState.create({
+      data: {
+        state,
+        provider: 'entra',
+        codeVerifier,
+        nonce,
+        expiresAt: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
+      },
+    });
+    
+    const authUrl = await getEntraAuthorizationUrl(state, nonce, codeChallenge);
+    
+    logger.info({ requestId: req.requestId }, 'Redirecting to Entra ID');
+    res.redirect(authUrl);
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to initiate Entra ID sign-in');
+    res.redirect(`${config.webOrigin}/auth/error?error=sso_failed`);
+  }
+});
+
+/**
+ * GET /auth/entra/callback
+ * Verifies the Entra ID sign-in, provisions the user and applies group roles
+ */
+router.get('/entra/callback', async (req: Request, res: Response) => {
+  const { code, state, error, error_description } = req.query;
+  
+  if (error) {
+    logger.error({ requestId: req.requestId, error, error_description }, 'Entra ID sign-in error');
+    return res.redirect(`${config.webOrigin}/auth/error?error=${encodeURIComponent(error as string)}`);
+  }
+  
+  if (!code || !state) {
+    logger.error({ requestId: req.requestId }, 'Missing code or state');
+    return res.redirect(`${config.webOrigin}/auth/error?error=missing_params`);
+  }
+  
+  try {
+    const storedState = await prisma.oAuthState.findUnique({
+      where: { state: state as string },
+    });
+    
+    if (!storedState || storedState.provider !== 'entra' || storedState.expiresAt < new Date()
+      || !storedState.codeVerifier || !storedState.nonce) {
+      logger.error({ requestId: req.requestId }, 'Invalid or expired state');
+      return res.redirect(`${config.webOrigin}/auth/error?error=invalid_state`);
+    }
+    
+    // Single use
+    await prisma.oAuthState.delete({
+      where: { state: state as string },
+    });
+    
+    const tokens = await exchangeEntraCode(code as string, storedState.codeVerifier);
+    const claims = await verifyIdToken(tokens.id_token, storedState.nonce);
+    
+    const result = await findOrProvisionSsoUser(claims);
+    
+    if (result.status !== 'ok') {
+      logger.warn({ requestId: req.requestId, status: result.status }, 'Entra ID sign-in refused');
+      
+      if (result.status !== 'no_email') {
+        await createAuditLog({
+          ...getAuditContext(req),
+          userId: result.userId,
+          action: 'SSO_LOGIN_REFUSED',
+          entityType: 'USER',
+          entityId: result.userId,
+          details: { reason: result.status, externalId: claims.oid || claims.sub },
+        });
+      }
+      
+      const reason = result.status === 'inactive' ? 'account_disabled'
+        : result.status === 'conflict' ? 'account_conflict'
+        : result.status === 'unverified_email' ? 'sso_unverified_email'
+        : 'sso_missing_email';
+      return res.redirect(`${config.webOrigin}/auth/error?error=${reason}`);
+    }
+    
+    const { user, created } = result;
+    const roles = await syncGroupMemberships(user.id, claims);
+    
+    if (created || roles.added.length + roles.updated.length + roles.removed.length > 0) {
+      await createAuditLog({
+        ...getAuditContext(req),
+        userId: user.id,
+        action: created ? 'CREATE' : 'UPDATE',
+        entityType: 'USER',
+        entityId: user.id,
+        details: {
+          ssoProvider: user.ssoProvider,
+          provisioned: created,
+          rolesAdded: roles.added,
+          rolesUpdated: roles.updated,
+          rolesRemoved: roles.removed,
+        },
+      });
+    }
+    
+    // New session ID on sign-in so a pre-login session ID can't be reused
+    req.session.regenerate((err) => {
+      if (err) {
+        logger.error({ requestId: req.requestId, error: err }, 'Failed to regenerate session');
+        return res.redirect(`${config.webOrigin}/auth/error?error=sso_failed`);
+      }
+      
+      req.session.userId = user.id;
+      
+      logger.info({ requestId: req.requestId, userId: user.id, created }, 'Entra ID sign-in successful');
+      res.redirect(`${config.webOrigin}/auth/success`);
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Entra ID callback failed');
+    res.redirect(`${config.webOrigin}/auth/error?error=sso_failed`);
+  }
+});
+
+/**
+ * Ends the session, for both sign-in methods
+ */
+function endSession(req: Request, callback: (err?: unknown) => void) {
   const userId = req.session?.userId;
   
   if (userId) {
-    // Optionally delete tokens from database
-    // await prisma.accOAuthToken.delete({ where: { userId } });
-    
-    logger.info({ requestId: req.requestId, userId }, 'User logged out');
+    logger.info({ requestId: req.requestId, userId, accUserId: req.session.accUserId }, 'User logged out');
   }
   
-  req.session.destroy((err) => {
+  req.session.destroy(callback);
+}
+
+/**
+ * GET /auth/logout
+ * Clears the session and returns to the web app
+ */
+router.get('/logout', (req: Request, res: Response) => {
+  endSession(req, (err) => {
     if (err) {
       logger.error({ requestId: req.requestId, error: err }, 'Failed to destroy session');
     }
@@ -137,53 +350,232 @@ router.get('/logout', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /auth/status
- * Returns current auth status (for frontend polling)
+ * POST /auth/local/login
+ * Signs in with email and password
  */
-router.get('/status', async (req: Request, res: Response) => {
-  const userId = req.session?.userId;
-  
-  if (!userId) {
-    return res.json({
-      success: true,
-      data: { authenticated: false },
+router.post('/local/login', async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body as { email?: string; password?: string };
+    
+    if (!email || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'email and password are required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const result = await attemptLocalLogin(email.trim(), password);
+    
+    if (result.status === 'locked') {
+      return res.status(423).json({
+        success: false,
+        error: `Too many failed attempts. Try again after ${result.lockedUntil.toISOString()} or reset your password.`,
+        requestId: req.requestId,
+      });
+    }
+    
+    if (result.status === 'invalid') {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email or password',
+        requestId: req.requestId,
+      });
+    }
+    
+    // New session ID on sign-in so a pre-login session ID can't be reused
+    req.session.regenerate((err) => {
+      if (err) {
+        logger.error({ requestId: req.requestId, error: err }, 'Failed to regenerate session');
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to sign in',
+          requestId: req.requestId,
+        });
+      }
+      
+      req.session.userId = result.user.id;
+      
+      logger.info({ requestId: req.requestId, userId: result.user.id }, 'Local login successful');
+      
+      res.json({
+        success: true,
+        data: result.user,
+        requestId: req.requestId,
+      });
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Local login failed');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sign in',
       requestId: req.requestId,
     });
   }
-  
-  const authToken = await prisma.accOAuthToken.findUnique({
-    where: { userId },
-    select: {
-      email: true,
-      firstName: true,
-      lastName: true,
-      expiresAt: true,
-      scopes: true,
-    },
+});
+
+/**
+ * POST /auth/local/logout
+ * Clears the session
+ */
+router.post('/local/logout', (req: Request, res: Response) => {
+  endSession(req, (err) => {
+    if (err) {
+      logger.error({ requestId: req.requestId, error: err }, 'Failed to destroy session');
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to sign out',
+        requestId: req.requestId,
+      });
+    }
+    res.json({
+      success: true,
+      data: { loggedOut: true },
+      requestId: req.requestId,
+    });
   });
-  
-  if (!authToken) {
-    return res.json({
+});
+
+/**
+ * POST /auth/password/forgot
+ * Emails a one-time reset link; responds the same whether or not the account exists
+ */
+router.post('/password/forgot', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body as { email?: string };
+    
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'email is required',
+        requestId: req.requestId,
+      });
+    }
+    
+    await requestPasswordReset(email.trim());
+    
+    res.status(202).json({
       success: true,
-      data: { authenticated: false },
+      data: { message: 'If an account exists for that email, a reset link has been sent.' },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to request password reset');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to request password reset',
       requestId: req.requestId,
     });
   }
-  
-  res.json({
-    success: true,
-    data: {
-      authenticated: true,
-      userId,
-      email: authToken.email,
-      name: `${authToken.firstName || ''} ${authToken.lastName || ''}`.trim(),
-      expiresAt: authToken.expiresAt.toISOString(),
-      scopes: authToken.scopes.split(','),
-    },
-    requestId: req.requestId,
-  });
 });
 
-export default router;
+/**
+ * POST /auth/password/reset
+ * Sets a new password with a reset token (which also clears any lockout)
+ */
+router.post('/password/reset', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body as { token?: string; password?: string };
+    
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'token and password are required',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        requestId: req.requestId,
+      });
+    }
+    
+    const reset = await resetPassword(token, password);
+    
+    if (!reset) {
+      return res.status(400).json({
+        success: false,
+        error: 'This reset link is invalid or has expired',
+        requestId: req.requestId,
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: { reset: true },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to reset password');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reset password',
+      requestId: req.requestId,
+    });
+  }
+});
 
+/**
+ * GET /auth/status
+ * Returns current auth status (for frontend polling)
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId;
+    const accUserId = req.session?.accUserId;
+    
+    const user = userId
+      ? await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, firstName: true, lastName: true, isActive: true },
+      })
+      : null;
+    
+    if (!user || !user.isActive) {
+      return res.json({
+        success: true,
+        data: { authenticated: false },
+        requestId: req.requestId,
+      });
+    }
+    
+    const authToken = accUserId
+      ? await prisma.accOAuthToken.findUnique({
+        where: { userId: accUserId },
+        select: {
+          expiresAt: true,
+          scopes: true,
+          revokedAt: true,
+        },
+      })
+      : null;
+    
+    const accConnected = !!authToken && !authToken.revokedAt;
+    
+    res.json({
+      success: true,
+      data: {
+        authenticated: true,
+        userId: user.id,
+        email: user.email,
+        name: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+        accConnected,
+        expiresAt: accConnected ? authToken.expiresAt.toISOString() : undefined,
+        scopes: accConnected ? authToken.scopes.split(',') : undefined,
+      },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to get auth status');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get auth status',
+      requestId: req.requestId,
+    });
+  }
+});
 
+export default router;
@@ -0,0 +1,51 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../lib/logger';
+import { getJobById, formatJob } from '../services/jobService';
+import { resolveProjectAccess } from '../middleware/auth';
+import { can } from '../services/policyService';
+
+// Mounted at /api/jobs
+const router = Router();
+
+/**
+ * GET /api/jobs/:jobId
+ * Returns the status of a background job (visible to its creator and members of its project)
+ */
+router.get('/:jobId', async (req: Request, res: Response) => {
+  try {
+    const job = await getJobById(req.params.jobId);
+    
+    // A token limited to some projects can't see jobs outside them, even ones its owner started
+    const outsideToken = req.apiToken?.projectIds
+      && !(job?.projectId && req.apiToken.projectIds.includes(job.projectId));
+    
+    // Reported as not found rather than forbidden so job IDs can't be probed
+    const canView = job && !outsideToken && (
+      job.createdById === req.userId
+      || (job.projectId && can((await resolveProjectAccess(req, job.projectId)).membership, 'view'))
+    );
+    
+    if (!job || !canView) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: formatJob(job),
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to get job');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get job',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,228 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { requireProjectPermission } from '../middleware/auth';
+import {
+  getManualResponseQueue,
+  confirmManualRfiResponse,
+  confirmManualSubmittalResponse,
+  rejectManualRfiResponse,
+  rejectManualSubmittalResponse,
+} from '../services/responseService';
+import type { RejectManualResponseRequest } from '@acc-integration/shared';
+
+// Mounted at /api/projects/:projectId/manual-responses
+const router = Router({ mergeParams: true });
+
+type ItemType = 'rfis' | 'submittals';
+
+/**
+ * Checks the item belongs to the project and has a manual response awaiting review
+ */
+async function findPendingItem(itemType: ItemType, projectId: string, itemId: string) {
+  const select = {
+    projectId: true,
+    isDeleted: true,
+    hasManualResponse: true,
+    manualResponseConfirmedAt: true,
+  };
+  
+  const item = itemType === 'rfis'
+    ? await prisma.rfi.findUnique({ where: { id: itemId }, select })
+    : await prisma.submittal.findUnique({ where: { id: itemId }, select });
+  
+  if (!item || item.projectId !== projectId || item.isDeleted) {
+    return null;
+  }
+  
+  return item;
+}
+
+/**
+ * Shared guard for confirm/reject: project scoping and pending state
+ */
+async function checkReconcileRequest(req: Request, res: Response, itemType: ItemType, itemId: string) {
+  const { projectId } = req.params;
+  const label = itemType === 'rfis' ? 'RFI' : 'Submittal';
+  
+  const item = await findPendingItem(itemType, projectId, itemId);
+  
+  if (!item) {
+    res.status(404).json({
+      success: false,
+      error: `${label} not found`,
+      requestId: req.requestId,
+    });
+    return false;
+  }
+  
+  if (!item.hasManualResponse || item.manualResponseConfirmedAt) {
+    res.status(409).json({
+      success: false,
+      error: `${label} has no manual response awaiting review`,
+      requestId: req.requestId,
+    });
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * GET /api/projects/:projectId/manual-responses
+ * Lists unconfirmed responses posted directly in ACC, with our internal draft alongside
+ */
+router.get('/', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const queue = await getManualResponseQueue(req.params.projectId);
+    
+    res.json({
+      success: true,
+      data: queue,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list manual responses');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list manual responses',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/manual-responses/rfis/:rfiId/confirm
+ * Accepts the ACC response as official and closes the RFI
+ */
+router.post('/rfis/:rfiId/confirm', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  try {
+    const { rfiId } = req.params;
+    
+    if (!(await checkReconcileRequest(req, res, 'rfis', rfiId))) {
+      return;
+    }
+    
+    const updated = await confirmManualRfiResponse(rfiId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to confirm manual RFI response');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm manual response',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/manual-responses/rfis/:rfiId/reject
+ * Rejects the ACC response and reopens the RFI for review
+ */
+router.post('/rfis/:rfiId/reject', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  try {
+    const { rfiId } = req.params;
+    const { reason } = req.body as RejectManualResponseRequest;
+    
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required to reject a manual response',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (!(await checkReconcileRequest(req, res, 'rfis', rfiId))) {
+      return;
+    }
+    
+    const updated = await rejectManualRfiResponse(rfiId, req.userId!, reason.trim());
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to reject manual RFI response');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject manual response',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/manual-responses/submittals/:submittalId/confirm
+ * Accepts the ACC response as official and closes the Submittal
+ */
+router.post('/submittals/:submittalId/confirm', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  try {
+    const { submittalId } = req.params;
+    
+    if (!(await checkReconcileRequest(req, res, 'submittals', submittalId))) {
+      return;
+    }
+    
+    const updated = await confirmManualSubmittalResponse(submittalId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to confirm manual Submittal response');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm manual response',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/manual-responses/submittals/:submittalId/reject
+ * Rejects the ACC response and reopens the Submittal for review
+ */
+router.post('/submittals/:submittalId/reject', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  try {
+    const { submittalId } = req.params;
+    const { reason } = req.body as RejectManualResponseRequest;
+    
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'A reason is required to reject a manual response',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (!(await checkReconcileRequest(req, res, 'submittals', submittalId))) {
+      return;
+    }
+    
+    const updated = await rejectManualSubmittalResponse(submittalId, req.userId!, reason.trim());
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to reject manual Submittal response');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject manual response',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
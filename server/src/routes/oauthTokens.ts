@@ -0,0 +1,151 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../lib/logger';
+import { denyAccess, requireSession } from '../middleware/auth';
+import {
+  isAnyProjectAdmin,
+  listTokenHealth,
+  getManageableToken,
+  revokeStoredToken,
+} from '../services/accTokenService';
+import { createAuditLog, getAuditContext } from '../services/auditService';
+import type { ReauthorizeTokenResponse } from '@acc-integration/shared';
+
+// Mounted at /api/oauth-tokens
+const router = Router();
+
+router.use(requireSession);
+
+/**
+ * GET /api/oauth-tokens
+ * Lists the ACC OAuth tokens the user owns or that serve projects they administer, with their health and dependent links
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    if (!await isAnyProjectAdmin(req.userId!)) {
+      return denyAccess(req, res, {
+        permission: 'listOAuthTokens',
+        message: 'Project admin access required',
+        entityType: 'ACC_OAUTH_TOKEN',
+      });
+    }
+    
+    const tokens = await listTokenHealth({ userId: req.userId!, accUserId: req.accUserId });
+    
+    res.json({
+      success: true,
+      data: tokens,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list OAuth tokens');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list OAuth tokens',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/oauth-tokens/:tokenId/reauthorize
+ * Starts a new Autodesk sign-in whose token will replace this one on all of its links
+ */
+router.post('/:tokenId/reauthorize', async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+    const token = await getManageableToken({ userId: req.userId!, accUserId: req.accUserId }, tokenId);
+    
+    if (!token) {
+      return res.status(404).json({
+        success: false,
+        error: 'OAuth token not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (token === 'forbidden') {
+      return denyAccess(req, res, {
+        permission: 'manageOAuthToken',
+        message: 'You must own this token or administer every project linked to it',
+        entityType: 'ACC_OAUTH_TOKEN',
+        entityId: tokenId,
+      });
+    }
+    
+    // Picked up by /auth/callback once the user has signed in
+    req.session.rebindTokenId = tokenId;
+    
+    const data: ReauthorizeTokenResponse = { loginUrl: '/auth/login' };
+    
+    res.json({
+      success: true,
+      data,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to start re-authorization');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start re-authorization',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * DELETE /api/oauth-tokens/:tokenId
+ * Revokes a token at Autodesk and deletes the stored copy
+ */
+router.delete('/:tokenId', async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+    const token = await getManageableToken({ userId: req.userId!, accUserId: req.accUserId }, tokenId);
+    
+    if (!token) {
+      return res.status(404).json({
+        success: false,
+        error: 'OAuth token not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (token === 'forbidden') {
+      return denyAccess(req, res, {
+        permission: 'manageOAuthToken',
+        message: 'You must own this token or administer every project linked to it',
+        entityType: 'ACC_OAUTH_TOKEN',
+        entityId: tokenId,
+      });
+    }
+    
+    const result = await revokeStoredToken(tokenId);
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'DELETE',
+      entityType: 'ACC_OAUTH_TOKEN',
+      entityId: tokenId,
+      details: {
+        email: token.email,
+        accUserId: token.userId,
+        linkedProjectLinkIds: token.projectLinks.map(link => link.id),
+        ...result,
+      },
+    });
+    
+    res.json({
+      success: true,
+      data: result,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to revoke OAuth token');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke OAuth token',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,788 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { getValidAccessToken, listHubsAndProjects, normalizeAccId } from '../lib/accClient';
+import { requireProjectPermission, resolveProjectAccess, denyAccess } from '../middleware/auth';
+import {
+  createProject,
+  getProjectById,
+  updateProject,
+  parseProjectSettings,
+  getProjectMembers,
+  addProjectMember,
+  updateProjectMember,
+  removeProjectMember,
+  listAccProjectLinks,
+  getAccProjectLink,
+  addAccProjectLink,
+  updateAccProjectLink,
+  removeAccProjectLink,
+  type CreateProjectDto,
+  type UpdateProjectDto,
+  type AddProjectMemberDto,
+} from '../services/projectService';
+import { PROJECT_ROLES, getProjectMembership } from '../services/userService';
+import { isAppAdmin, canChangeMembership } from '../services/policyService';
+import { getNetworkPathError, getFolderNameError } from '../services/fileService';
+import { canLinkToken } from '../services/accTokenService';
+import { createAuditLog, getAuditContext } from '../services/auditService';
+import { parseTimeOfDay, syncOnProjectOpen } from '../services/syncScheduler';
+import type { AddAccProjectLinkRequest } from '@acc-integration/shared';
+
+// Mounted at /api/projects (internal projects, not ACC projects)
+const router = Router();
+
+/**
+ * Counts PROJECT_ADMIN members, used to stop a project losing its last admin
+ */
+async function countProjectAdmins(projectId: string): Promise<number> {
+  return prisma.projectMembership.count({
+    where: { projectId, role: 'PROJECT_ADMIN' },
+  });
+}
+
+/**
+ * Refuses a membership change the caller may not make (see canChangeMembership)
+ */
+function denyMembershipChange(req: Request, res: Response, entityId?: string) {
+  return denyAccess(req, res, {
+    permission: 'manageProjectMember',
+    message: 'Only project admins can change admin memberships or grant permissions they do not hold',
+    entityType: 'PROJECT_MEMBER',
+    entityId,
+  });
+}
+
+/**
+ * POST /api/projects
+ * Creates an internal project (application administrators only); the creator becomes its PROJECT_ADMIN
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const body = req.body as CreateProjectDto;
+    
+    // A token limited to certain projects couldn't reach the project it creates
+    if (req.apiToken?.projectIds) {
+      return denyAccess(req, res, {
+        permission: 'createProject',
+        message: 'This API token is limited to specific projects and cannot create new ones',
+        entityType: 'API_TOKEN',
+        entityId: req.apiToken.id,
+      });
+    }
+    
+    if (!isAppAdmin(req.user!.email)) {
+      return denyAccess(req, res, {
+        permission: 'createProject',
+        message: 'Only application administrators can create projects',
+        entityType: 'PROJECT',
+      });
+    }
+    
+    if (!body.name || body.name.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'name is required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const pathError = body.networkBasePath ? getNetworkPathError(body.networkBasePath) : null;
+    if (pathError) {
+      return res.status(400).json({
+        success: false,
+        error: pathError,
+        requestId: req.requestId,
+      });
+    }
+    
+    const project = await createProject({
+      name: body.name.trim(),
+      description: body.description,
+      networkBasePath: body.networkBasePath,
+    }, req.userId!);
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'CREATE',
+      entityType: 'PROJECT',
+      entityId: project.id,
+      details: { name: project.name, networkBasePath: project.networkBasePath },
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: project,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to create project');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create project',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId
+ * Returns project settings, ACC links and members
+ * Opening a project starts a background sync when the project has syncOnOpen enabled
+ */
+router.get('/:projectId', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const project = await getProjectById(req.params.projectId);
+    
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    syncOnProjectOpen(project.id)
+      .catch(error => logger.error({ requestId: req.requestId, error }, 'Failed to trigger project-open sync'));
+    
+    res.json({
+      success: true,
+      data: parseProjectSettings(project),
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to get project');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get project',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId
+ * Updates project settings
+ */
+router.patch('/:projectId', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const body = req.body as UpdateProjectDto;
+    
+    if (body.syncIntervalMinutes !== undefined && (!Number.isInteger(body.syncIntervalMinutes) || body.syncIntervalMinutes < 1)) {
+      return res.status(400).json({
+        success: false,
+        error: 'syncIntervalMinutes must be a positive integer',
+        requestId: req.requestId,
+      });
+    }
+    
+    const pathError = body.networkBasePath ? getNetworkPathError(body.networkBasePath) : null;
+    if (pathError) {
+      return res.status(400).json({
+        success: false,
+        error: pathError,
+        requestId: req.requestId,
+      });
+    }
+    
+    for (const field of ['syncQuietHoursStart', 'syncQuietHoursEnd'] as const) {
+      const value = body[field];
+      if (value !== undefined && value !== null && (typeof value !== 'string' || parseTimeOfDay(value) === null)) {
+        return res.status(400).json({
+          success: false,
+          error: `${field} must be a time of day in HH:MM format`,
+          requestId: req.requestId,
+        });
+      }
+    }
+    
+    const before = await prisma.project.findUnique({ where: { id: projectId } });
+    
+    if (!before) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const updated = await updateProject(projectId, body);
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'UPDATE',
+      entityType: 'PROJECT',
+      entityId: projectId,
+      details: {
+        changes: Object.keys(body),
+        before: parseProjectSettings(before),
+        after: parseProjectSettings(updated),
+      },
+    });
+    
+    res.json({
+      success: true,
+      data: parseProjectSettings(updated),
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to update project');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update project',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/members
+ * Lists project members with roles and permissions
+ */
+router.get('/:projectId/members', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const members = await getProjectMembers(req.params.projectId);
+    
+    res.json({
+      success: true,
+      data: members,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list project members');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list project members',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/members
+ * Adds a user to the project
+ */
+router.post('/:projectId/members', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const body = req.body as AddProjectMemberDto;
+    
+    if (!body.userId || !PROJECT_ROLES.includes(body.role)) {
+      return res.status(400).json({
+        success: false,
+        error: `userId and role (${PROJECT_ROLES.join(', ')}) are required`,
+        requestId: req.requestId,
+      });
+    }
+    
+    const { membership: actor } = await resolveProjectAccess(req, projectId);
+    const isAdminRole = body.role === 'PROJECT_ADMIN';
+    const granted = {
+      role: body.role,
+      canAssign: body.canAssign ?? isAdminRole,
+      canSendToAcc: body.canSendToAcc ?? isAdminRole,
+      canEditSettings: body.canEditSettings ?? isAdminRole,
+    };
+    
+    if (!canChangeMembership(actor, null, granted)) {
+      return denyMembershipChange(req, res);
+    }
+    
+    const user = await prisma.user.findUnique({ where: { id: body.userId } });
+    
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const existing = await getProjectMembership(body.userId, projectId);
+    
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already a member of this project',
+        requestId: req.requestId,
+      });
+    }
+    
+    const membership = await addProjectMember(projectId, body);
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'CREATE',
+      entityType: 'PROJECT_MEMBER',
+      entityId: membership.id,
+      details: {
+        projectId,
+        memberUserId: body.userId,
+        role: membership.role,
+        canAssign: membership.canAssign,
+        canSendToAcc: membership.canSendToAcc,
+        canEditSettings: membership.canEditSettings,
+      },
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: membership,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to add project member');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add project member',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/members/:userId
+ * Updates a member's role or permissions
+ */
+router.patch('/:projectId/members/:userId', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, userId } = req.params;
+    const body = req.body as Partial<AddProjectMemberDto>;
+    
+    if (body.role !== undefined && !PROJECT_ROLES.includes(body.role)) {
+      return res.status(400).json({
+        success: false,
+        error: `role must be one of ${PROJECT_ROLES.join(', ')}`,
+        requestId: req.requestId,
+      });
+    }
+    
+    const before = await getProjectMembership(userId, projectId);
+    
+    if (!before) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project member not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const { membership: actor } = await resolveProjectAccess(req, projectId);
+    const after = {
+      role: body.role ?? before.role,
+      canAssign: body.canAssign ?? before.canAssign,
+      canSendToAcc: body.canSendToAcc ?? before.canSendToAcc,
+      canEditSettings: body.canEditSettings ?? before.canEditSettings,
+    };
+    
+    if (!canChangeMembership(actor, before, after)) {
+      return denyMembershipChange(req, res, before.id);
+    }
+    
+    if (before.role === 'PROJECT_ADMIN' && body.role && body.role !== 'PROJECT_ADMIN' && await countProjectAdmins(projectId) <= 1) {
+      return res.status(409).json({
+        success: false,
+        error: 'A project must keep at least one PROJECT_ADMIN',
+        requestId: req.requestId,
+      });
+    }
+    
+    const updated = await updateProjectMember(projectId, userId, {
+      role: body.role,
+      canAssign: body.canAssign,
+      canSendToAcc: body.canSendToAcc,
+      canEditSettings: body.canEditSettings,
+    });
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'UPDATE',
+      entityType: 'PROJECT_MEMBER',
+      entityId: updated.id,
+      details: {
+        projectId,
+        memberUserId: userId,
+        before: {
+          role: before.role,
+          canAssign: before.canAssign,
+          canSendToAcc: before.canSendToAcc,
+          canEditSettings: before.canEditSettings,
+        },
+        after: {
+          role: updated.role,
+          canAssign: updated.canAssign,
+          canSendToAcc: updated.canSendToAcc,
+          canEditSettings: updated.canEditSettings,
+        },
+      },
+    });
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to update project member');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update project member',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/members/:userId
+ * Removes a member from the project
+ */
+router.delete('/:projectId/members/:userId', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, userId } = req.params;
+    
+    const membership = await getProjectMembership(userId, projectId);
+    
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project member not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const { membership: actor } = await resolveProjectAccess(req, projectId);
+    
+    if (!canChangeMembership(actor, membership, null)) {
+      return denyMembershipChange(req, res, membership.id);
+    }
+    
+    if (membership.role === 'PROJECT_ADMIN' && await countProjectAdmins(projectId) <= 1) {
+      return res.status(409).json({
+        success: false,
+        error: 'A project must keep at least one PROJECT_ADMIN',
+        requestId: req.requestId,
+      });
+    }
+    
+    await removeProjectMember(projectId, userId);
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'DELETE',
+      entityType: 'PROJECT_MEMBER',
+      entityId: membership.id,
+      details: { projectId, memberUserId: userId, role: membership.role },
+    });
+    
+    res.json({
+      success: true,
+      data: { removed: true },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to remove project member');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove project member',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/acc-links
+ * Lists ACC projects linked to this project
+ */
+router.get('/:projectId/acc-links', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const links = await listAccProjectLinks(req.params.projectId);
+    
+    res.json({
+      success: true,
+      data: links,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list ACC project links');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list ACC project links',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/acc-links
+ * Links an ACC project, verifying the caller may use the chosen OAuth token and that it can see the project
+ */
+router.post('/:projectId/acc-links', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const body = req.body as AddAccProjectLinkRequest;
+    
+    if (!body.accProjectId || !body.accHubId || !body.folderName || !body.oauthTokenId) {
+      return res.status(400).json({
+        success: false,
+        error: 'accProjectId, accHubId, folderName and oauthTokenId are required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const folderError = getFolderNameError(body.folderName);
+    if (folderError) {
+      return res.status(400).json({
+        success: false,
+        error: folderError,
+        requestId: req.requestId,
+      });
+    }
+    
+    const oauthToken = await prisma.accOAuthToken.findUnique({
+      where: { id: body.oauthTokenId },
+    });
+    
+    if (!oauthToken) {
+      return res.status(404).json({
+        success: false,
+        error: 'OAuth token not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    // Otherwise anyone administering a project could sync with someone else's Autodesk grant
+    if (!await canLinkToken({ userId: req.userId!, accUserId: req.accUserId }, oauthToken.id)) {
+      return denyAccess(req, res, {
+        permission: 'linkOAuthToken',
+        message: 'You can only link your own Autodesk authorization, or one already used by a project you administer',
+        entityType: 'ACC_OAUTH_TOKEN',
+        entityId: oauthToken.id,
+      });
+    }
+    
+    const accessToken = await getValidAccessToken(oauthToken.userId);
+    
+    if (!accessToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'OAuth token has expired and could not be refreshed. Re-authorize and try again.',
+        requestId: req.requestId,
+      });
+    }
+    
+    // Confirm the token's owner can actually see the ACC project
+    const hubsAndProjects = await listHubsAndProjects(accessToken);
+    const hub = hubsAndProjects.find(h => normalizeAccId(h.hub.id) === normalizeAccId(body.accHubId));
+    const accProject = hub?.projects.find(p => normalizeAccId(p.id) === normalizeAccId(body.accProjectId));
+    
+    if (!accProject) {
+      return res.status(400).json({
+        success: false,
+        error: 'The selected OAuth token does not have access to that ACC project',
+        requestId: req.requestId,
+      });
+    }
+    
+    const link = await addAccProjectLink(
+      projectId,
+      body.accProjectId,
+      body.accHubId,
+      body.accProjectName || accProject.attributes.name,
+      body.folderName,
+      body.oauthTokenId,
+      body.syncRfis ?? true,
+      body.syncSubmittals ?? true
+    );
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'CREATE',
+      entityType: 'ACC_PROJECT_LINK',
+      entityId: link.id,
+      details: {
+        projectId,
+        accProjectId: link.accProjectId,
+        accHubId: link.accHubId,
+        accProjectName: link.accProjectName,
+        folderName: link.folderName,
+        oauthTokenId: link.oauthTokenId,
+      },
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: {
+        id: link.id,
+        projectId: link.projectId,
+        accProjectId: link.accProjectId,
+        accHubId: link.accHubId,
+        accProjectName: link.accProjectName,
+        folderName: link.folderName,
+        oauthTokenId: link.oauthTokenId,
+        syncRfis: link.syncRfis,
+        syncSubmittals: link.syncSubmittals,
+        linkedAt: link.linkedAt.toISOString(),
+      },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'ACC project link already exists') {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        requestId: req.requestId,
+      });
+    }
+    
+    logger.error({ requestId: req.requestId, error }, 'Failed to add ACC project link');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add ACC project link',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/acc-links/:linkId
+ * Updates folder name, display name or module sync toggles
+ */
+router.patch('/:projectId/acc-links/:linkId', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, linkId } = req.params;
+    const { folderName, syncRfis, syncSubmittals, accProjectName } = req.body;
+    
+    const folderError = folderName !== undefined ? getFolderNameError(String(folderName)) : null;
+    if (folderError) {
+      return res.status(400).json({
+        success: false,
+        error: folderError,
+        requestId: req.requestId,
+      });
+    }
+    
+    const before = await getAccProjectLink(linkId);
+    
+    if (!before || before.projectId !== projectId) {
+      return res.status(404).json({
+        success: false,
+        error: 'ACC project link not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const updated = await updateAccProjectLink(linkId, {
+      folderName,
+      syncRfis,
+      syncSubmittals,
+      accProjectName,
+    });
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'UPDATE',
+      entityType: 'ACC_PROJECT_LINK',
+      entityId: linkId,
+      details: {
+        projectId,
+        before: {
+          folderName: before.folderName,
+          syncRfis: before.syncRfis,
+          syncSubmittals: before.syncSubmittals,
+          accProjectName: before.accProjectName,
+        },
+        after: {
+          folderName: updated.folderName,
+          syncRfis: updated.syncRfis,
+          syncSubmittals: updated.syncSubmittals,
+          accProjectName: updated.accProjectName,
+        },
+      },
+    });
+    
+    res.json({
+      success: true,
+      data: {
+        id: updated.id,
+        projectId: updated.projectId,
+        accProjectId: updated.accProjectId,
+        accHubId: updated.accHubId,
+        accProjectName: updated.accProjectName,
+        folderName: updated.folderName,
+        oauthTokenId: updated.oauthTokenId,
+        syncRfis: updated.syncRfis,
+        syncSubmittals: updated.syncSubmittals,
+        linkedAt: updated.linkedAt.toISOString(),
+      },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to update ACC project link');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update ACC project link',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/acc-links/:linkId
+ * Removes an ACC project link (only when no RFIs/Submittals reference it)
+ */
+router.delete('/:projectId/acc-links/:linkId', requireProjectPermission('canEditSettings'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, linkId } = req.params;
+    
+    const link = await getAccProjectLink(linkId);
+    
+    if (!link || link.projectId !== projectId) {
+      return res.status(404).json({
+        success: false,
+        error: 'ACC project link not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const itemCount = link._count.rfis + link._count.submittals;
+    
+    if (itemCount > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Cannot remove ACC project link: ${link._count.rfis} RFIs and ${link._count.submittals} Submittals are linked to it`,
+        requestId: req.requestId,
+      });
+    }
+    
+    await removeAccProjectLink(linkId);
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'DELETE',
+      entityType: 'ACC_PROJECT_LINK',
+      entityId: linkId,
+      details: {
+        projectId,
+        accProjectId: link.accProjectId,
+        accProjectName: link.accProjectName,
+        folderName: link.folderName,
+      },
+    });
+    
+    res.json({
+      success: true,
+      data: { removed: true },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to remove ACC project link');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove ACC project link',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,466 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { requireProjectPermission, authorizeProject } from '../middleware/auth';
+import { requireStringQuery } from '../middleware/validation';
+import {
+  listRfis,
+  getRfiById,
+  updateRfi,
+  assignRfi,
+  markAssignmentRead,
+  acknowledgeAccChanges,
+  addComment,
+  getUserRfis,
+} from '../services/rfiService';
+import { userCan, getStatusChangePermission } from '../services/policyService';
+import { isValidStatusTransition, SEND_ONLY_STATUSES } from '../services/workflowService';
+import { previewRfiResponse } from '../services/responseService';
+import { enqueueJob } from '../services/jobService';
+import type {
+  UpdateItemRequest,
+  AssignItemRequest,
+  AddCommentRequest,
+  SendResponseRequest,
+} from '@acc-integration/shared';
+
+// Mounted at /api/projects/:projectId/rfis
+const router = Router({ mergeParams: true });
+
+/**
+ * Loads an RFI and verifies it belongs to the project in the URL
+ */
+async function findProjectRfi(projectId: string, rfiId: string) {
+  const rfi = await prisma.rfi.findUnique({
+    where: { id: rfiId },
+    select: { id: true, projectId: true, internalStatus: true, isDeleted: true },
+  });
+  
+  if (!rfi || rfi.projectId !== projectId || rfi.isDeleted) {
+    return null;
+  }
+  
+  return rfi;
+}
+
+/**
+ * GET /api/projects/:projectId/rfis
+ * Lists RFIs with optional filters
+ */
+router.get('/', requireProjectPermission('view'), requireStringQuery('status', 'priority', 'assignedTo', 'showClosed', 'search'), async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { status, priority, assignedTo, showClosed, search } = req.query;
+    
+    const rfis = await listRfis({
+      projectId,
+      status: status as string | undefined,
+      priority: priority as string | undefined,
+      assignedToUserId: assignedTo as string | undefined,
+      showClosed: showClosed === 'true',
+      search: search as string | undefined,
+    });
+    
+    res.json({
+      success: true,
+      data: rfis,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list RFIs');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list RFIs',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/rfis/mine
+ * Lists open RFIs assigned to the current user
+ */
+router.get('/mine', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const rfis = await getUserRfis(req.params.projectId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: rfis,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list user RFIs');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list user RFIs',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/rfis/:rfiId
+ * Returns full RFI details and marks the user's assignment as read
+ */
+router.get('/:rfiId', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, rfiId } = req.params;
+    
+    const rfi = await getRfiById(rfiId);
+    
+    if (!rfi || rfi.projectId !== projectId || rfi.isDeleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    await markAssignmentRead(rfiId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: rfi,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to get RFI');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get RFI',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/rfis/:rfiId
+ * Updates internal status, draft response and deadlines
+ */
+router.patch('/:rfiId', requireProjectPermission('contribute'), async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { projectId, rfiId } = req.params;
+    const body = req.body as UpdateItemRequest;
+    
+    const rfi = await findProjectRfi(projectId, rfiId);
+    
+    if (!rfi) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (body.internalStatus && body.internalStatus !== rfi.internalStatus) {
+      if (SEND_ONLY_STATUSES.includes(body.internalStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `${body.internalStatus} is set by sending the response to ACC`,
+          requestId: req.requestId,
+        });
+      }
+      
+      if (!isValidStatusTransition(rfi.internalStatus, body.internalStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `Cannot change status from ${rfi.internalStatus} to ${body.internalStatus}`,
+          requestId: req.requestId,
+        });
+      }
+      
+      if (!await authorizeProject(req, res, projectId, getStatusChangePermission(body.internalStatus))) {
+        return;
+      }
+    }
+    
+    const updated = await updateRfi(rfiId, userId, {
+      internalStatus: body.internalStatus,
+      responseStatus: body.responseStatus,
+      responseText: body.responseText,
+      reviewDeadline: body.reviewDeadline ? new Date(body.reviewDeadline) : undefined,
+      qcDeadline: body.qcDeadline ? new Date(body.qcDeadline) : undefined,
+    });
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to update RFI');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update RFI',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/rfis/:rfiId/assign
+ * Assigns a reviewer or QC reviewer (requires canAssign)
+ */
+router.post('/:rfiId/assign', requireProjectPermission('canAssign'), async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { projectId, rfiId } = req.params;
+    const { userId: assigneeId, role } = req.body as AssignItemRequest;
+    
+    if (!assigneeId || !role || !['REVIEWER', 'QC_REVIEWER'].includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: 'userId and role (REVIEWER or QC_REVIEWER) are required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const rfi = await findProjectRfi(projectId, rfiId);
+    
+    if (!rfi) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const assigneeIsMember = await userCan(assigneeId, projectId, 'contribute');
+    
+    if (!assigneeIsMember) {
+      return res.status(400).json({
+        success: false,
+        error: 'Assignee must be a reviewer on this project',
+        requestId: req.requestId,
+      });
+    }
+    
+    const existing = await prisma.rfiAssignment.findUnique({
+      where: {
+        rfiId_userId_role: { rfiId, userId: assigneeId, role },
+      },
+    });
+    
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already assigned to this RFI in that role',
+        requestId: req.requestId,
+      });
+    }
+    
+    const assignment = await assignRfi(rfiId, assigneeId, role, userId);
+    
+    res.status(201).json({
+      success: true,
+      data: assignment,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to assign RFI');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to assign RFI',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/rfis/:rfiId/acknowledge
+ * Clears the "changed in ACC" flag
+ */
+router.post('/:rfiId/acknowledge', requireProjectPermission('contribute'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, rfiId } = req.params;
+    
+    const rfi = await findProjectRfi(projectId, rfiId);
+    
+    if (!rfi) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const updated = await acknowledgeAccChanges(rfiId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to acknowledge RFI changes');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to acknowledge RFI changes',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/rfis/:rfiId/comments
+ * Adds a comment (or reply) to an RFI
+ */
+router.post('/:rfiId/comments', requireProjectPermission('contribute'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, rfiId } = req.params;
+    const { text, parentId } = req.body as AddCommentRequest;
+    
+    if (!text || text.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Comment text is required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const rfi = await findProjectRfi(projectId, rfiId);
+    
+    if (!rfi) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (parentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: parentId },
+        select: { rfiId: true },
+      });
+      
+      if (!parent || parent.rfiId !== rfiId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Parent comment not found on this RFI',
+          requestId: req.requestId,
+        });
+      }
+    }
+    
+    const comment = await addComment(rfiId, req.userId!, text.trim(), parentId);
+    
+    res.status(201).json({
+      success: true,
+      data: comment,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to add RFI comment');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add comment',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/rfis/:rfiId/response/preview
+ * Shows exactly what would be sent to ACC without sending anything
+ */
+router.post('/:rfiId/response/preview', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, rfiId } = req.params;
+    const body = req.body as SendResponseRequest;
+    
+    const rfi = await findProjectRfi(projectId, rfiId);
+    
+    if (!rfi) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const preview = await previewRfiResponse(rfiId, {
+      responseStatus: body.responseStatus,
+      responseText: body.responseText,
+      selectedFilePaths: Array.isArray(body.selectedFilePaths) ? body.selectedFilePaths : [],
+    });
+    
+    res.json({
+      success: true,
+      data: preview,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to preview RFI response');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview response',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/rfis/:rfiId/response
+ * Queues the official response to ACC (status, comment and attachments) and returns the job ID
+ * Validation runs up front so problems still come back as 400s
+ */
+router.post('/:rfiId/response', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  const { projectId, rfiId } = req.params;
+  const body = req.body as SendResponseRequest;
+  
+  try {
+    const rfi = await findProjectRfi(projectId, rfiId);
+    
+    if (!rfi) {
+      return res.status(404).json({
+        success: false,
+        error: 'RFI not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const data = {
+      responseStatus: body.responseStatus,
+      responseText: body.responseText,
+      selectedFilePaths: Array.isArray(body.selectedFilePaths) ? body.selectedFilePaths : [],
+    };
+    
+    // Run the pre-flight checks first so validation problems come back as 400s
+    const preview = await previewRfiResponse(rfiId, data);
+    
+    if (!preview.canSend) {
+      return res.status(400).json({
+        success: false,
+        error: preview.errors.join('; '),
+        data: preview,
+        requestId: req.requestId,
+      });
+    }
+    
+    // ACC sends aren't idempotent (a retry could post the official response twice), so they run once;
+    // a failed send is left dead for the user to check ACC and send again
+    const job = await enqueueJob(
+      'SEND_RFI_RESPONSE',
+      { rfiId, userId: req.userId!, ...data },
+      { projectId, createdById: req.userId, maxAttempts: 1 }
+    );
+    
+    res.status(202).json({
+      success: true,
+      data: { jobId: job.id, preview },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, rfiId, error }, 'Failed to queue RFI response to ACC');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to queue response to ACC',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
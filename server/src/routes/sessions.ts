@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../lib/logger';
+import { requireSession } from '../middleware/auth';
+import { listUserSessions, revokeUserSession } from '../services/sessionService';
+import { createAuditLog, getAuditContext } from '../services/auditService';
+
+// Mounted at /api/sessions
+const router = Router();
+
+router.use(requireSession);
+
+/**
+ * GET /api/sessions
+ * Lists the signed-in user's active sessions (device, IP, last seen)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const sessions = await listUserSessions(req.userId!, req.sessionID);
+    
+    res.json({
+      success: true,
+      data: sessions,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list sessions');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list sessions',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:sessionId
+ * Signs one of the user's sessions out; revoking the current session signs this browser out
+ */
+router.delete('/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await revokeUserSession(req.userId!, sessionId, req.sessionID);
+    
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    await createAuditLog({
+      ...getAuditContext(req),
+      action: 'DELETE',
+      entityType: 'SESSION',
+      entityId: sessionId,
+      details: { device: session.device, ipAddress: session.ipAddress, current: session.current },
+    });
+    
+    // Otherwise express-session would save it again at the end of this request
+    if (session.current) {
+      req.session.destroy(() => {});
+    }
+    
+    res.json({
+      success: true,
+      data: session,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to revoke session');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
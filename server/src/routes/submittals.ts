@@ -0,0 +1,401 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { requireProjectPermission, authorizeProject } from '../middleware/auth';
+import { requireStringQuery } from '../middleware/validation';
+import {
+  listSubmittals,
+  getSubmittalById,
+  updateSubmittal,
+  assignSubmittal,
+  acknowledgeAccChanges,
+  getUserSubmittals,
+} from '../services/submittalService';
+import { userCan, getStatusChangePermission } from '../services/policyService';
+import { isValidStatusTransition, SEND_ONLY_STATUSES } from '../services/workflowService';
+import { previewSubmittalResponse } from '../services/responseService';
+import { enqueueJob } from '../services/jobService';
+import type { UpdateItemRequest, AssignItemRequest, SendResponseRequest } from '@acc-integration/shared';
+
+// Mounted at /api/projects/:projectId/submittals
+const router = Router({ mergeParams: true });
+
+/**
+ * Loads a Submittal and verifies it belongs to the project in the URL
+ */
+async function findProjectSubmittal(projectId: string, submittalId: string) {
+  const submittal = await prisma.submittal.findUnique({
+    where: { id: submittalId },
+    select: { id: true, projectId: true, internalStatus: true, isDeleted: true },
+  });
+  
+  if (!submittal || submittal.projectId !== projectId || submittal.isDeleted) {
+    return null;
+  }
+  
+  return submittal;
+}
+
+/**
+ * GET /api/projects/:projectId/submittals
+ * Lists Submittals with optional filters
+ * specSection matches by prefix (e.g. ?specSection=03 for all concrete sections)
+ */
+router.get('/', requireProjectPermission('view'), requireStringQuery('status', 'priority', 'assignedTo', 'showClosed', 'search', 'specSection', 'packageNumber'), async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { status, priority, assignedTo, showClosed, search, specSection, packageNumber } = req.query;
+    
+    const submittals = await listSubmittals({
+      projectId,
+      status: status as string | undefined,
+      priority: priority as string | undefined,
+      assignedToUserId: assignedTo as string | undefined,
+      showClosed: showClosed === 'true',
+      search: search as string | undefined,
+      specSection: specSection as string | undefined,
+      packageNumber: packageNumber as string | undefined,
+    });
+    
+    res.json({
+      success: true,
+      data: submittals,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list Submittals');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list Submittals',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/submittals/mine
+ * Lists open Submittals assigned to the current user
+ */
+router.get('/mine', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const submittals = await getUserSubmittals(req.params.projectId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: submittals,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to list user Submittals');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list user Submittals',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/submittals/:submittalId
+ * Returns full Submittal details
+ */
+router.get('/:submittalId', requireProjectPermission('view'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, submittalId } = req.params;
+    
+    const submittal = await getSubmittalById(submittalId);
+    
+    if (!submittal || submittal.projectId !== projectId || submittal.isDeleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submittal not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: submittal,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to get Submittal');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get Submittal',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/submittals/:submittalId
+ * Updates internal status, draft response and deadlines
+ */
+router.patch('/:submittalId', requireProjectPermission('contribute'), async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { projectId, submittalId } = req.params;
+    const body = req.body as UpdateItemRequest;
+    
+    const submittal = await findProjectSubmittal(projectId, submittalId);
+    
+    if (!submittal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submittal not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    if (body.internalStatus && body.internalStatus !== submittal.internalStatus) {
+      if (SEND_ONLY_STATUSES.includes(body.internalStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `${body.internalStatus} is set by sending the response to ACC`,
+          requestId: req.requestId,
+        });
+      }
+      
+      if (!isValidStatusTransition(submittal.internalStatus, body.internalStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `Cannot change status from ${submittal.internalStatus} to ${body.internalStatus}`,
+          requestId: req.requestId,
+        });
+      }
+      
+      if (!await authorizeProject(req, res, projectId, getStatusChangePermission(body.internalStatus))) {
+        return;
+      }
+    }
+    
+    const updated = await updateSubmittal(submittalId, userId, {
+      internalStatus: body.internalStatus,
+      responseStatus: body.responseStatus,
+      responseText: body.responseText,
+      reviewDeadline: body.reviewDeadline ? new Date(body.reviewDeadline) : undefined,
+      qcDeadline: body.qcDeadline ? new Date(body.qcDeadline) : undefined,
+    });
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to update Submittal');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update Submittal',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/submittals/:submittalId/assign
+ * Assigns a reviewer or QC reviewer (requires canAssign)
+ */
+router.post('/:submittalId/assign', requireProjectPermission('canAssign'), async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { projectId, submittalId } = req.params;
+    const { userId: assigneeId, role } = req.body as AssignItemRequest;
+    
+    if (!assigneeId || !role || !['REVIEWER', 'QC_REVIEWER'].includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: 'userId and role (REVIEWER or QC_REVIEWER) are required',
+        requestId: req.requestId,
+      });
+    }
+    
+    const submittal = await findProjectSubmittal(projectId, submittalId);
+    
+    if (!submittal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submittal not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const assigneeIsMember = await userCan(assigneeId, projectId, 'contribute');
+    
+    if (!assigneeIsMember) {
+      return res.status(400).json({
+        success: false,
+        error: 'Assignee must be a reviewer on this project',
+        requestId: req.requestId,
+      });
+    }
+    
+    const existing = await prisma.submittalAssignment.findUnique({
+      where: {
+        submittalId_userId_role: { submittalId, userId: assigneeId, role },
+      },
+    });
+    
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already assigned to this Submittal in that role',
+        requestId: req.requestId,
+      });
+    }
+    
+    const assignment = await assignSubmittal(submittalId, assigneeId, role, userId);
+    
+    res.status(201).json({
+      success: true,
+      data: assignment,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to assign Submittal');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to assign Submittal',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/submittals/:submittalId/acknowledge
+ * Clears the "changed in ACC" flag
+ */
+router.post('/:submittalId/acknowledge', requireProjectPermission('contribute'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, submittalId } = req.params;
+    
+    const submittal = await findProjectSubmittal(projectId, submittalId);
+    
+    if (!submittal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submittal not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const updated = await acknowledgeAccChanges(submittalId, req.userId!);
+    
+    res.json({
+      success: true,
+      data: updated,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to acknowledge Submittal changes');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to acknowledge Submittal changes',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/submittals/:submittalId/response/preview
+ * Shows exactly what would be sent to ACC without sending anything
+ */
+router.post('/:submittalId/response/preview', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  try {
+    const { projectId, submittalId } = req.params;
+    const body = req.body as SendResponseRequest;
+    
+    const submittal = await findProjectSubmittal(projectId, submittalId);
+    
+    if (!submittal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submittal not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const preview = await previewSubmittalResponse(submittalId, {
+      responseStatus: body.responseStatus,
+      responseText: body.responseText,
+      selectedFilePaths: Array.isArray(body.selectedFilePaths) ? body.selectedFilePaths : [],
+    });
+    
+    res.json({
+      success: true,
+      data: preview,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, error }, 'Failed to preview Submittal response');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview response',
+      requestId: req.requestId,
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/submittals/:submittalId/response
+ * Queues the official response to ACC (status, comment and attachments) and returns the job ID
+ * Validation runs up front so problems still come back as 400s
+ */
+router.post('/:submittalId/response', requireProjectPermission('canSendToAcc'), async (req: Request, res: Response) => {
+  const { projectId, submittalId } = req.params;
+  const body = req.body as SendResponseRequest;
+  
+  try {
+    const submittal = await findProjectSubmittal(projectId, submittalId);
+    
+    if (!submittal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submittal not found',
+        requestId: req.requestId,
+      });
+    }
+    
+    const data = {
+      responseStatus: body.responseStatus,
+      responseText: body.responseText,
+      selectedFilePaths: Array.isArray(body.selectedFilePaths) ? body.selectedFilePaths : [],
+    };
+    
+    // Run the pre-flight checks first so validation problems come back as 400s
+    const preview = await previewSubmittalResponse(submittalId, data);
+    
+    if (!preview.canSend) {
+      return res.status(400).json({
+        success: false,
+        error: preview.errors.join('; '),
+        data: preview,
+        requestId: req.requestId,
+      });
+    }
+    
+    // ACC sends aren't idempotent (a retry could post the official response twice), so they run once;
+    // a failed send is left dead for the user to check ACC and send again
+    const job = await enqueueJob(
+      'SEND_SUBMITTAL_RESPONSE',
+      { submittalId, userId: req.userId!, ...data },
+      { projectId, createdById: req.userId, maxAttempts: 1 }
+    );
+    
+    res.status(202).json({
+      success: true,
+      data: { jobId: job.id, preview },
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.error({ requestId: req.requestId, submittalId, error }, 'Failed to queue Submittal response to ACC');
+    res.status(500).json({
+      success: false,
+      error: 'Failed to queue response to ACC',
+      requestId: req.requestId,
+    });
+  }
+});
+
+export default router;
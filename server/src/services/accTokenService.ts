@@ -0,0 +1,400 @@
+/**
+ * ACC Token Service
+ * Resolves which credentials background work uses for each ACC project link
+ */
+
+import type { AccOAuthToken, AccProjectLink } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+import { config } from '../config';
+import { decrypt } from '../lib/crypto';
+import * as accClient from '../lib/accClient';
+import { createNotification } from './notificationService';
+import type { OAuthTokenHealth, OAuthTokenState } from '@acc-integration/shared';
+
+const log = createChildLogger({ module: 'accTokenService' });
+
+// Tokens expiring within this window are refreshed ahead of time by the background job
+const PROACTIVE_REFRESH_WINDOW_MS = 20 * 60 * 1000;
+
+export interface LinkAccessToken {
+  accessToken: string;
+  source: 'user' | 'app';
+}
+
+/**
+ * Gets an access token for a link using the admin token it was linked with
+ * Falls back to the app's 2-legged token (when configured) if that admin's authorization was revoked
+ */
+export async function resolveLinkAccessToken(
+  link: AccProjectLink & { oauthToken: AccOAuthToken }
+): Promise<LinkAccessToken> {
+  const accessToken = await accClient.getValidAccessToken(link.oauthToken.userId);
+  
+  if (accessToken) {
+    return { accessToken, source: 'user' };
+  }
+  
+  const oauthToken = await prisma.accOAuthToken.findUnique({
+    where: { id: link.oauthTokenId },
+  });
+  
+  if (oauthToken?.revokedAt) {
+    await notifyRelinkRequired(oauthToken);
+    
+    if (config.autodesk.appTokenFallback) {
+      log.warn({ accProjectLinkId: link.id, oauthTokenId: link.oauthTokenId }, 'User token revoked, syncing with app token');
+      return { accessToken: await accClient.getAppAccessToken(), source: 'app' };
+    }
+  }
+  
+  throw new Error(`ACC authorization for ${link.oauthToken.email || link.oauthToken.userId} has expired. Please re-authorize.`);
+}
+
+/**
+ * Finds the internal users to tell about a revoked token: the user with the token's email,
+ * otherwise the admins of every project the token is linked to
+ */
+async function findRelinkRecipients(oauthToken: AccOAuthToken): Promise<string[]> {
+  if (oauthToken.email) {
+    const owner = await prisma.user.findFirst({
+      where: { email: oauthToken.email, isActive: true },
+      select: { id: true },
+    });
+    
+    if (owner) {
+      return [owner.id];
+    }
+  }
+  
+  const admins = await prisma.projectMembership.findMany({
+    where: {
+      role: 'PROJECT_ADMIN',
+      project: { accProjectLinks: { some: { oauthTokenId: oauthToken.id } } },
+      user: { isActive: true },
+    },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+  
+  return admins.map(admin => admin.userId);
+}
+
+/**
+ * Asks the owning admin to re-link once per revocation
+ */
+async function notifyRelinkRequired(oauthToken: AccOAuthToken): Promise<void> {
+  // Claim the notification so concurrent syncs don't each send one
+  const claimed = await prisma.accOAuthToken.updateMany({
+    where: { id: oauthToken.id, revokedAt: { not: null }, relinkNotifiedAt: null },
+    data: { relinkNotifiedAt: new Date() },
+  });
+  
+  if (claimed.count === 0) {
+    return;
+  }
+  
+  const links = await prisma.accProjectLink.findMany({
+    where: { oauthTokenId: oauthToken.id },
+    select: { id: true, projectId: true, accProjectName: true },
+  });
+  
+  const recipients = await findRelinkRecipients(oauthToken);
+  const account = oauthToken.email || oauthToken.userId;
+  
+  for (const userId of recipients) {
+    await createNotification({
+      userId,
+      type: 'ACC_RELINK',
+      title: 'ACC authorization revoked',
+      message: `The ACC authorization for ${account} is no longer valid. Sign in with Autodesk again to restore sync for ${links.map(link => link.accProjectName).join(', ') || 'its linked projects'}.`,
+      metadata: {
+        oauthTokenId: oauthToken.id,
+        accProjectLinkIds: links.map(link => link.id),
+        appTokenFallback: config.autodesk.appTokenFallback,
+      },
+    });
+  }
+  
+  log.warn({ oauthTokenId: oauthToken.id, recipients: recipients.length }, 'Sent ACC re-link notifications');
+}
+
+/**
+ * Refreshes linked tokens that are about to expire so background syncs never start on a stale token
+ */
+export async function refreshExpiringTokens(): Promise<{ refreshed: number; failed: number }> {
+  const tokens = await prisma.accOAuthToken.findMany({
+    where: {
+      revokedAt: null,
+      expiresAt: { lt: new Date(Date.now() + PROACTIVE_REFRESH_WINDOW_MS) },
+      projectLinks: { some: {} },
+    },
+  });
+  
+  let refreshed = 0;
+  let failed = 0;
+  
+  for (const token of tokens) {
+    if (await accClient.refreshTokensForUser(token.userId)) {
+      refreshed++;
+      continue;
+    }
+    
+    failed++;
+    
+    const current = await prisma.accOAuthToken.findUnique({ where: { id: token.id } });
+    if (current?.revokedAt) {
+      await notifyRelinkRequired(current);
+    }
+  }
+  
+  if (tokens.length > 0) {
+    log.info({ refreshed, failed }, 'Refreshed expiring ACC tokens');
+  }
+  
+  return { refreshed, failed };
+}
+
+/**
+ * Whether a user administers at least one project, which is what the token health page requires
+ */
+export async function isAnyProjectAdmin(userId: string): Promise<boolean> {
+  const count = await prisma.projectMembership.count({
+    where: { userId, role: 'PROJECT_ADMIN' },
+  });
+  
+  return count > 0;
+}
+
+export interface TokenViewer {
+  userId: string; // Internal User.id
+  accUserId?: string; // Autodesk identity of the viewer's session, if connected
+}
+
+/**
+ * A token can be managed by the user it belongs to, or by someone who administers every project linked to it
+ */
+async function canManageToken(viewer: TokenViewer, token: AccOAuthToken & { projectLinks: { projectId: string }[] }): Promise<boolean> {
+  if (viewer.accUserId && token.userId === viewer.accUserId) {
+    return true;
+  }
+  
+  const projectIds = [...new Set(token.projectLinks.map(link => link.projectId))];
+  
+  if (projectIds.length === 0) {
+    return false;
+  }
+  
+  const adminOf = await prisma.projectMembership.count({
+    where: { userId: viewer.userId, role: 'PROJECT_ADMIN', projectId: { in: projectIds } },
+  });
+  
+  return adminOf === projectIds.length;
+}
+
+/**
+ * Whether a user may link a stored token to another project: it must be their own Autodesk grant,
+ * or one already linked to a project they administer
+ */
+export async function canLinkToken(viewer: TokenViewer, tokenId: string): Promise<boolean> {
+  const token = await prisma.accOAuthToken.findUnique({
+    where: { id: tokenId },
+    include: { projectLinks: { select: { projectId: true } } },
+  });
+  
+  if (!token) {
+    return false;
+  }
+  
+  if (viewer.accUserId && token.userId === viewer.accUserId) {
+    return true;
+  }
+  
+  const adminOf = await prisma.projectMembership.count({
+    where: {
+      userId: viewer.userId,
+      role: 'PROJECT_ADMIN',
+      projectId: { in: token.projectLinks.map(link => link.projectId) },
+    },
+  });
+  
+  return adminOf > 0;
+}
+
+function getTokenState(token: AccOAuthToken): OAuthTokenState {
+  if (token.revokedAt) {
+    return 'revoked';
+  }
+  
+  if (token.lastRefreshError) {
+    return 'refresh_failing';
+  }
+  
+  return token.expiresAt < new Date() ? 'expired' : 'active';
+}
+
+/**
+ * Lists the tokens a user can see with the links that depend on them: their own Autodesk grant
+ * and tokens linked to projects they administer. Links to other projects are only listed on
+ * tokens the user can manage
+ */
+export async function listTokenHealth(viewer: TokenViewer): Promise<OAuthTokenHealth[]> {
+  const adminMemberships = await prisma.projectMembership.findMany({
+    where: { userId: viewer.userId, role: 'PROJECT_ADMIN' },
+    select: { projectId: true },
+  });
+  const adminProjectIds = new Set(adminMemberships.map(membership => membership.projectId));
+  
+  const tokens = await prisma.accOAuthToken.findMany({
+    where: {
+      OR: [
+        ...(viewer.accUserId ? [{ userId: viewer.accUserId }] : []),
+        { projectLinks: { some: { projectId: { in: [...adminProjectIds] } } } },
+      ],
+    },
+    include: {
+      projectLinks: {
+        include: {
+          project: { select: { name: true } },
+        },
+        orderBy: { linkedAt: 'asc' },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  
+  const health: OAuthTokenHealth[] = [];
+  
+  for (const token of tokens) {
+    const canManage = await canManageToken(viewer, token);
+    const links = canManage
+      ? token.projectLinks
+      : token.projectLinks.filter(link => adminProjectIds.has(link.projectId));
+    
+    health.push({
+      id: token.id,
+      userId: token.userId,
+      email: token.email,
+      name: `${token.firstName || ''} ${token.lastName || ''}`.trim(),
+      state: getTokenState(token),
+      expiresAt: token.expiresAt.toISOString(),
+      lastRefreshedAt: token.lastRefreshedAt?.toISOString() ?? null,
+      lastRefreshError: token.lastRefreshError,
+      revokedAt: token.revokedAt?.toISOString() ?? null,
+      scopes: token.scopes ? token.scopes.split(',') : [],
+      createdAt: token.createdAt.toISOString(),
+      links: links.map(link => ({
+        id: link.id,
+        projectId: link.projectId,
+        projectName: link.project.name,
+        accProjectName: link.accProjectName,
+        lastSyncStatus: link.lastSyncStatus,
+      })),
+      canManage,
+    });
+  }
+  
+  return health;
+}
+
+/**
+ * Gets a token with its links if the user may re-authorize or revoke it
+ * Returns null when the token doesn't exist, 'forbidden' when the user can't manage it
+ */
+export async function getManageableToken(viewer: TokenViewer, tokenId: string) {
+  const token = await prisma.accOAuthToken.findUnique({
+    where: { id: tokenId },
+    include: { projectLinks: true },
+  });
+  
+  if (!token) {
+    return null;
+  }
+  
+  return await canManageToken(viewer, token) ? token : 'forbidden' as const;
+}
+
+/**
+ * Moves the links of a re-authorized token onto the token that was just issued
+ * Links whose ACC project the new account can't see stay where they are
+ */
+export async function rebindTokenLinks(fromTokenId: string, toTokenId: string, accessToken: string) {
+  const links = await prisma.accProjectLink.findMany({
+    where: { oauthTokenId: fromTokenId },
+  });
+  
+  if (fromTokenId === toTokenId || links.length === 0) {
+    return { rebound: links.map(link => link.id), skipped: [] as string[] };
+  }
+  
+  const hubsAndProjects = await accClient.listHubsAndProjects(accessToken);
+  const visibleProjectIds = new Set(
+    hubsAndProjects.flatMap(({ projects }) => projects.map(project => accClient.normalizeAccId(project.id)))
+  );
+  
+  const rebound: string[] = [];
+  const skipped: string[] = [];
+  
+  for (const link of links) {
+    if (!visibleProjectIds.has(accClient.normalizeAccId(link.accProjectId))) {
+      skipped.push(link.id);
+      continue;
+    }
+    
+    await prisma.accProjectLink.update({
+      where: { id: link.id },
+      data: { oauthTokenId: toTokenId },
+    });
+    rebound.push(link.id);
+  }
+  
+  log.info({ fromTokenId, toTokenId, rebound: rebound.length, skipped: skipped.length }, 'Rebound ACC project links');
+  
+  return { rebound, skipped };
+}
+
+/**
+ * Revokes a token at Autodesk and deletes it; if links still depend on it, only the encrypted
+ * secrets are removed so the links show as needing re-authorization
+ */
+export async function revokeStoredToken(tokenId: string): Promise<{ deleted: boolean; revokedAtAps: boolean }> {
+  const token = await prisma.accOAuthToken.findUniqueOrThrow({
+    where: { id: tokenId },
+    include: { _count: { select: { projectLinks: true } } },
+  });
+  
+  let revokedAtAps = true;
+  
+  try {
+    if (token.refreshToken) {
+      await accClient.revokeToken(decrypt(token.refreshToken), 'refresh_token');
+    }
+    if (token.accessToken) {
+      await accClient.revokeToken(decrypt(token.accessToken), 'access_token');
+    }
+  } catch (error) {
+    // Removing our copy still matters if Autodesk is unreachable or already forgot the token
+    revokedAtAps = false;
+    log.warn({ tokenId, error }, 'Failed to revoke token at Autodesk');
+  }
+  
+  if (token._count.projectLinks === 0) {
+    await prisma.accOAuthToken.delete({ where: { id: tokenId } });
+    return { deleted: true, revokedAtAps };
+  }
+  
+  await prisma.accOAuthToken.update({
+    where: { id: tokenId },
+    data: {
+      accessToken: '',
+      refreshToken: '',
+      expiresAt: new Date(),
+      revokedAt: new Date(),
+      lastRefreshError: null,
+      // Whoever revoked it already knows; don't send a re-link notification as well
+      relinkNotifiedAt: new Date(),
+    },
+  });
+  
+  return { deleted: false, revokedAtAps };
+}
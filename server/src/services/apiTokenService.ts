@@ -0,0 +1,152 @@
+/**
+ * API Token Service
+ * Personal access tokens that let scripts call the API as their owner
+ */
+
+import crypto from 'crypto';
+import type { ApiToken } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createChildLogger } from '../lib/logger';
+import { hashData } from '../lib/crypto';
+import type { ApiTokenInfo, ApiTokenScope, CreatedApiToken } from '@acc-integration/shared';
+
+const log = createChildLogger({ module: 'apiTokenService' });
+
+// Recognizable in logs and by secret scanners
+export const API_TOKEN_PREFIX = 'accpat_';
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export interface CreateApiTokenDto {
+  name: string;
+  readOnly: boolean;
+  projectIds: string[] | null;
+  expiresInDays: number;
+}
+
+// What the auth middleware attaches to requests made with a token
+export interface ApiTokenContext {
+  id: string;
+  scopes: ApiTokenScope[];
+  projectIds: string[] | null;
+}
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+export function formatApiToken(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: splitList(token.scopes) as ApiTokenScope[],
+    projectIds: token.projectIds === null ? null : splitList(token.projectIds),
+    expiresAt: token.expiresAt.toISOString(),
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: token.lastUsedIp,
+    revokedAt: token.revokedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Creates a token; the plain value is returned here and never again
+ */
+export async function createApiToken(userId: string, data: CreateApiTokenDto): Promise<CreatedApiToken> {
+  const plain = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  
+  const token = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: data.name,
+      tokenHash: hashData(plain),
+      tokenPrefix: plain.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: data.readOnly ? 'read' : 'read,write',
+      projectIds: data.projectIds ? data.projectIds.join(',') : null,
+      expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+    },
+  });
+  
+  log.info({ userId, apiTokenId: token.id, readOnly: data.readOnly }, 'API token created');
+  
+  return { ...formatApiToken(token), token: plain };
+}
+
+/**
+ * Lists a user's tokens, newest first (revoked and expired ones included, for reference)
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+  const tokens = await prisma.apiToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  
+  return tokens.map(formatApiToken);
+}
+
+/**
+ * Revokes one of a user's tokens; returns null if the user has no such token
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<ApiTokenInfo | null> {
+  const token = await prisma.apiToken.findFirst({
+    where: { id: tokenId, userId },
+  });
+  
+  if (!token) {
+    return null;
+  }
+  
+  if (token.revokedAt) {
+    return formatApiToken(token);
+  }
+  
+  const revoked = await prisma.apiToken.update({
+    where: { id: tokenId },
+    data: { revokedAt: new Date() },
+  });
+  
+  log.info({ userId, apiTokenId: tokenId }, 'API token revoked');
+  return formatApiToken(revoked);
+}
+
+/**
+ * Looks up the token presented in a request
+ * Returns null for unknown, revoked or expired tokens and for tokens whose owner was deactivated
+ */
+export async function authenticateApiToken(plain: string) {
+  if (!plain.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+  
+  const token = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashData(plain) },
+    include: {
+      user: {
+        select: { id: true, email: true, firstName: true, lastName: true, isActive: true },
+      },
+    },
+  });
+  
+  if (!token || token.revokedAt || token.expiresAt < new Date() || !token.user.isActive) {
+    return null;
+  }
+  
+  const context: ApiTokenContext = {
+    id: token.id,
+    scopes: splitList(token.scopes) as ApiTokenScope[],
+    projectIds: token.projectIds === null ? null : splitList(token.projectIds),
+  };
+  
+  return { token: context, user: token.user };
+}
+
+/**
+ * Records when and where a token was last used
+ */
+export async function touchApiToken(tokenId: string, ipAddress: string | undefined): Promise<void> {
+  await prisma.apiToken.update({
+    where: { id: tokenId },
+    data: { lastUsedAt: new Date(), lastUsedIp: ipAddress ?? null },
+  });
+}
+
@@ -0,0 +1,160 @@
+/**
+ * Attachment Service
+ * Mirrors ACC attachments into the project's network folder during sync
+ */
+
+import path from 'path';
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+import * as accClient from '../lib/accClient';
+import { saveFileToItemFolder, sanitizeFilename, fileExists, deleteFile } from './fileService';
+import type { ACCAttachment } from '@acc-integration/shared';
+
+const log = createChildLogger({ module: 'attachmentService' });
+
+export interface AttachmentSyncTarget {
+  itemType: 'RFI' | 'SUBMITTAL';
+  itemId: string;
+  itemNumber: string;
+  networkBasePath: string | null;
+  folderName: string;
+  accProjectId: string;
+}
+
+export interface AttachmentSyncResult {
+  downloaded: number;
+  skipped: number;
+  errors: string[];
+}
+
+/**
+ * Picks a file name that doesn't collide with a different ACC attachment on the same item
+ */
+async function resolveFileName(
+  target: AttachmentSyncTarget,
+  attachment: ACCAttachment
+): Promise<string> {
+  const fileName = sanitizeFilename(attachment.name);
+  
+  const clash = await prisma.attachment.findFirst({
+    where: {
+      rfiId: target.itemType === 'RFI' ? target.itemId : undefined,
+      submittalId: target.itemType === 'SUBMITTAL' ? target.itemId : undefined,
+      fileName,
+      accAttachmentId: { not: attachment.id },
+    },
+  });
+  
+  if (!clash) {
+    return fileName;
+  }
+  
+  const ext = path.extname(fileName);
+  return `${path.basename(fileName, ext)}_${attachment.id.slice(0, 8)}${ext}`;
+}
+
+/**
+ * Downloads new or changed ACC attachments for one item and records them as ACC_ORIGINAL
+ * Files whose version URN hasn't changed (and are still on disk) are skipped
+ */
+export async function syncItemAttachments(
+  target: AttachmentSyncTarget,
+  attachments: ACCAttachment[],
+  accessToken: string
+): Promise<AttachmentSyncResult> {
+  const result: AttachmentSyncResult = { downloaded: 0, skipped: 0, errors: [] };
+  
+  if (attachments.length === 0) {
+    return result;
+  }
+  
+  if (!target.networkBasePath) {
+    log.warn({ itemId: target.itemId }, 'No network path configured, skipping attachment download');
+    result.skipped = attachments.length;
+    return result;
+  }
+  
+  for (const attachment of attachments) {
+    try {
+      const existing = await prisma.attachment.findFirst({
+        where: {
+          rfiId: target.itemType === 'RFI' ? target.itemId : undefined,
+          submittalId: target.itemType === 'SUBMITTAL' ? target.itemId : undefined,
+          source: 'ACC_ORIGINAL',
+          accAttachmentId: attachment.id,
+        },
+      });
+      
+      const versionUrn = attachment.versionUrn || attachment.urn;
+      
+      if (
+        existing
+        && existing.accVersionUrn === versionUrn
+        && existing.filesystemPath
+        && await fileExists(existing.filesystemPath)
+      ) {
+        result.skipped++;
+        continue;
+      }
+      
+      const buffer = await accClient.downloadAttachment(accessToken, {
+        id: attachment.id,
+        urn: attachment.urn,
+        projectId: target.accProjectId,
+        module: target.itemType === 'RFI' ? 'rfi' : 'submittal',
+        fileName: attachment.name,
+      });
+      
+      const fileName = existing?.fileName ?? await resolveFileName(target, attachment);
+      const filesystemPath = await saveFileToItemFolder(
+        target.networkBasePath,
+        target.folderName,
+        target.itemType,
+        target.itemNumber,
+        fileName,
+        buffer
+      );
+      
+      if (existing) {
+        if (existing.filesystemPath && existing.filesystemPath !== filesystemPath) {
+          await deleteFile(existing.filesystemPath);
+        }
+        
+        await prisma.attachment.update({
+          where: { id: existing.id },
+          data: {
+            fileName,
+            fileSize: buffer.length,
+            mimeType: attachment.mimeType,
+            accVersionUrn: versionUrn,
+            filesystemPath,
+          },
+        });
+      } else {
+        await prisma.attachment.create({
+          data: {
+            rfiId: target.itemType === 'RFI' ? target.itemId : null,
+            submittalId: target.itemType === 'SUBMITTAL' ? target.itemId : null,
+            fileName,
+            fileSize: buffer.length,
+            mimeType: attachment.mimeType,
+            source: 'ACC_ORIGINAL',
+            accAttachmentId: attachment.id,
+            accVersionUrn: versionUrn,
+            filesystemPath,
+          },
+        });
+      }
+      
+      result.downloaded++;
+    } catch (error) {
+      const errorMessage = `Attachment ${attachment.name}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push(errorMessage);
+      log.error({ itemId: target.itemId, attachmentId: attachment.id, error }, 'Failed to sync attachment');
+    }
+  }
+  
+  log.info({ itemId: target.itemId, ...result }, 'Item attachments synced');
+  
+  return result;
+}
@@ -0,0 +1,56 @@
+/**
+ * Audit Service
+ * Records significant user actions in the AuditLog table
+ */
+
+import type { Request } from 'express';
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+
+const log = createChildLogger({ module: 'auditService' });
+
+export interface CreateAuditLogDto {
+  userId?: string;
+  userEmail?: string;
+  action: string;
+  entityType: string;
+  entityId?: string;
+  rfiId?: string;
+  submittalId?: string;
+  details?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Create an audit log entry
+ */
+export async function createAuditLog(data: CreateAuditLogDto) {
+  log.debug({ userId: data.userId, action: data.action, entityType: data.entityType }, 'Writing audit log');
+  
+  return prisma.auditLog.create({
+    data: {
+      userId: data.userId,
+      userEmail: data.userEmail,
+      action: data.action,
+      entityType: data.entityType,
+      entityId: data.entityId,
+      rfiId: data.rfiId,
+      submittalId: data.submittalId,
+      details: data.details ? JSON.stringify(data.details) : null,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+    },
+  });
+}
+
+/**
+ * Extract actor and request context for an audit entry
+ */
+export function getAuditContext(req: Request) {
+  return {
+    userId: req.userId,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+}
@@ -0,0 +1,365 @@
+/**
+ * Export Service
+ * Renders the combined export PDF (cover sheet + merged PDF attachments) for an RFI or Submittal
+ */
+
+import path from 'path';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+import {
+  saveFileToItemFolder,
+  generateExportFilename,
+  readFile,
+  fileExists,
+} from './fileService';
+
+const log = createChildLogger({ module: 'exportService' });
+
+type ExportItemType = 'RFI' | 'SUBMITTAL';
+
+export interface ExportResult {
+  regenerated: boolean;
+  filesystemPath: string | null;
+}
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 14;
+
+const userSelect = { firstName: true, lastName: true, email: true };
+
+/**
+ * Loads everything the cover sheet needs, for either item type
+ */
+async function loadExportItem(itemType: ExportItemType, itemId: string) {
+  const include = {
+    project: { select: { name: true, networkBasePath: true } },
+    accProjectLink: { select: { accProjectName: true, folderName: true } },
+    assignments: {
+      include: { user: { select: userSelect } },
+      orderBy: { assignedAt: 'asc' as const },
+    },
+    attachments: {
+      where: { source: 'ACC_ORIGINAL' },
+      orderBy: { createdAt: 'asc' as const },
+    },
+    comments: {
+      where: { parentId: null },
+      include: {
+        author: { select: userSelect },
+        replies: {
+          include: { author: { select: userSelect } },
+          orderBy: { createdAt: 'asc' as const },
+        },
+      },
+      orderBy: { createdAt: 'asc' as const },
+    },
+  };
+  
+  if (itemType === 'RFI') {
+    const rfi = await prisma.rfi.findUnique({ where: { id: itemId }, include });
+    return rfi ? { ...rfi, discipline: rfi.discipline, specSection: null, packageNumber: null } : null;
+  }
+  
+  const submittal = await prisma.submittal.findUnique({ where: { id: itemId }, include });
+  return submittal ? { ...submittal, discipline: null } : null;
+}
+
+type ExportItem = NonNullable<Awaited<ReturnType<typeof loadExportItem>>>;
+
+/**
+ * Standard fonts only cover WinAnsi, so replace anything outside it
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\t/g, '    ')
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : '-';
+}
+
+function formatUser(user: { firstName: string; lastName: string; email: string }): string {
+  const name = `${user.firstName} ${user.lastName}`.trim();
+  return name || user.email;
+}
+
+/**
+ * Minimal flowing-text layout that starts a new page when the current one fills up
+ */
+function createCoverWriter(doc: PDFDocument, font: PDFFont, boldFont: PDFFont) {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+  
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+  
+  const wrap = (text: string, size: number, width: number, textFont: PDFFont): string[] => {
+    const lines: string[] = [];
+    
+    for (const paragraph of toWinAnsi(text.replace(/\r/g, '')).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(' ')) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textFont.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    
+    return lines;
+  };
+  
+  const text = (value: string, options: { size?: number; bold?: boolean; indent?: number } = {}) => {
+    const size = options.size ?? BODY_SIZE;
+    const textFont = options.bold ? boldFont : font;
+    const indent = options.indent ?? 0;
+    const lineHeight = Math.max(LINE_HEIGHT, size * 1.3);
+    
+    for (const line of wrap(value, size, PAGE_WIDTH - MARGIN * 2 - indent, textFont)) {
+      ensureSpace(lineHeight);
+      page.drawText(line, { x: MARGIN + indent, y: y - size, size, font: textFont, color: rgb(0, 0, 0) });
+      y -= lineHeight;
+    }
+  };
+  
+  return {
+    title: (value: string) => text(value, { size: 18, bold: true }),
+    heading: (value: string) => {
+      y -= LINE_HEIGHT / 2;
+      text(value, { size: 12, bold: true });
+    },
+    field: (label: string, value: string) => text(`${label}: ${value}`),
+    text,
+    gap: () => {
+      y -= LINE_HEIGHT / 2;
+    },
+  };
+}
+
+/**
+ * Parses the JSON list of ACC assignees stored on the item
+ */
+function formatAccAssignees(accAssignedTo: string | null): string {
+  try {
+    const assignees = JSON.parse(accAssignedTo || '[]');
+    if (!Array.isArray(assignees) || assignees.length === 0) {
+      return '-';
+    }
+    return assignees
+      .map((assignee: any) => (typeof assignee === 'string' ? assignee : assignee.name || assignee.id))
+      .join(', ');
+  } catch {
+    return '-';
+  }
+}
+
+function isPdf(fileName: string, mimeType: string | null): boolean {
+  return mimeType === 'application/pdf' || path.extname(fileName).toLowerCase() === '.pdf';
+}
+
+/**
+ * Builds the combined export PDF in memory
+ */
+async function renderExport(itemType: ExportItemType, item: ExportItem): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = createCoverWriter(doc, font, boldFont);
+  const label = itemType === 'RFI' ? 'RFI' : 'Submittal';
+  
+  doc.setTitle(`${label} ${item.accNumber} - ${item.title}`);
+  doc.setCreationDate(new Date());
+  
+  // Merge PDF attachments first so the cover sheet can note any that failed
+  const merged = await PDFDocument.create();
+  const mergeNotes: string[] = [];
+  
+  for (const attachment of item.attachments) {
+    if (!attachment.filesystemPath || !isPdf(attachment.fileName, attachment.mimeType)) {
+      mergeNotes.push(`${attachment.fileName} (not merged: not a PDF)`);
+      continue;
+    }
+    
+    try {
+      const source = await PDFDocument.load(await readFile(attachment.filesystemPath), { ignoreEncryption: true });
+      const pages = await merged.copyPages(source, source.getPageIndices());
+      pages.forEach(page => merged.addPage(page));
+      mergeNotes.push(`${attachment.fileName} (${pages.length} page${pages.length === 1 ? '' : 's'})`);
+    } catch (error) {
+      log.warn({ itemId: item.id, fileName: attachment.fileName, error }, 'Failed to merge attachment into export');
+      mergeNotes.push(`${attachment.fileName} (not merged: unreadable PDF)`);
+    }
+  }
+  
+  // Cover sheet
+  writer.title(`${label} ${item.accNumber}`);
+  writer.text(item.title, { size: 13, bold: true });
+  writer.text(`${item.project.name} / ${item.accProjectLink.accProjectName}`);
+  writer.gap();
+  
+  writer.heading('Status');
+  writer.field('ACC status', item.accStatus);
+  writer.field('Internal status', item.internalStatus);
+  writer.field('Priority', item.priority || '-');
+  if (item.discipline) {
+    writer.field('Discipline', item.discipline);
+  }
+  if (item.specSection) {
+    writer.field('Spec section', item.specSection);
+  }
+  if (item.packageNumber) {
+    writer.field('Package', item.packageNumber);
+  }
+  
+  writer.heading('Dates');
+  writer.field('Created in ACC', formatDate(item.accCreatedAt));
+  writer.field('Last updated in ACC', formatDate(item.accUpdatedAt));
+  writer.field('ACC due date', formatDate(item.accDueDate));
+  writer.field('Review deadline', formatDate(item.reviewDeadline));
+  writer.field('QC deadline', formatDate(item.qcDeadline));
+  writer.field('Response sent', formatDate(item.responseSentAt));
+  
+  writer.heading('Assignees');
+  writer.field('ACC', formatAccAssignees(item.accAssignedTo));
+  if (item.assignments.length === 0) {
+    writer.field('Internal', '-');
+  }
+  for (const assignment of item.assignments) {
+    writer.field(assignment.role === 'QC_REVIEWER' ? 'QC reviewer' : 'Reviewer', formatUser(assignment.user));
+  }
+  
+  writer.heading(itemType === 'RFI' ? 'Question' : 'Description');
+  writer.text(item.accDescription || '-');
+  if (item.accContractorComments) {
+    writer.gap();
+    writer.text('Contractor comments', { bold: true });
+    writer.text(item.accContractorComments);
+  }
+  
+  writer.heading('Response');
+  writer.field('Status', item.responseStatus || '-');
+  writer.text(item.responseText || '-');
+  
+  writer.heading('Comments');
+  if (item.comments.length === 0) {
+    writer.text('-');
+  }
+  for (const comment of item.comments) {
+    writer.text(`${formatUser(comment.author)} - ${formatDate(comment.createdAt)}`, { bold: true });
+    writer.text(comment.text);
+    for (const reply of comment.replies) {
+      writer.text(`${formatUser(reply.author)} - ${formatDate(reply.createdAt)}`, { bold: true, indent: 18 });
+      writer.text(reply.text, { indent: 18 });
+    }
+    writer.gap();
+  }
+  
+  writer.heading('Attachments');
+  if (mergeNotes.length === 0) {
+    writer.text('-');
+  }
+  for (const note of mergeNotes) {
+    writer.text(note);
+  }
+  
+  // Append merged attachment pages after the cover sheet
+  const attachmentPages = await doc.copyPages(merged, merged.getPageIndices());
+  attachmentPages.forEach(page => doc.addPage(page));
+  
+  return Buffer.from(await doc.save());
+}
+
+/**
+ * Renders and saves the combined export PDF, registering it as an ACC_EXPORT attachment
+ * Skips regeneration when the export already reflects the item's current accDataHash,
+ * unless force is set (e.g. new attachments were downloaded)
+ */
+export async function generateItemExport(
+  itemType: ExportItemType,
+  itemId: string,
+  options: { force?: boolean } = {}
+): Promise<ExportResult> {
+  const item = await loadExportItem(itemType, itemId);
+  
+  if (!item) {
+    throw new Error(`${itemType === 'RFI' ? 'RFI' : 'Submittal'} not found`);
+  }
+  
+  if (!item.project.networkBasePath) {
+    log.debug({ itemId }, 'No network path configured, skipping export');
+    return { regenerated: false, filesystemPath: null };
+  }
+  
+  const existing = await prisma.attachment.findFirst({
+    where: {
+      rfiId: itemType === 'RFI' ? itemId : undefined,
+      submittalId: itemType === 'SUBMITTAL' ? itemId : undefined,
+      source: 'ACC_EXPORT',
+    },
+  });
+  
+  if (
+    !options.force
+    && existing?.sourceDataHash === item.accDataHash
+    && existing.filesystemPath
+    && await fileExists(existing.filesystemPath)
+  ) {
+    return { regenerated: false, filesystemPath: existing.filesystemPath };
+  }
+  
+  const buffer = await renderExport(itemType, item);
+  const fileName = generateExportFilename(itemType, item.accNumber);
+  const filesystemPath = await saveFileToItemFolder(
+    item.project.networkBasePath,
+    item.accProjectLink.folderName,
+    itemType,
+    item.accNumber,
+    fileName,
+    buffer
+  );
+  
+  if (existing) {
+    await prisma.attachment.update({
+      where: { id: existing.id },
+      data: {
+        fileName,
+        fileSize: buffer.length,
+        filesystemPath,
+        sourceDataHash: item.accDataHash,
+      },
+    });
+  } else {
+    await prisma.attachment.create({
+      data: {
+        rfiId: itemType === 'RFI' ? itemId : null,
+        submittalId: itemType === 'SUBMITTAL' ? itemId : null,
+        fileName,
+        fileSize: buffer.length,
+        mimeType: 'application/pdf',
+        source: 'ACC_EXPORT',
+        filesystemPath,
+        sourceDataHash: item.accDataHash,
+      },
+    });
+  }
+  
+  log.info({ itemType, itemId, filesystemPath, size: buffer.length }, 'Combined export generated');
+  
+  return { regenerated: true, filesystemPath };
+}
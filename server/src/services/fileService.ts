@@ -7,6 +7,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { existsSync } from 'fs';
 import { logger, createChildLogger } from '../lib/logger';
+import { config } from '../config';
 
 const log = createChildLogger({ module: 'fileService' });
 
@@ -18,6 +19,51 @@ export interface FileInfo {
   isDirectory: boolean;
 }
 
+function hasParentSegment(value: string): boolean {
+  return value.split(/[\\/]/).includes('..');
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Why a project's network base path can't be used, or null if it can
+ * It must be absolute, contain no '..' and sit inside one of the configured storage roots
+ */
+export function getNetworkPathError(basePath: string): string | null {
+  if (!path.isAbsolute(basePath)) {
+    return 'networkBasePath must be an absolute path';
+  }
+  
+  if (hasParentSegment(basePath)) {
+    return 'networkBasePath must not contain ".."';
+  }
+  
+  if (config.networkStorageRoots.length === 0) {
+    return 'No network storage roots are configured (NETWORK_STORAGE_ROOTS)';
+  }
+  
+  const resolved = path.resolve(basePath);
+  if (!config.networkStorageRoots.some(root => isWithin(root, resolved))) {
+    return `networkBasePath must be inside ${config.networkStorageRoots.join(' or ')}`;
+  }
+  
+  return null;
+}
+
+/**
+ * Why an ACC link's folder name can't be used, or null if it can (a single folder, no separators)
+ */
+export function getFolderNameError(folderName: string): string | null {
+  if (!folderName.trim() || folderName === '.' || hasParentSegment(folderName) || /[\\/]/.test(folderName)) {
+    return 'folderName must be a single folder name without "/", "\\" or ".."';
+  }
+  
+  return null;
+}
+
 /**
  * Validate that a network path is accessible
  */
@@ -41,7 +87,14 @@ export function buildItemFolderPath(
   itemNumber: string
 ): string {
   const folderName = itemType === 'RFI' ? 'RFIs' : 'Submittals';
-  return path.join(basePath, accProjectFolder, folderName, itemNumber);
+  const itemFolder = path.join(basePath, accProjectFolder, folderName, itemNumber);
+  
+  // Item numbers come from ACC; never let one point outside the project's folder
+  if (!isWithin(path.resolve(basePath), path.resolve(itemFolder))) {
+    throw new Error(`Item folder escapes the project folder: ${itemFolder}`);
+  }
+  
+  return itemFolder;
 }
 
 /**
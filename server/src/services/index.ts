@@ -4,8 +4,16 @@
  */
 
 export * from './syncService';
-export * from './enhancedSyncService';
+export * from './syncAdapters';
+export * from './syncScheduler';
+export * from './syncLockService';
+export * from './jobService';
+export * from './accTokenService';
+export * from './ssoService';
+export * from './apiTokenService';
+export * from './sessionService';
 export * from './userService';
+export * from './policyService';
 export * from './projectService';
 export * from './rfiService';
 export * from './submittalService';
@@ -13,4 +21,7 @@ export * from './fileService';
 export * from './notificationService';
 export * from './workflowService';
 export * from './responseService';
+export * from './auditService';
+export * from './attachmentService';
+export * from './exportService';
 
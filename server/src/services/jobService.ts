@@ -0,0 +1,316 @@
+/**
+ * Job Service
+ * Database-backed job queue for long-running work (syncs, ACC sends) with retries and dead-lettering
+ */
+
+import os from 'os';
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+import { config } from '../config';
+
+const log = createChildLogger({ module: 'jobService' });
+
+export type JobType = 'SYNC_PROJECT' | 'SEND_RFI_RESPONSE' | 'SEND_SUBMITTAL_RESPONSE';
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'DEAD';
+
+export type JobHandler = (payload: any, job: { id: string; attempts: number }) => Promise<unknown>;
+
+export interface EnqueueJobOptions {
+  projectId?: string;
+  createdById?: string;
+  maxAttempts?: number;
+}
+
+// Jobs that must never run twice; when their worker stops responding they are dead-lettered, not retried
+const SINGLE_RUN_JOB_TYPES: JobType[] = ['SEND_RFI_RESPONSE', 'SEND_SUBMITTAL_RESPONSE'];
+
+// Upper bound on the delay between retries
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Identifies this process in Job.lockedBy
+const WORKER_HOST_ID = `${os.hostname()}:${process.pid}`;
+
+const handlers = new Map<JobType, JobHandler>();
+
+/**
+ * Registers the function that runs jobs of a type; workers skip types without a handler
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Adds a job to the queue, ready to run immediately
+ */
+export async function enqueueJob(type: JobType, payload: Record<string, any>, options: EnqueueJobOptions = {}) {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: JSON.stringify(payload),
+      projectId: options.projectId,
+      createdById: options.createdById,
+      maxAttempts: options.maxAttempts ?? config.jobMaxAttempts,
+    },
+  });
+  
+  log.info({ jobId: job.id, type, projectId: options.projectId }, 'Job enqueued');
+  
+  return job;
+}
+
+/**
+ * Finds a queued or running job of a type for a project, used to avoid stacking duplicates
+ */
+export async function findActiveJob(type: JobType, projectId: string) {
+  return prisma.job.findFirst({
+    where: {
+      type,
+      projectId,
+      status: { in: ['QUEUED', 'RUNNING'] },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getJobById(jobId: string) {
+  return prisma.job.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * Shapes a job row for API responses
+ */
+export function formatJob(job: any) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAt: job.runAt.toISOString(),
+    lastError: job.lastError,
+    result: job.result ? JSON.parse(job.result) : null,
+    projectId: job.projectId,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Exponential backoff with +/-20% jitter so failed jobs don't retry in lockstep
+ */
+function backoffDelayMs(attempts: number): number {
+  const base = config.jobRetryBaseSeconds * 1000 * 2 ** Math.max(attempts - 1, 0);
+  const jitter = 0.8 + Math.random() * 0.4;
+  return Math.min(base * jitter, MAX_BACKOFF_MS);
+}
+
+/**
+ * Atomically claims the oldest due job for a worker
+ */
+async function claimNextJob(workerId: string) {
+  const types = Array.from(handlers.keys());
+  
+  // A few candidates in case another worker wins the race for the first one
+  const candidates = await prisma.job.findMany({
+    where: {
+      status: 'QUEUED',
+      runAt: { lte: new Date() },
+      type: { in: types },
+    },
+    orderBy: { runAt: 'asc' },
+    take: 5,
+    select: { id: true },
+  });
+  
+  for (const candidate of candidates) {
+    const claimed = await prisma.job.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        attempts: { increment: 1 },
+        lockedBy: workerId,
+        lockedAt: new Date(),
+      },
+    });
+    
+    if (claimed.count === 1) {
+      return prisma.job.findUnique({ where: { id: candidate.id } });
+    }
+  }
+  
+  return null;
+}
+
+interface LockedJob {
+  id: string;
+  type: string;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+}
+
+/**
+ * Records a failed attempt, scheduling a retry or moving the job to the dead-letter state
+ * Does nothing if the job is no longer locked by the same worker (recovery got there first)
+ */
+async function failJob(job: LockedJob, errorMessage: string) {
+  const where = { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy };
+  
+  if (job.attempts >= job.maxAttempts) {
+    const dead = await prisma.job.updateMany({
+      where,
+      data: {
+        status: 'DEAD',
+        lastError: errorMessage,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    });
+    
+    if (dead.count === 0) {
+      log.warn({ jobId: job.id, type: job.type, lockedBy: job.lockedBy }, 'Job lock lost; dropping failure');
+      return;
+    }
+    
+    log.error({ jobId: job.id, type: job.type, attempts: job.attempts, error: errorMessage }, 'Job moved to dead-letter');
+    return;
+  }
+  
+  const delayMs = backoffDelayMs(job.attempts);
+  
+  const requeued = await prisma.job.updateMany({
+    where,
+    data: {
+      status: 'QUEUED',
+      lastError: errorMessage,
+      lockedBy: null,
+      lockedAt: null,
+      runAt: new Date(Date.now() + delayMs),
+    },
+  });
+  
+  if (requeued.count === 0) {
+    log.warn({ jobId: job.id, type: job.type, lockedBy: job.lockedBy }, 'Job lock lost; dropping failure');
+    return;
+  }
+  
+  log.warn({ jobId: job.id, type: job.type, attempts: job.attempts, retryInMs: Math.round(delayMs) }, 'Job failed, will retry');
+}
+
+/**
+ * Bumps lockedAt while a handler runs so recovery can tell a long job from a crashed worker;
+ * returns a function that stops the heartbeat
+ */
+function startJobHeartbeat(jobId: string, workerId: string): () => void {
+  const timer = setInterval(async () => {
+    try {
+      const renewed = await prisma.job.updateMany({
+        where: { id: jobId, status: 'RUNNING', lockedBy: workerId },
+        data: { lockedAt: new Date() },
+      });
+      
+      if (renewed.count === 0) {
+        log.warn({ jobId, workerId }, 'Job lock lost while running');
+      }
+    } catch (error) {
+      log.error({ jobId, workerId, error }, 'Failed to renew job lock');
+    }
+  }, (config.jobTimeoutMinutes * 60 * 1000) / 3);
+  
+  timer.unref();
+  
+  return () => clearInterval(timer);
+}
+
+/**
+ * Claims and runs one job; returns false when the queue has nothing due
+ */
+export async function processNextJob(workerSlot: number = 0): Promise<boolean> {
+  const workerId = `${WORKER_HOST_ID}:${workerSlot}`;
+  const job = await claimNextJob(workerId);
+  
+  if (!job) {
+    return false;
+  }
+  
+  const handler = handlers.get(job.type as JobType)!;
+  const startTime = Date.now();
+  
+  log.info({ jobId: job.id, type: job.type, attempt: job.attempts, workerId }, 'Running job');
+  
+  const stopHeartbeat = startJobHeartbeat(job.id, workerId);
+  
+  try {
+    const result = await handler(JSON.parse(job.payload), { id: job.id, attempts: job.attempts });
+    
+    const completed = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedBy: workerId },
+      data: {
+        status: 'SUCCEEDED',
+        result: result === undefined ? null : JSON.stringify(result),
+        lastError: null,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    });
+    
+    if (completed.count === 0) {
+      // Recovery requeued or dead-lettered the job meanwhile; its decision stands
+      log.warn({ jobId: job.id, type: job.type, workerId }, 'Job lock lost; dropping result');
+    } else {
+      log.info({ jobId: job.id, type: job.type, duration: Date.now() - startTime }, 'Job succeeded');
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await failJob(job, errorMessage);
+  } finally {
+    stopHeartbeat();
+  }
+  
+  return true;
+}
+
+/**
+ * Puts jobs whose worker stopped heartbeating back on the queue, or dead-letters them (always for ACC sends)
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - config.jobTimeoutMinutes * 60 * 1000);
+  
+  const staleJobs = await prisma.job.findMany({
+    where: {
+      status: 'RUNNING',
+      lockedAt: { lt: staleBefore },
+    },
+  });
+  
+  for (const job of staleJobs) {
+    const reclaimed = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+      data: { lockedBy: null },
+    });
+    
+    if (reclaimed.count !== 1) {
+      continue;
+    }
+    
+    if (SINGLE_RUN_JOB_TYPES.includes(job.type as JobType)) {
+      // The send may have partly reached ACC; only a person can tell whether it's safe to send again
+      log.error({ jobId: job.id, type: job.type, lockedBy: job.lockedBy }, 'Stale send job moved to dead-letter');
+      await failJob(
+        { ...job, maxAttempts: job.attempts, lockedBy: null },
+        `Worker ${job.lockedBy} stopped responding; check ACC before sending again`
+      );
+      continue;
+    }
+    
+    log.warn({ jobId: job.id, type: job.type, lockedBy: job.lockedBy }, 'Recovering stale job');
+    await failJob({ ...job, lockedBy: null }, `Worker ${job.lockedBy} stopped responding`);
+  }
+  
+  return staleJobs.length;
+}
@@ -10,7 +10,7 @@ const log = createChildLogger({ module: 'notificationService' });
 
 export interface CreateNotificationDto {
   userId: string;
-  type: 'ASSIGNMENT' | 'DEADLINE_WARNING' | 'ACC_CHANGE' | 'MENTION' | 'STATUS_CHANGE';
+  type: 'ASSIGNMENT' | 'DEADLINE_WARNING' | 'ACC_CHANGE' | 'ACC_RELINK' | 'MENTION' | 'STATUS_CHANGE';
   title: string;
   message: string;
   rfiId?: string;
@@ -0,0 +1,129 @@
+/**
+ * Policy Service
+ * Single source of truth for what a project member may do
+ *
+ * Permissions:
+ * - view: any member of the project
+ * - contribute: edit drafts, comment and move items through review (every role except VIEWER)
+ * - canAssign / canSendToAcc / canEditSettings: the membership flags of the same name
+ * PROJECT_ADMIN holds every permission regardless of its flags.
+ */
+
+import type { ProjectMembership } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { config } from '../config';
+import { CONTRIBUTOR_ROLES } from './userService';
+
+export type ProjectPermission = 'view' | 'contribute' | 'canAssign' | 'canSendToAcc' | 'canEditSettings';
+
+export interface ProjectAccess {
+  projectId: string;
+  userId: string;
+  membership: ProjectMembership | null;
+}
+
+// Shown in every 403 for the permission, so the same denial always reads the same way
+export const PERMISSION_DENIED_MESSAGES: Record<ProjectPermission, string> = {
+  view: 'You do not have access to this project',
+  contribute: 'Your project role is read-only',
+  canAssign: 'You do not have permission to assign items in this project',
+  canSendToAcc: 'You do not have permission to send or reconcile ACC responses in this project',
+  canEditSettings: 'You do not have permission to manage this project',
+};
+
+// Reaching these statuses is an official ACC outcome, so it needs the same permission as sending
+const SEND_GATED_STATUSES = ['SENT_TO_ACC', 'CLOSED'];
+
+/**
+ * Whether a membership (null for non-members) grants a permission
+ */
+export function can(membership: Pick<ProjectMembership, 'role' | 'canAssign' | 'canSendToAcc' | 'canEditSettings'> | null, permission: ProjectPermission): boolean {
+  if (!membership) {
+    return false;
+  }
+  
+  if (membership.role === 'PROJECT_ADMIN') {
+    return true;
+  }
+  
+  switch (permission) {
+    case 'view':
+      return true;
+    case 'contribute':
+      return CONTRIBUTOR_ROLES.includes(membership.role);
+    default:
+      return membership[permission] === true;
+  }
+}
+
+type MembershipGrant = Pick<ProjectMembership, 'role' | 'canAssign' | 'canSendToAcc' | 'canEditSettings'>;
+
+const MEMBERSHIP_FLAGS = ['canAssign', 'canSendToAcc', 'canEditSettings'] as const;
+
+/**
+ * Whether a member may change a membership from `before` to `after` (null when adding or removing it)
+ * Only a PROJECT_ADMIN may touch an admin's membership, make someone an admin, or grant or revoke
+ * a flag they don't hold themselves
+ */
+export function canChangeMembership(actor: MembershipGrant | null, before: MembershipGrant | null, after: MembershipGrant | null): boolean {
+  if (!actor) {
+    return false;
+  }
+  
+  if (actor.role === 'PROJECT_ADMIN') {
+    return true;
+  }
+  
+  if (before?.role === 'PROJECT_ADMIN' || after?.role === 'PROJECT_ADMIN') {
+    return false;
+  }
+  
+  return MEMBERSHIP_FLAGS.every(flag => actor[flag] || (before?.[flag] ?? false) === (after?.[flag] ?? false));
+}
+
+/**
+ * Whether a user is an application administrator (listed in ADMIN_EMAILS)
+ */
+export function isAppAdmin(email: string): boolean {
+  return config.adminEmails.includes(email.toLowerCase());
+}
+
+/**
+ * Loads a user's membership in a project
+ */
+export async function getProjectAccess(userId: string, projectId: string): Promise<ProjectAccess> {
+  const membership = await prisma.projectMembership.findUnique({
+    where: {
+      projectId_userId: { projectId, userId },
+    },
+  });
+  
+  return { projectId, userId, membership };
+}
+
+/**
+ * Whether a user holds a permission in a project (for checks about someone other than the requester)
+ */
+export async function userCan(userId: string, projectId: string, permission: ProjectPermission): Promise<boolean> {
+  const { membership } = await getProjectAccess(userId, projectId);
+  return can(membership, permission);
+}
+
+/**
+ * The permission needed to move an item into a workflow status
+ */
+export function getStatusChangePermission(newStatus: string): ProjectPermission {
+  return SEND_GATED_STATUSES.includes(newStatus) ? 'canSendToAcc' : 'contribute';
+}
+
+/**
+ * IDs of every project a user can view
+ */
+export async function getViewableProjectIds(userId: string): Promise<string[]> {
+  const memberships = await prisma.projectMembership.findMany({
+    where: { userId },
+    select: { projectId: true },
+  });
+  
+  return memberships.map(membership => membership.projectId);
+}
@@ -6,6 +6,7 @@
 import { prisma } from '../lib/prisma';
 import { logger, createChildLogger } from '../lib/logger';
 import { validateNetworkPath } from './fileService';
+import { getNextSyncAt } from './syncScheduler';
 
 const log = createChildLogger({ module: 'projectService' });
 
@@ -21,6 +22,9 @@ export interface UpdateProjectDto {
   networkBasePath?: string;
   syncEnabled?: boolean;
   syncIntervalMinutes?: number;
+  syncQuietHoursStart?: string | null;
+  syncQuietHoursEnd?: string | null;
+  syncOnOpen?: boolean;
   assignmentRules?: Record<string, string>;
   deadlineRules?: Record<string, any>;
   notificationRules?: Record<string, any>;
@@ -172,6 +176,9 @@ export async function updateProject(projectId: string, data: UpdateProjectDto) {
   if (data.description !== undefined) updateData.description = data.description;
   if (data.syncEnabled !== undefined) updateData.syncEnabled = data.syncEnabled;
   if (data.syncIntervalMinutes !== undefined) updateData.syncIntervalMinutes = data.syncIntervalMinutes;
+  if (data.syncQuietHoursStart !== undefined) updateData.syncQuietHoursStart = data.syncQuietHoursStart;
+  if (data.syncQuietHoursEnd !== undefined) updateData.syncQuietHoursEnd = data.syncQuietHoursEnd;
+  if (data.syncOnOpen !== undefined) updateData.syncOnOpen = data.syncOnOpen;
   
   if (data.networkBasePath !== undefined) {
     updateData.networkBasePath = data.networkBasePath;
@@ -295,6 +302,7 @@ export function parseProjectSettings(project: any) {
     assignmentRules: project.assignmentRules ? JSON.parse(project.assignmentRules) : null,
     deadlineRules: project.deadlineRules ? JSON.parse(project.deadlineRules) : null,
     notificationRules: project.notificationRules ? JSON.parse(project.notificationRules) : null,
+    nextSyncAt: project.syncEnabled ? getNextSyncAt(project) : null,
   };
 }
 
@@ -422,7 +430,7 @@ export async function listAccProjectLinks(projectId: string) {
         },
       },
     },
-    orderBy: { createdAt: 'asc' },
+    orderBy: { linkedAt: 'asc' },
   });
 }
 
@@ -6,7 +6,9 @@
 import { prisma } from '../lib/prisma';
 import { logger, createChildLogger } from '../lib/logger';
 import * as accClient from '../lib/accClient';
-import { readFile } from './fileService';
+import { readFile, listItemFiles } from './fileService';
+import { createNotification } from './notificationService';
+import { can } from './policyService';
 import path from 'path';
 
 const log = createChildLogger({ module: 'responseService' });
@@ -23,6 +25,269 @@ export interface SendSubmittalResponseDto {
   selectedFilePaths: string[];
 }
 
+export interface ResponsePreviewFile {
+  fileName: string;
+  filePath: string;
+  size: number;
+}
+
+export interface ResponsePreview {
+  itemType: 'RFI' | 'SUBMITTAL';
+  itemId: string;
+  accNumber: string;
+  title: string;
+  accProjectName: string;
+  responseStatus: string;
+  accStatus: string | null;
+  renderedText: string;
+  files: ResponsePreviewFile[];
+  missingFiles: string[];
+  totalSize: number;
+  errors: string[];
+  warnings: string[];
+  canSend: boolean;
+}
+
+export interface ManualResponseQueueItem {
+  itemType: 'RFI' | 'SUBMITTAL';
+  itemId: string;
+  accNumber: string;
+  title: string;
+  accProjectName: string;
+  internalStatus: string;
+  detectedAt: Date | null;
+  // What we had drafted internally
+  draft: {
+    responseStatus: string | null;
+    responseText: string | null;
+  };
+  // What was posted directly in ACC
+  manual: {
+    status: string | null;
+    text: string | null;
+    respondedBy: string | null;
+    respondedAt: string | null;
+  };
+}
+
+export const RESPONSE_STATUSES = [
+  'approved',
+  'approved_as_noted',
+  'for_record_only',
+  'rejected',
+  'revise_and_resubmit',
+];
+
+// Internal response status -> ACC Submittal review response
+const SUBMITTAL_ACC_STATUS: Record<string, string> = {
+  approved: 'approved',
+  approved_as_noted: 'approved-as-noted',
+  for_record_only: 'for-record-only',
+  rejected: 'rejected',
+  revise_and_resubmit: 'revise-and-resubmit',
+};
+
+/**
+ * Map an internal response status to the status written to ACC
+ * RFIs only have one answered state; Submittals carry the review outcome
+ */
+export function mapResponseStatusToAcc(itemType: 'RFI' | 'SUBMITTAL', responseStatus: string): string | null {
+  if (!RESPONSE_STATUSES.includes(responseStatus)) {
+    return null;
+  }
+  
+  return itemType === 'RFI' ? 'answered' : SUBMITTAL_ACC_STATUS[responseStatus];
+}
+
+/**
+ * Render the response text exactly as it will be posted to ACC
+ */
+export function renderResponseText(responseStatus: string, responseText: string, fileNames: string[]): string {
+  const lines = [
+    `Response: ${responseStatus.replace(/_/g, ' ').toUpperCase()}`,
+    '',
+    responseText.trim(),
+  ];
+  
+  if (fileNames.length > 0) {
+    lines.push('', 'Attachments:', ...fileNames.map(name => `- ${name}`));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Resolve requested file paths against the item's network folder.
+ * Only files that actually live in the item folder may be sent.
+ */
+async function resolveSelectedFiles(
+  networkBasePath: string | null,
+  folderName: string,
+  itemType: 'RFI' | 'SUBMITTAL',
+  itemNumber: string,
+  selectedFilePaths: string[]
+): Promise<{ files: ResponsePreviewFile[]; missingFiles: string[] }> {
+  if (!networkBasePath) {
+    return { files: [], missingFiles: [...selectedFilePaths] };
+  }
+  
+  const available = await listItemFiles(networkBasePath, folderName, itemType, itemNumber);
+  const byPath = new Map(available.map(f => [path.resolve(f.filePath), f]));
+  const byName = new Map(available.map(f => [f.fileName, f]));
+  
+  const files: ResponsePreviewFile[] = [];
+  const missingFiles: string[] = [];
+  
+  for (const selected of selectedFilePaths) {
+    const match = byPath.get(path.resolve(selected)) || byName.get(selected);
+    
+    if (match) {
+      files.push({ fileName: match.fileName, filePath: match.filePath, size: match.size });
+    } else {
+      missingFiles.push(selected);
+    }
+  }
+  
+  return { files, missingFiles };
+}
+
+/**
+ * Build a response preview (shared by RFI and Submittal)
+ */
+async function buildResponsePreview(
+  item: {
+    itemType: 'RFI' | 'SUBMITTAL';
+    id: string;
+    accNumber: string;
+    title: string;
+    internalStatus: string;
+    responseSentAt: Date | null;
+    networkBasePath: string | null;
+    folderName: string;
+    accProjectName: string;
+  },
+  data: SendRfiResponseDto | SendSubmittalResponseDto
+): Promise<ResponsePreview> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const selectedFilePaths = data.selectedFilePaths || [];
+  
+  const accStatus = data.responseStatus ? mapResponseStatusToAcc(item.itemType, data.responseStatus) : null;
+  
+  if (!data.responseStatus) {
+    errors.push('Response status is required');
+  } else if (!accStatus) {
+    errors.push(`Unknown response status: ${data.responseStatus}`);
+  }
+  
+  if (!data.responseText || data.responseText.trim().length === 0) {
+    errors.push('Response text is required');
+  }
+  
+  if (selectedFilePaths.length === 0) {
+    errors.push('At least one file must be selected');
+  }
+  
+  if (!item.networkBasePath) {
+    errors.push('Project network folder is not configured');
+  }
+  
+  const { files, missingFiles } = await resolveSelectedFiles(
+    item.networkBasePath,
+    item.folderName,
+    item.itemType,
+    item.accNumber,
+    selectedFilePaths
+  );
+  
+  if (missingFiles.length > 0) {
+    errors.push(`Files not found in the ${item.accNumber} folder: ${missingFiles.join(', ')}`);
+  }
+  
+  if (item.responseSentAt) {
+    errors.push(`A response was already sent to ACC on ${item.responseSentAt.toISOString()}`);
+  }
+  
+  if (item.internalStatus !== 'READY_FOR_RESPONSE') {
+    warnings.push(`${item.accNumber} is ${item.internalStatus}, not READY_FOR_RESPONSE`);
+  }
+  
+  return {
+    itemType: item.itemType,
+    itemId: item.id,
+    accNumber: item.accNumber,
+    title: item.title,
+    accProjectName: item.accProjectName,
+    responseStatus: data.responseStatus,
+    accStatus,
+    renderedText: renderResponseText(data.responseStatus || '', data.responseText || '', files.map(f => f.fileName)),
+    files,
+    missingFiles,
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    errors,
+    warnings,
+    canSend: errors.length === 0,
+  };
+}
+
+/**
+ * Preview what would be sent to ACC for an RFI, without sending anything
+ */
+export async function previewRfiResponse(rfiId: string, data: SendRfiResponseDto): Promise<ResponsePreview> {
+  const rfi = await prisma.rfi.findUnique({
+    where: { id: rfiId },
+    include: {
+      project: { select: { networkBasePath: true } },
+      accProjectLink: { select: { folderName: true, accProjectName: true } },
+    },
+  });
+  
+  if (!rfi) {
+    throw new Error('RFI not found');
+  }
+  
+  return buildResponsePreview({
+    itemType: 'RFI',
+    id: rfi.id,
+    accNumber: rfi.accNumber,
+    title: rfi.title,
+    internalStatus: rfi.internalStatus,
+    responseSentAt: rfi.responseSentAt,
+    networkBasePath: rfi.project.networkBasePath,
+    folderName: rfi.accProjectLink.folderName,
+    accProjectName: rfi.accProjectLink.accProjectName,
+  }, data);
+}
+
+/**
+ * Preview what would be sent to ACC for a Submittal, without sending anything
+ */
+export async function previewSubmittalResponse(submittalId: string, data: SendSubmittalResponseDto): Promise<ResponsePreview> {
+  const submittal = await prisma.submittal.findUnique({
+    where: { id: submittalId },
+    include: {
+      project: { select: { networkBasePath: true } },
+      accProjectLink: { select: { folderName: true, accProjectName: true } },
+    },
+  });
+  
+  if (!submittal) {
+    throw new Error('Submittal not found');
+  }
+  
+  return buildResponsePreview({
+    itemType: 'SUBMITTAL',
+    id: submittal.id,
+    accNumber: submittal.accNumber,
+    title: submittal.title,
+    internalStatus: submittal.internalStatus,
+    responseSentAt: submittal.responseSentAt,
+    networkBasePath: submittal.project.networkBasePath,
+    folderName: submittal.accProjectLink.folderName,
+    accProjectName: submittal.accProjectLink.accProjectName,
+  }, data);
+}
+
 /**
  * Send RFI official response to ACC
  */
@@ -36,13 +301,13 @@ export async function sendRfiResponseToAcc(
   const rfi = await prisma.rfi.findUnique({
     where: { id: rfiId },
     include: {
+      accProjectLink: {
+        include: {
+          oauthToken: true,
+        },
+      },
       project: {
         include: {
-          accProjectLink: {
-            include: {
-              oauthToken: true,
-            },
-          },
           memberships: {
             where: { userId },
           },
@@ -51,63 +316,53 @@ export async function sendRfiResponseToAcc(
     },
   });
   
-  if (!rfi || !rfi.project.accProjectLink) {
+  if (!rfi || !rfi.accProjectLink) {
     throw new Error('RFI or ACC project link not found');
   }
   
-  // PERMISSION CHECK: Only admins can send responses to ACC
-  const membership = rfi.project.memberships[0];
-  if (!membership) {
-    throw new Error('User is not a member of this project');
-  }
-  
-  const isAdmin = membership.role === 'PROJECT_ADMIN' || membership.canSendToAcc === true;
-  if (!isAdmin) {
-    log.warn({ rfiId, userId, role: membership.role }, 'Non-admin attempted to send response to ACC');
+  // PERMISSION CHECK: Only admins can send responses to ACC (re-checked because queued sends run later)
+  const membership = rfi.project.memberships[0] ?? null;
+  if (!can(membership, 'canSendToAcc')) {
+    log.warn({ rfiId, userId, role: membership?.role }, 'Non-admin attempted to send response to ACC');
     throw new Error('Only project admins are authorized to send responses to ACC');
   }
   
-  // Validate response
-  if (!data.responseStatus) {
-    throw new Error('Response status is required');
-  }
-  
-  if (!data.responseText || data.responseText.trim().length === 0) {
-    throw new Error('Response text is required');
+  // Validate against the same pre-flight checks the preview shows
+  const preview = await previewRfiResponse(rfiId, data);
+  if (!preview.canSend) {
+    throw new Error(preview.errors.join('; '));
   }
   
-  if (!data.selectedFilePaths || data.selectedFilePaths.length === 0) {
-    throw new Error('At least one file must be selected');
-  }
+  const accLink = rfi.accProjectLink;
+  const selectedFiles = preview.files;
   
   try {
     // Get valid access token
-    const accessToken = await accClient.getValidToken(rfi.project.accProjectLink.oauthToken);
+    const accessToken = await accClient.getValidToken(accLink.oauthToken);
     
     // 1. Update RFI status in ACC
     await accClient.updateRFIStatus(
-      rfi.project.accProjectLink.accProjectId,
+      accLink.accProjectId,
       rfi.accRfiId,
-      data.responseStatus,
+      preview.accStatus!,
       accessToken
     );
     
     // 2. Post response comment in ACC
     await accClient.postRFIResponse(
-      rfi.project.accProjectLink.accProjectId,
+      accLink.accProjectId,
       rfi.accRfiId,
-      data.responseText,
+      preview.renderedText,
       accessToken
     );
     
     // 3. Upload selected files to ACC
-    for (const filePath of data.selectedFilePaths) {
+    for (const { filePath, fileName } of selectedFiles) {
       try {
         const buffer = await readFile(filePath);
-        const fileName = path.basename(filePath);
         
         await accClient.uploadRFIAttachment(
-          rfi.project.accProjectLink.accProjectId,
+          accLink.accProjectId,
           rfi.accRfiId,
           buffer,
           fileName,
@@ -117,7 +372,7 @@ export async function sendRfiResponseToAcc(
         log.info({ rfiId, fileName }, 'File uploaded to ACC');
       } catch (error) {
         log.error({ rfiId, filePath, error }, 'Failed to upload file to ACC');
-        throw new Error(`Failed to upload file: ${path.basename(filePath)}`);
+        throw new Error(`Failed to upload file: ${fileName}`);
       }
     }
     
@@ -126,7 +381,7 @@ export async function sendRfiResponseToAcc(
       where: { id: rfiId },
       data: {
         responseStatus: data.responseStatus,
-        responseText: data.responseText,
+        responseText: data.responseText.trim(),
         responseSentAt: new Date(),
         responseSentBy: userId,
         internalStatus: 'SENT_TO_ACC',
@@ -143,8 +398,10 @@ export async function sendRfiResponseToAcc(
         rfiId,
         details: JSON.stringify({
           responseStatus: data.responseStatus,
-          fileCount: data.selectedFilePaths.length,
-          files: data.selectedFilePaths.map(p => path.basename(p)),
+          accStatus: preview.accStatus,
+          fileCount: selectedFiles.length,
+          files: selectedFiles.map(f => f.fileName),
+          totalSize: preview.totalSize,
         }),
       },
     });
@@ -197,13 +454,13 @@ export async function sendSubmittalResponseToAcc(
   const submittal = await prisma.submittal.findUnique({
     where: { id: submittalId },
     include: {
+      accProjectLink: {
+        include: {
+          oauthToken: true,
+        },
+      },
       project: {
         include: {
-          accProjectLink: {
-            include: {
-              oauthToken: true,
-            },
-          },
           memberships: {
             where: { userId },
           },
@@ -212,59 +469,49 @@ export async function sendSubmittalResponseToAcc(
     },
   });
   
-  if (!submittal || !submittal.project.accProjectLink) {
+  if (!submittal || !submittal.accProjectLink) {
     throw new Error('Submittal or ACC project link not found');
   }
   
-  // PERMISSION CHECK: Only admins can send responses to ACC
-  const membership = submittal.project.memberships[0];
-  if (!membership) {
-    throw new Error('User is not a member of this project');
-  }
-  
-  const isAdmin = membership.role === 'PROJECT_ADMIN' || membership.canSendToAcc === true;
-  if (!isAdmin) {
-    log.warn({ submittalId, userId, role: membership.role }, 'Non-admin attempted to send response to ACC');
+  // PERMISSION CHECK: Only admins can send responses to ACC (re-checked because queued sends run later)
+  const membership = submittal.project.memberships[0] ?? null;
+  if (!can(membership, 'canSendToAcc')) {
+    log.warn({ submittalId, userId, role: membership?.role }, 'Non-admin attempted to send response to ACC');
     throw new Error('Only project admins are authorized to send responses to ACC');
   }
   
-  // Validation
-  if (!data.responseStatus) {
-    throw new Error('Response status is required');
+  // Validate against the same pre-flight checks the preview shows
+  const preview = await previewSubmittalResponse(submittalId, data);
+  if (!preview.canSend) {
+    throw new Error(preview.errors.join('; '));
   }
   
-  if (!data.responseText || data.responseText.trim().length === 0) {
-    throw new Error('Response text is required');
-  }
-  
-  if (!data.selectedFilePaths || data.selectedFilePaths.length === 0) {
-    throw new Error('At least one file must be selected');
-  }
+  const accLink = submittal.accProjectLink;
+  const selectedFiles = preview.files;
   
   try {
-    const accessToken = await accClient.getValidToken(submittal.project.accProjectLink.oauthToken);
+    const accessToken = await accClient.getValidToken(accLink.oauthToken);
     
     await accClient.updateSubmittalStatus(
-      submittal.project.accProjectLink.accProjectId,
+      accLink.accProjectId,
       submittal.accSubmittalId,
-      data.responseStatus,
+      preview.accStatus!,
       accessToken
     );
     
     await accClient.postSubmittalResponse(
-      submittal.project.accProjectLink.accProjectId,
+      accLink.accProjectId,
       submittal.accSubmittalId,
-      data.responseText,
+      preview.renderedText,
       accessToken
     );
     
-    for (const filePath of data.selectedFilePaths) {
+    for (const { filePath, fileName } of selectedFiles) {
       try {
         const buffer = await readFile(filePath);
-        const fileName = path.basename(filePath);
         
         await accClient.uploadSubmittalAttachment(
-          submittal.project.accProjectLink.accProjectId,
+          accLink.accProjectId,
           submittal.accSubmittalId,
           buffer,
           fileName,
@@ -274,7 +521,7 @@ export async function sendSubmittalResponseToAcc(
         log.info({ submittalId, fileName }, 'File uploaded to ACC');
       } catch (error) {
         log.error({ submittalId, filePath, error }, 'Failed to upload file to ACC');
-        throw new Error(`Failed to upload file: ${path.basename(filePath)}`);
+        throw new Error(`Failed to upload file: ${fileName}`);
       }
     }
     
@@ -282,7 +529,7 @@ export async function sendSubmittalResponseToAcc(
       where: { id: submittalId },
       data: {
         responseStatus: data.responseStatus,
-        responseText: data.responseText,
+        responseText: data.responseText.trim(),
         responseSentAt: new Date(),
         responseSentBy: userId,
         internalStatus: 'SENT_TO_ACC',
@@ -298,8 +545,10 @@ export async function sendSubmittalResponseToAcc(
         submittalId,
         details: JSON.stringify({
           responseStatus: data.responseStatus,
-          fileCount: data.selectedFilePaths.length,
-          files: data.selectedFilePaths.map(p => path.basename(p)),
+          accStatus: preview.accStatus,
+          fileCount: selectedFiles.length,
+          files: selectedFiles.map(f => f.fileName),
+          totalSize: preview.totalSize,
         }),
       },
     });
@@ -408,14 +657,9 @@ export async function confirmManualRfiResponse(
   }
   
   // PERMISSION CHECK: Only admins can confirm manual responses
-  const membership = rfi.project.memberships[0];
-  if (!membership) {
-    throw new Error('User is not a member of this project');
-  }
-  
-  const isAdmin = membership.role === 'PROJECT_ADMIN' || membership.canSendToAcc === true;
-  if (!isAdmin) {
-    log.warn({ rfiId, userId, role: membership.role }, 'Non-admin attempted to confirm manual response');
+  const membership = rfi.project.memberships[0] ?? null;
+  if (!can(membership, 'canSendToAcc')) {
+    log.warn({ rfiId, userId, role: membership?.role }, 'Non-admin attempted to confirm manual response');
     throw new Error('Only project admins can confirm manual responses');
   }
   
@@ -507,14 +751,9 @@ export async function confirmManualSubmittalResponse(
   }
   
   // PERMISSION CHECK: Only admins can confirm manual responses
-  const membership = submittal.project.memberships[0];
-  if (!membership) {
-    throw new Error('User is not a member of this project');
-  }
-  
-  const isAdmin = membership.role === 'PROJECT_ADMIN' || membership.canSendToAcc === true;
-  if (!isAdmin) {
-    log.warn({ submittalId, userId, role: membership.role }, 'Non-admin attempted to confirm manual response');
+  const membership = submittal.project.memberships[0] ?? null;
+  if (!can(membership, 'canSendToAcc')) {
+    log.warn({ submittalId, userId, role: membership?.role }, 'Non-admin attempted to confirm manual response');
     throw new Error('Only project admins can confirm manual responses');
   }
   
@@ -578,3 +817,273 @@ export async function confirmManualSubmittalResponse(
   log.info({ submittalId, userId }, 'Manual Submittal response confirmed and closed out');
   return updated;
 }
+
+/**
+ * Parse stored manual response data, tolerating malformed JSON
+ */
+function parseManualResponse(data: string | null): ManualResponseQueueItem['manual'] {
+  let parsed: Record<string, any> = {};
+  try {
+    parsed = JSON.parse(data || '{}');
+  } catch {
+    // Fall through with empty data so the item still shows in the queue
+  }
+  
+  return {
+    status: parsed.status ?? null,
+    text: parsed.text ?? null,
+    respondedBy: parsed.respondedBy ?? null,
+    respondedAt: parsed.respondedAt ?? null,
+  };
+}
+
+/**
+ * List every unconfirmed manual response in a project, RFIs and Submittals together
+ */
+export async function getManualResponseQueue(projectId: string): Promise<ManualResponseQueueItem[]> {
+  const [rfis, submittals] = await Promise.all([
+    listRfisWithManualResponses(projectId),
+    listSubmittalsWithManualResponses(projectId),
+  ]);
+  
+  const items: ManualResponseQueueItem[] = [
+    ...rfis.map(rfi => ({
+      itemType: 'RFI' as const,
+      itemId: rfi.id,
+      accNumber: rfi.accNumber,
+      title: rfi.title,
+      accProjectName: rfi.accProjectLink.accProjectName,
+      internalStatus: rfi.internalStatus,
+      detectedAt: rfi.manualResponseDetectedAt,
+      draft: {
+        responseStatus: rfi.responseStatus,
+        responseText: rfi.responseText,
+      },
+      manual: parseManualResponse(rfi.manualResponseData),
+    })),
+    ...submittals.map(submittal => ({
+      itemType: 'SUBMITTAL' as const,
+      itemId: submittal.id,
+      accNumber: submittal.accNumber,
+      title: submittal.title,
+      accProjectName: submittal.accProjectLink.accProjectName,
+      internalStatus: submittal.internalStatus,
+      detectedAt: submittal.manualResponseDetectedAt,
+      draft: {
+        responseStatus: submittal.responseStatus,
+        responseText: submittal.responseText,
+      },
+      manual: parseManualResponse(submittal.manualResponseData),
+    })),
+  ];
+  
+  // Newest detections first
+  return items.sort((a, b) => (b.detectedAt?.getTime() ?? 0) - (a.detectedAt?.getTime() ?? 0));
+}
+
+/**
+ * Items that were already closed out go back into review when a manual response is rejected
+ */
+function getReopenedStatus(currentStatus: string): string {
+  return ['SENT_TO_ACC', 'CLOSED'].includes(currentStatus) ? 'UNDER_REVIEW' : currentStatus;
+}
+
+/**
+ * Admin rejects a manual RFI response from ACC and reopens the RFI for review
+ */
+export async function rejectManualRfiResponse(
+  rfiId: string,
+  userId: string,
+  reason: string
+) {
+  log.info({ rfiId, userId }, 'Admin rejecting manual RFI response');
+  
+  const rfi = await prisma.rfi.findUnique({
+    where: { id: rfiId },
+    include: {
+      project: {
+        include: {
+          memberships: {
+            where: { userId },
+          },
+        },
+      },
+      assignments: true,
+    },
+  });
+  
+  if (!rfi) {
+    throw new Error('RFI not found');
+  }
+  
+  // PERMISSION CHECK: Only admins can reject manual responses
+  const membership = rfi.project.memberships[0] ?? null;
+  if (!can(membership, 'canSendToAcc')) {
+    log.warn({ rfiId, userId, role: membership?.role }, 'Non-admin attempted to reject manual response');
+    throw new Error('Only project admins can reject manual responses');
+  }
+  
+  if (!rfi.hasManualResponse) {
+    throw new Error('RFI does not have a manual response to reject');
+  }
+  
+  if (rfi.manualResponseConfirmedAt) {
+    throw new Error('Manual response has already been confirmed');
+  }
+  
+  const newStatus = getReopenedStatus(rfi.internalStatus);
+  
+  // Keep manualResponseData so sync can recognise this response and not flag it again
+  const updated = await prisma.rfi.update({
+    where: { id: rfiId },
+    data: {
+      hasManualResponse: false,
+      manualResponseRejectedBy: userId,
+      manualResponseRejectedAt: new Date(),
+      manualResponseRejectionReason: reason,
+      internalStatus: newStatus,
+    },
+  });
+  
+  // Create audit log
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'REJECT_MANUAL_RESPONSE',
+      entityType: 'RFI',
+      entityId: rfiId,
+      rfiId,
+      details: JSON.stringify({
+        reason,
+        manualResponse: parseManualResponse(rfi.manualResponseData),
+      }),
+    },
+  });
+  
+  if (newStatus !== rfi.internalStatus) {
+    await prisma.statusHistory.create({
+      data: {
+        rfiId,
+        fieldName: 'internalStatus',
+        oldValue: rfi.internalStatus,
+        newValue: newStatus,
+        changedBy: userId,
+        changeReason: `Manual response rejected: ${reason}`,
+      },
+    });
+  }
+  
+  // Let the reviewers know the item is back with them
+  for (const assignment of rfi.assignments) {
+    await createNotification({
+      userId: assignment.userId,
+      type: 'STATUS_CHANGE',
+      title: `RFI ${rfi.accNumber} reopened`,
+      message: `The response posted directly in ACC was rejected: ${reason}`,
+      rfiId,
+    });
+  }
+  
+  log.info({ rfiId, userId, newStatus }, 'Manual RFI response rejected and reopened');
+  return updated;
+}
+
+/**
+ * Admin rejects a manual Submittal response from ACC and reopens the Submittal for review
+ */
+export async function rejectManualSubmittalResponse(
+  submittalId: string,
+  userId: string,
+  reason: string
+) {
+  log.info({ submittalId, userId }, 'Admin rejecting manual Submittal response');
+  
+  const submittal = await prisma.submittal.findUnique({
+    where: { id: submittalId },
+    include: {
+      project: {
+        include: {
+          memberships: {
+            where: { userId },
+          },
+        },
+      },
+      assignments: true,
+    },
+  });
+  
+  if (!submittal) {
+    throw new Error('Submittal not found');
+  }
+  
+  // PERMISSION CHECK: Only admins can reject manual responses
+  const membership = submittal.project.memberships[0] ?? null;
+  if (!can(membership, 'canSendToAcc')) {
+    log.warn({ submittalId, userId, role: membership?.role }, 'Non-admin attempted to reject manual response');
+    throw new Error('Only project admins can reject manual responses');
+  }
+  
+  if (!submittal.hasManualResponse) {
+    throw new Error('Submittal does not have a manual response to reject');
+  }
+  
+  if (submittal.manualResponseConfirmedAt) {
+    throw new Error('Manual response has already been confirmed');
+  }
+  
+  const newStatus = getReopenedStatus(submittal.internalStatus);
+  
+  // Keep manualResponseData so sync can recognise this response and not flag it again
+  const updated = await prisma.submittal.update({
+    where: { id: submittalId },
+    data: {
+      hasManualResponse: false,
+      manualResponseRejectedBy: userId,
+      manualResponseRejectedAt: new Date(),
+      manualResponseRejectionReason: reason,
+      internalStatus: newStatus,
+    },
+  });
+  
+  // Create audit log
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'REJECT_MANUAL_RESPONSE',
+      entityType: 'SUBMITTAL',
+      entityId: submittalId,
+      submittalId,
+      details: JSON.stringify({
+        reason,
+        manualResponse: parseManualResponse(submittal.manualResponseData),
+      }),
+    },
+  });
+  
+  if (newStatus !== submittal.internalStatus) {
+    await prisma.statusHistory.create({
+      data: {
+        submittalId,
+        fieldName: 'internalStatus',
+        oldValue: submittal.internalStatus,
+        newValue: newStatus,
+        changedBy: userId,
+        changeReason: `Manual response rejected: ${reason}`,
+      },
+    });
+  }
+  
+  // Let the reviewers know the item is back with them
+  for (const assignment of submittal.assignments) {
+    await createNotification({
+      userId: assignment.userId,
+      type: 'STATUS_CHANGE',
+      title: `Submittal ${submittal.accNumber} reopened`,
+      message: `The response posted directly in ACC was rejected: ${reason}`,
+      submittalId,
+    });
+  }
+  
+  log.info({ submittalId, userId, newStatus }, 'Manual Submittal response rejected and reopened');
+  return updated;
+}
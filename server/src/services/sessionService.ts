@@ -0,0 +1,108 @@
+/**
+ * Session Service
+ * Lets users see where they're signed in and end sessions they don't recognize
+ */
+
+import type { Session } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createChildLogger } from '../lib/logger';
+import type { SessionInfo } from '@acc-integration/shared';
+
+const log = createChildLogger({ module: 'sessionService' });
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short description of the browser and OS behind a user agent, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  
+  if (!browser && !platform) {
+    return userAgent.slice(0, 60);
+  }
+  
+  return [browser || 'Unknown browser', platform].filter(Boolean).join(' on ');
+}
+
+function formatSession(session: Session, currentSid: string | undefined): SessionInfo {
+  return {
+    id: session.id,
+    device: describeUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+    current: session.sid === currentSid,
+  };
+}
+
+/**
+ * Lists a user's unexpired sessions, most recently active first
+ */
+export async function listUserSessions(userId: string, currentSid?: string): Promise<SessionInfo[]> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+  
+  return sessions.map(session => formatSession(session, currentSid));
+}
+
+/**
+ * Ends one of a user's sessions; returns null if the user has no such session
+ */
+export async function revokeUserSession(userId: string, sessionId: string, currentSid?: string): Promise<SessionInfo | null> {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId },
+  });
+  
+  if (!session) {
+    return null;
+  }
+  
+  await prisma.session.delete({
+    where: { id: session.id },
+  });
+  
+  log.info({ userId, sessionId }, 'Session revoked');
+  return formatSession(session, currentSid);
+}
+
+/**
+ * Ends all of a user's sessions (after a password reset, for example), optionally keeping one
+ */
+export async function revokeAllUserSessions(userId: string, exceptSid?: string): Promise<number> {
+  const result = await prisma.session.deleteMany({
+    where: {
+      userId,
+      ...(exceptSid ? { sid: { not: exceptSid } } : {}),
+    },
+  });
+  
+  if (result.count > 0) {
+    log.info({ userId, count: result.count }, 'Sessions revoked');
+  }
+  
+  return result.count;
+}
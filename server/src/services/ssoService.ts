@@ -0,0 +1,225 @@
+/**
+ * SSO Service
+ * Provisions internal users from Entra ID sign-ins and keeps group-granted project roles in sync
+ */
+
+import type { User } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createChildLogger } from '../lib/logger';
+import { config } from '../config';
+import type { IdTokenClaims } from '../lib/oidcClient';
+import { PROJECT_ROLES, normalizeEmail } from './userService';
+
+const log = createChildLogger({ module: 'ssoService' });
+
+export const ENTRA_PROVIDER = 'azure_ad';
+
+export type SsoUserResult =
+  | { status: 'ok'; user: User; created: boolean }
+  | { status: 'inactive'; userId: string }
+  | { status: 'no_email' }
+  | { status: 'conflict'; userId: string }
+  | { status: 'unverified_email'; userId: string };
+
+export interface GroupSyncResult {
+  skipped: boolean; // Group claim missing or overflowed, so memberships were left as they were
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+function getClaimEmail(claims: IdTokenClaims): string | null {
+  const email = claims.email || claims.preferred_username || claims.upn;
+  return email && email.includes('@') ? normalizeEmail(email) : null;
+}
+
+/**
+ * Whether the token proves the user owns this email. preferred_username and upn can be set to any
+ * address by a tenant admin, so only the verified optional claims count
+ */
+function isClaimEmailVerified(claims: IdTokenClaims, email: string): boolean {
+  if (claims.verified_primary_email?.some(verified => normalizeEmail(verified) === email)) {
+    return true;
+  }
+  
+  const domainVerified = claims.xms_edov === true || claims.xms_edov === 'true' || claims.xms_edov === '1';
+  return domainVerified && !!claims.email && normalizeEmail(claims.email) === email;
+}
+
+function getClaimNames(claims: IdTokenClaims): { firstName: string; lastName: string } {
+  if (claims.given_name || claims.family_name) {
+    return { firstName: claims.given_name || '', lastName: claims.family_name || '' };
+  }
+  
+  const [firstName = '', ...rest] = (claims.name || '').trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
+}
+
+/**
+ * Finds the user for an Entra sign-in by object ID, then by verified email (linking the account),
+ * creating one on first sign-in. Deactivated users are refused rather than reactivated, and an
+ * existing account whose email the token doesn't verify has to be linked by an admin.
+ */
+export async function findOrProvisionSsoUser(claims: IdTokenClaims): Promise<SsoUserResult> {
+  const externalId = claims.oid || claims.sub;
+  const email = getClaimEmail(claims);
+  const names = getClaimNames(claims);
+  
+  let user = await prisma.user.findUnique({
+    where: { externalId },
+  });
+  
+  if (!user) {
+    if (!email) {
+      return { status: 'no_email' };
+    }
+    
+    const byEmail = await prisma.user.findUnique({
+      where: { email },
+    });
+    
+    // Already linked to a different directory identity; don't silently take it over
+    if (byEmail?.externalId && byEmail.externalId !== externalId) {
+      log.warn({ userId: byEmail.id }, 'SSO email matches a user linked to another identity');
+      return { status: 'conflict', userId: byEmail.id };
+    }
+    
+    if (byEmail) {
+      if (!byEmail.isActive) {
+        return { status: 'inactive', userId: byEmail.id };
+      }
+      
+      if (!isClaimEmailVerified(claims, email)) {
+        log.warn({ userId: byEmail.id }, 'SSO email matches a user but is not verified; not linking');
+        return { status: 'unverified_email', userId: byEmail.id };
+      }
+      
+      log.info({ userId: byEmail.id }, 'Linking existing user to Entra ID');
+      user = await prisma.user.update({
+        where: { id: byEmail.id },
+        data: { externalId, ssoProvider: ENTRA_PROVIDER },
+      });
+    } else {
+      log.info({ email }, 'Provisioning user from Entra ID sign-in');
+      user = await prisma.user.create({
+        data: {
+          email,
+          firstName: names.firstName,
+          lastName: names.lastName,
+          externalId,
+          ssoProvider: ENTRA_PROVIDER,
+          lastLoginAt: new Date(),
+        },
+      });
+      
+      return { status: 'ok', user, created: true };
+    }
+  }
+  
+  if (!user.isActive) {
+    return { status: 'inactive', userId: user.id };
+  }
+  
+  // The directory is the source of truth for names
+  user = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      firstName: names.firstName || user.firstName,
+      lastName: names.lastName || user.lastName,
+      lastLoginAt: new Date(),
+    },
+  });
+  
+  return { status: 'ok', user, created: false };
+}
+
+/**
+ * Works out the role each mapped project should get from the user's groups;
+ * when several groups map to the same project, the most privileged role wins
+ */
+function getGrantedRoles(groups: string[]): Map<string, string> {
+  const granted = new Map<string, string>();
+  
+  for (const mapping of config.entra.groupRoleMappings) {
+    if (!groups.includes(mapping.groupId)) {
+      continue;
+    }
+    
+    const current = granted.get(mapping.projectId);
+    if (!current || PROJECT_ROLES.indexOf(mapping.role) < PROJECT_ROLES.indexOf(current)) {
+      granted.set(mapping.projectId, mapping.role);
+    }
+  }
+  
+  return granted;
+}
+
+/**
+ * Applies the ID token's group claim to the user's SSO-granted memberships
+ * Memberships added by hand are never changed or removed here
+ */
+export async function syncGroupMemberships(userId: string, claims: IdTokenClaims): Promise<GroupSyncResult> {
+  const result: GroupSyncResult = { skipped: false, added: [], updated: [], removed: [] };
+  
+  if (config.entra.groupRoleMappings.length === 0) {
+    return result;
+  }
+  
+  // Too many groups for the token (or no groups claim configured): keep what the user already has
+  if (!Array.isArray(claims.groups) || claims._claim_names?.groups) {
+    log.warn({ userId, overage: !!claims._claim_names?.groups }, 'ID token has no usable groups claim; skipping role sync');
+    return { ...result, skipped: true };
+  }
+  
+  const granted = getGrantedRoles(claims.groups);
+  const projects = await prisma.project.findMany({
+    where: { id: { in: [...granted.keys()] } },
+    select: { id: true },
+  });
+  const existingProjectIds = new Set(projects.map(project => project.id));
+  
+  const memberships = await prisma.projectMembership.findMany({
+    where: { userId },
+  });
+  
+  for (const [projectId, role] of granted) {
+    if (!existingProjectIds.has(projectId)) {
+      log.warn({ projectId }, 'Group role mapping points at an unknown project');
+      continue;
+    }
+    
+    const membership = memberships.find(m => m.projectId === projectId);
+    const permissions = {
+      canAssign: role === 'PROJECT_ADMIN',
+      canSendToAcc: role === 'PROJECT_ADMIN',
+      canEditSettings: role === 'PROJECT_ADMIN',
+    };
+    
+    if (!membership) {
+      await prisma.projectMembership.create({
+        data: { projectId, userId, role, source: 'SSO', ...permissions },
+      });
+      result.added.push(projectId);
+    } else if (membership.source === 'SSO' && membership.role !== role) {
+      await prisma.projectMembership.update({
+        where: { id: membership.id },
+        data: { role, ...permissions },
+      });
+      result.updated.push(projectId);
+    }
+  }
+  
+  const revoked = memberships.filter(m => m.source === 'SSO' && !granted.has(m.projectId));
+  if (revoked.length > 0) {
+    await prisma.projectMembership.deleteMany({
+      where: { id: { in: revoked.map(m => m.id) } },
+    });
+    result.removed.push(...revoked.map(m => m.projectId));
+  }
+  
+  if (result.added.length + result.updated.length + result.removed.length > 0) {
+    log.info({ userId, ...result }, 'Synced project roles from Entra groups');
+  }
+  
+  return result;
+}
@@ -17,6 +17,8 @@ export interface ListSubmittalsQuery {
   assignedToUserId?: string;
   showClosed?: boolean;
   search?: string;
+  specSection?: string; // Prefix match, so "03" returns every Division 03 section
+  packageNumber?: string;
 }
 
 export interface UpdateSubmittalDto {
@@ -45,6 +47,14 @@ export async function listSubmittals(query: ListSubmittalsQuery) {
     where.priority = query.priority;
   }
   
+  if (query.specSection) {
+    where.specSection = { startsWith: query.specSection };
+  }
+  
+  if (query.packageNumber) {
+    where.packageNumber = query.packageNumber;
+  }
+  
   if (query.assignedToUserId) {
     where.assignments = {
       some: {
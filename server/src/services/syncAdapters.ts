@@ -0,0 +1,184 @@
+/**
+ * Sync Adapters
+ * Module-specific fetch and persistence for the sync engine (one adapter per ACC module)
+ */
+
+import { prisma } from '../lib/prisma';
+import * as accClient from '../lib/accClient';
+
+export type SyncModule = 'RFI' | 'SUBMITTAL';
+
+export interface LiveSyncedItem {
+  id: string;
+  accId: string;
+  accNumber: string;
+}
+
+export interface FileRetryItem {
+  id: string;
+  accId: string;
+  accNumber: string;
+  pendingAttachments: string | null;
+}
+
+export interface SyncAdapter {
+  module: SyncModule;
+  label: string; // Human-readable module name for logs, errors and notifications
+  isEnabled(accProjectLink: any): boolean;
+  // knownUpdatedAt lets the client skip per-item detail calls for items that haven't changed
+  list(accessToken: string, accProjectId: string, sinceCursor?: string, knownUpdatedAt?: Map<string, string>): Promise<{ data: any[]; cursor?: string }>;
+  listKnownUpdatedAt(accProjectLinkId: string): Promise<Map<string, string>>; // ACC ID -> synced accUpdatedAt (ISO)
+  findExisting(accProjectLinkId: string, accId: string): Promise<any | null>;
+  mapFields(accItem: any): Record<string, any>; // Module-specific columns, shared columns are built by the engine
+  upsert(accProjectLinkId: string, accId: string, create: any, update: any): Promise<{ id: string; accNumber: string }>;
+  listLive(accProjectLinkId: string): Promise<LiveSyncedItem[]>;
+  markDeleted(itemId: string): Promise<void>;
+  listNeedingFileRetry(accProjectLinkId: string): Promise<FileRetryItem[]>;
+  setFileRetry(itemId: string, pendingAttachments: any[] | null): Promise<void>; // null clears the flag
+  itemRef(itemId: string): { rfiId: string } | { submittalId: string };
+  listAssigneeIds(itemId: string): Promise<string[]>;
+}
+
+export const rfiSyncAdapter: SyncAdapter = {
+  module: 'RFI',
+  label: 'RFI',
+  
+  isEnabled: (accProjectLink) => accProjectLink.syncRfis,
+  
+  list: (accessToken, accProjectId, sinceCursor, knownUpdatedAt) => accClient.listRFIs(accessToken, accProjectId, sinceCursor, knownUpdatedAt),
+  
+  listKnownUpdatedAt: async (accProjectLinkId) => {
+    const rfis = await prisma.rfi.findMany({
+      where: { accProjectLinkId },
+      select: { accRfiId: true, accUpdatedAt: true },
+    });
+    return new Map(rfis.map(rfi => [rfi.accRfiId, rfi.accUpdatedAt.toISOString()]));
+  },
+  
+  findExisting: (accProjectLinkId, accRfiId) => prisma.rfi.findUnique({
+    where: { accProjectLinkId_accRfiId: { accProjectLinkId, accRfiId } },
+  }),
+  
+  mapFields: (accRfi) => ({
+    title: accRfi.title || 'Untitled RFI',
+    discipline: accRfi.discipline,
+  }),
+  
+  upsert: (accProjectLinkId, accRfiId, create, update) => prisma.rfi.upsert({
+    where: { accProjectLinkId_accRfiId: { accProjectLinkId, accRfiId } },
+    create: { ...create, accRfiId },
+    update,
+  }),
+  
+  listLive: async (accProjectLinkId) => {
+    const rfis = await prisma.rfi.findMany({
+      where: { accProjectLinkId, isDeleted: false },
+      select: { id: true, accRfiId: true, accNumber: true },
+    });
+    return rfis.map(rfi => ({ id: rfi.id, accId: rfi.accRfiId, accNumber: rfi.accNumber }));
+  },
+  
+  markDeleted: async (rfiId) => {
+    await prisma.rfi.update({ where: { id: rfiId }, data: { isDeleted: true } });
+  },
+  
+  listNeedingFileRetry: async (accProjectLinkId) => {
+    const items = await prisma.rfi.findMany({
+      where: { accProjectLinkId, needsAttachmentRetry: true, isDeleted: false },
+      select: { id: true, accRfiId: true, accNumber: true, pendingAttachments: true },
+    });
+    return items.map(item => ({ id: item.id, accId: item.accRfiId, accNumber: item.accNumber, pendingAttachments: item.pendingAttachments }));
+  },
+  
+  setFileRetry: async (rfiId, pendingAttachments) => {
+    await prisma.rfi.update({
+      where: { id: rfiId },
+      data: {
+        needsAttachmentRetry: pendingAttachments !== null,
+        pendingAttachments: pendingAttachments ? JSON.stringify(pendingAttachments) : null,
+      },
+    });
+  },
+  
+  itemRef: (rfiId) => ({ rfiId }),
+  
+  listAssigneeIds: async (rfiId) => {
+    const assignments = await prisma.rfiAssignment.findMany({ where: { rfiId }, select: { userId: true } });
+    return assignments.map(assignment => assignment.userId);
+  },
+};
+
+export const submittalSyncAdapter: SyncAdapter = {
+  module: 'SUBMITTAL',
+  label: 'Submittal',
+  
+  isEnabled: (accProjectLink) => accProjectLink.syncSubmittals,
+  
+  list: (accessToken, accProjectId, sinceCursor, knownUpdatedAt) => accClient.listSubmittals(accessToken, accProjectId, sinceCursor, knownUpdatedAt),
+  
+  listKnownUpdatedAt: async (accProjectLinkId) => {
+    const submittals = await prisma.submittal.findMany({
+      where: { accProjectLinkId },
+      select: { accSubmittalId: true, accUpdatedAt: true },
+    });
+    return new Map(submittals.map(submittal => [submittal.accSubmittalId, submittal.accUpdatedAt.toISOString()]));
+  },
+  
+  findExisting: (accProjectLinkId, accSubmittalId) => prisma.submittal.findUnique({
+    where: { accProjectLinkId_accSubmittalId: { accProjectLinkId, accSubmittalId } },
+  }),
+  
+  mapFields: (accSubmittal) => ({
+    title: accSubmittal.title || 'Untitled Submittal',
+    specSection: accSubmittal.specSection,
+    packageNumber: accSubmittal.packageNumber,
+  }),
+  
+  upsert: (accProjectLinkId, accSubmittalId, create, update) => prisma.submittal.upsert({
+    where: { accProjectLinkId_accSubmittalId: { accProjectLinkId, accSubmittalId } },
+    create: { ...create, accSubmittalId },
+    update,
+  }),
+  
+  listLive: async (accProjectLinkId) => {
+    const submittals = await prisma.submittal.findMany({
+      where: { accProjectLinkId, isDeleted: false },
+      select: { id: true, accSubmittalId: true, accNumber: true },
+    });
+    return submittals.map(submittal => ({ id: submittal.id, accId: submittal.accSubmittalId, accNumber: submittal.accNumber }));
+  },
+  
+  markDeleted: async (submittalId) => {
+    await prisma.submittal.update({ where: { id: submittalId }, data: { isDeleted: true } });
+  },
+  
+  listNeedingFileRetry: async (accProjectLinkId) => {
+    const items = await prisma.submittal.findMany({
+      where: { accProjectLinkId, needsAttachmentRetry: true, isDeleted: false },
+      select: { id: true, accSubmittalId: true, accNumber: true, pendingAttachments: true },
+    });
+    return items.map(item => ({ id: item.id, accId: item.accSubmittalId, accNumber: item.accNumber, pendingAttachments: item.pendingAttachments }));
+  },
+  
+  setFileRetry: async (submittalId, pendingAttachments) => {
+    await prisma.submittal.update({
+      where: { id: submittalId },
+      data: {
+        needsAttachmentRetry: pendingAttachments !== null,
+        pendingAttachments: pendingAttachments ? JSON.stringify(pendingAttachments) : null,
+      },
+    });
+  },
+  
+  itemRef: (submittalId) => ({ submittalId }),
+  
+  listAssigneeIds: async (submittalId) => {
+    const assignments = await prisma.submittalAssignment.findMany({ where: { submittalId }, select: { userId: true } });
+    return assignments.map(assignment => assignment.userId);
+  },
+};
+
+/**
+ * Adapters in the order modules are synced for each link
+ */
+export const syncAdapters: SyncAdapter[] = [rfiSyncAdapter, submittalSyncAdapter];
@@ -0,0 +1,158 @@
+/**
+ * Sync Lock Service
+ * Database leases that stop two processes or server instances syncing the same ACC project link at once
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+import { config } from '../config';
+
+const log = createChildLogger({ module: 'syncLockService' });
+
+// Identifies this process as a lease holder
+export const SYNC_LEASE_HOLDER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+export interface ActiveSyncLease {
+  accProjectLinkId: string;
+  holderId: string;
+  syncLogId: string | null;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+export type SyncLeaseResult =
+  | { acquired: true }
+  | { acquired: false; lease: ActiveSyncLease };
+
+function leaseExpiry(from: Date): Date {
+  return new Date(from.getTime() + config.syncLeaseSeconds * 1000);
+}
+
+/**
+ * Tries to take the sync lease for a link, recovering it if the previous holder's lease expired
+ */
+export async function acquireSyncLease(accProjectLinkId: string): Promise<SyncLeaseResult> {
+  const now = new Date();
+  
+  try {
+    await prisma.syncLease.create({
+      data: {
+        accProjectLinkId,
+        holderId: SYNC_LEASE_HOLDER_ID,
+        acquiredAt: now,
+        expiresAt: leaseExpiry(now),
+      },
+    });
+    return { acquired: true };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+  
+  const existing = await prisma.syncLease.findUnique({ where: { accProjectLinkId } });
+  
+  // Released between our insert and read, so try again from the top
+  if (!existing) {
+    return acquireSyncLease(accProjectLinkId);
+  }
+  
+  if (existing.expiresAt > now) {
+    return { acquired: false, lease: existing };
+  }
+  
+  // Compare-and-swap on the stale lease so only one contender recovers it
+  const takeover = await prisma.syncLease.updateMany({
+    where: {
+      accProjectLinkId,
+      holderId: existing.holderId,
+      expiresAt: existing.expiresAt,
+    },
+    data: {
+      holderId: SYNC_LEASE_HOLDER_ID,
+      syncLogId: null,
+      acquiredAt: now,
+      expiresAt: leaseExpiry(now),
+    },
+  });
+  
+  if (takeover.count === 0) {
+    const current = await prisma.syncLease.findUnique({ where: { accProjectLinkId } });
+    return current ? { acquired: false, lease: current } : acquireSyncLease(accProjectLinkId);
+  }
+  
+  log.warn({
+    accProjectLinkId,
+    staleHolderId: existing.holderId,
+    expiredAt: existing.expiresAt,
+  }, 'Recovered stale sync lease');
+  
+  // The crashed run never finished its log entry
+  if (existing.syncLogId) {
+    await prisma.syncLog.updateMany({
+      where: { id: existing.syncLogId, status: 'STARTED' },
+      data: {
+        status: 'FAILED',
+        errors: JSON.stringify(['Sync abandoned: lease holder stopped responding']),
+        completedAt: now,
+      },
+    });
+  }
+  
+  return { acquired: true };
+}
+
+/**
+ * Records which SyncLog the lease holder is currently writing, so contenders can report it
+ */
+export async function setSyncLeaseLog(accProjectLinkId: string, syncLogId: string): Promise<void> {
+  await prisma.syncLease.updateMany({
+    where: { accProjectLinkId, holderId: SYNC_LEASE_HOLDER_ID },
+    data: { syncLogId },
+  });
+}
+
+/**
+ * Keeps the lease alive while a long sync runs; returns a function that stops the heartbeat
+ */
+export function startSyncLeaseHeartbeat(accProjectLinkId: string): () => void {
+  const timer = setInterval(async () => {
+    try {
+      const renewed = await prisma.syncLease.updateMany({
+        where: { accProjectLinkId, holderId: SYNC_LEASE_HOLDER_ID },
+        data: { expiresAt: leaseExpiry(new Date()) },
+      });
+      
+      if (renewed.count === 0) {
+        log.warn({ accProjectLinkId }, 'Sync lease lost while running');
+      }
+    } catch (error) {
+      log.error({ accProjectLinkId, error }, 'Failed to renew sync lease');
+    }
+  }, (config.syncLeaseSeconds * 1000) / 3);
+  
+  timer.unref();
+  
+  return () => clearInterval(timer);
+}
+
+/**
+ * Releases the lease if this process still holds it
+ */
+export async function releaseSyncLease(accProjectLinkId: string): Promise<void> {
+  await prisma.syncLease.deleteMany({
+    where: { accProjectLinkId, holderId: SYNC_LEASE_HOLDER_ID },
+  });
+}
+
+/**
+ * Current leases on a project's links, used to point callers at the run that is in progress
+ */
+export async function getProjectSyncLeases(projectId: string) {
+  return prisma.syncLease.findMany({
+    where: { accProjectLink: { projectId } },
+  });
+}
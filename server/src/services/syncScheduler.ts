@@ -0,0 +1,201 @@
+/**
+ * Sync Scheduler
+ * Decides when each project syncs, based on its own interval, quiet hours and project-open events
+ */
+
+import { prisma } from '../lib/prisma';
+import { logger, createChildLogger } from '../lib/logger';
+import { config } from '../config';
+import { enqueueJob, findActiveJob } from './jobService';
+import type { SyncTrigger } from './syncService';
+import type { SyncModule } from './syncAdapters';
+
+const log = createChildLogger({ module: 'syncScheduler' });
+
+// Opening a project only triggers a sync when the last one is older than this
+const PROJECT_OPEN_MIN_AGE_MS = 5 * 60 * 1000;
+
+interface ScheduledProject {
+  syncIntervalMinutes: number;
+  lastSyncAt: Date | null;
+  syncQuietHoursStart: string | null;
+  syncQuietHoursEnd: string | null;
+}
+
+export interface QueueProjectSyncOptions {
+  modules?: SyncModule[];
+  createdById?: string;
+}
+
+let tickRunning = false;
+
+/**
+ * Parses an "HH:MM" time of day into minutes since midnight, or null if malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+/**
+ * Minutes since midnight for a moment, in the timezone quiet hours are configured in
+ */
+function minutesOfDay(at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: config.syncTimezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  
+  const hour = parseInt(parts.find(part => part.type === 'hour')!.value, 10);
+  const minute = parseInt(parts.find(part => part.type === 'minute')!.value, 10);
+  return hour * 60 + minute;
+}
+
+/**
+ * When the project is next due, or null if it has never synced (due immediately)
+ */
+export function getNextSyncAt(project: ScheduledProject): Date | null {
+  if (!project.lastSyncAt) {
+    return null;
+  }
+  
+  return new Date(project.lastSyncAt.getTime() + project.syncIntervalMinutes * 60 * 1000);
+}
+
+/**
+ * True when scheduled syncs are paused for the project; windows may wrap past midnight
+ */
+export function isWithinQuietHours(project: ScheduledProject, at: Date = new Date()): boolean {
+  if (!project.syncQuietHoursStart || !project.syncQuietHoursEnd) {
+    return false;
+  }
+  
+  const start = parseTimeOfDay(project.syncQuietHoursStart);
+  const end = parseTimeOfDay(project.syncQuietHoursEnd);
+  
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+  
+  const now = minutesOfDay(at);
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+}
+
+/**
+ * Queues a project sync job unless one is already queued or running for the project
+ */
+export async function queueProjectSync(
+  projectId: string,
+  triggeredBy: SyncTrigger,
+  options: QueueProjectSyncOptions = {}
+) {
+  const existing = await findActiveJob('SYNC_PROJECT', projectId);
+  
+  if (existing) {
+    log.debug({ projectId, triggeredBy, jobId: existing.id }, 'Sync already queued for project');
+    return { job: existing, created: false };
+  }
+  
+  const job = await enqueueJob(
+    'SYNC_PROJECT',
+    { projectId, triggeredBy, modules: options.modules },
+    { projectId, createdById: options.createdById }
+  );
+  
+  return { job, created: true };
+}
+
+/**
+ * Queues a sync for every enabled project whose interval has elapsed and that isn't in quiet hours
+ * Called on each scheduler tick; returns the number of syncs queued
+ */
+export async function runDueSyncs(now: Date = new Date()): Promise<number> {
+  if (tickRunning) {
+    log.debug('Previous scheduler tick still running, skipping');
+    return 0;
+  }
+  
+  tickRunning = true;
+  try {
+    const projects = await prisma.project.findMany({
+      where: {
+        isActive: true,
+        syncEnabled: true,
+        accProjectLinks: {
+          some: {},
+        },
+      },
+      select: {
+        id: true,
+        syncIntervalMinutes: true,
+        lastSyncAt: true,
+        syncQuietHoursStart: true,
+        syncQuietHoursEnd: true,
+      },
+      orderBy: { lastSyncAt: 'asc' },
+    });
+    
+    const due = projects.filter(project => {
+      const nextSyncAt = getNextSyncAt(project);
+      return (!nextSyncAt || nextSyncAt <= now) && !isWithinQuietHours(project, now);
+    });
+    
+    if (due.length === 0) {
+      return 0;
+    }
+    
+    log.info({ due: due.length, enabled: projects.length }, 'Projects due for sync');
+    
+    let queued = 0;
+    for (const project of due) {
+      try {
+        const { created } = await queueProjectSync(project.id, 'CRON');
+        if (created) {
+          queued++;
+        }
+      } catch (error) {
+        log.error({ projectId: project.id, error }, 'Failed to queue scheduled project sync');
+      }
+    }
+    
+    return queued;
+  } finally {
+    tickRunning = false;
+  }
+}
+
+/**
+ * Queues a sync when a project is opened, if it has opted in and is not fresh
+ * Quiet hours only pause scheduled syncs, so they don't apply here
+ */
+export async function syncOnProjectOpen(projectId: string): Promise<boolean> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      isActive: true,
+      syncEnabled: true,
+      syncOnOpen: true,
+      lastSyncAt: true,
+    },
+  });
+  
+  if (!project || !project.isActive || !project.syncEnabled || !project.syncOnOpen) {
+    return false;
+  }
+  
+  if (project.lastSyncAt && Date.now() - project.lastSyncAt.getTime() < PROJECT_OPEN_MIN_AGE_MS) {
+    return false;
+  }
+  
+  const { created } = await queueProjectSync(projectId, 'PROJECT_OPEN');
+  
+  if (created) {
+    log.info({ projectId }, 'Project opened, sync queued');
+  }
+  
+  return created;
+}
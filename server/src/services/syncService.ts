@@ -1,293 +1,711 @@
 /**
  * Sync Service
- * 
- * Handles polling RFIs/Submittals from ACC and tracking ingestion
+ * Single sync engine for ACC RFIs and Submittals, used by both the API and the cron job
+ * Module-specific fetching and persistence is delegated to the adapters in syncAdapters
  */
 
+import crypto from 'crypto';
 import { prisma } from '../lib/prisma';
 import { logger, createChildLogger } from '../lib/logger';
-import { hashData } from '../lib/crypto';
+import { config } from '../config';
+import { syncItemAttachments } from './attachmentService';
+import { generateItemExport } from './exportService';
+import { createNotification } from './notificationService';
+import { resolveLinkAccessToken } from './accTokenService';
+import { syncAdapters, type SyncAdapter, type SyncModule } from './syncAdapters';
 import {
-  listRFIs,
-  listSubmittals,
-  downloadAttachment,
-} from '../lib/accClient';
-import type { SyncModule, SyncResult, ACCRFI, ACCSubmittal } from '@acc-integration/shared';
+  acquireSyncLease,
+  setSyncLeaseLog,
+  startSyncLeaseHeartbeat,
+  releaseSyncLease,
+} from './syncLockService';
 
-const log = createChildLogger({ service: 'sync' });
+const log = createChildLogger({ module: 'syncService' });
+
+export type SyncTrigger = 'CRON' | 'MANUAL' | 'PROJECT_OPEN';
+
+export interface SyncProjectOptions {
+  modules?: SyncModule[]; // Restrict the run to these modules, defaults to everything enabled on each link
+}
+
+export interface ModuleSyncSummary {
+  accProjectLinkId: string;
+  module: SyncModule;
+  syncLogId: string;
+  success: boolean;
+  itemsProcessed: number;
+  newItems: number;
+  updatedItems: number;
+  errors: string[];
+  duration: number;
+}
+
+export interface SyncInProgress {
+  accProjectLinkId: string;
+  syncLogId: string | null; // Null while the other run is between modules
+  startedAt: Date;
+}
+
+export interface ProjectSyncOutcome {
+  results: ModuleSyncSummary[];
+  inProgress: SyncInProgress[]; // Links skipped because another run holds their lease
+}
+
+interface LinkSyncOutcome {
+  results: ModuleSyncSummary[];
+  inProgress?: SyncInProgress;
+}
+
+interface SyncResult {
+  itemsProcessed: number;
+  newItems: number;
+  updatedItems: number;
+  errors: string[]; // Listing or item failures; these hold the cursor back
+  fileErrors: string[]; // Attachment and export failures; flagged per item and retried without holding the cursor
+  cursor?: string; // Newest ACC updatedAt seen, used as the next sinceCursor
+  lastSeenId?: string;
+  seenAccIds: string[]; // Every ACC item ID returned by this run
+}
+
+// ACC statuses that take an item out of the live log
+const VOIDED_STATUSES = ['void', 'voided'];
 
 /**
- * Syncs a specific module (RFI or Submittal) for a project
+ * Synchronize all active projects
+ */
+export async function syncAllProjects(triggeredBy: SyncTrigger = 'CRON') {
+  log.info({ triggeredBy }, 'Starting sync for all active projects');
+  
+  const projects = await prisma.project.findMany({
+    where: {
+      isActive: true,
+      syncEnabled: true,
+      accProjectLinks: {
+        some: {},
+      },
+    },
+    select: { id: true },
+  });
+  
+  log.info({ count: projects.length }, 'Found enabled projects');
+  
+  for (const project of projects) {
+    try {
+      await syncProject(project.id, triggeredBy);
+    } catch (error) {
+      log.error({ projectId: project.id, error }, 'Failed to sync project');
+    }
+  }
+  
+  log.info('Completed sync for all active projects');
+}
+
+/**
+ * Synchronize a specific project (supports multiple ACC project links)
+ * Returns one summary per link and module that was synced, plus links another run is already syncing
  */
 export async function syncProject(
-  accessToken: string,
   projectId: string,
-  module: SyncModule,
-  triggeredBy: 'cron' | 'manual' | 'webhook'
-): Promise<SyncResult> {
+  triggeredBy: SyncTrigger = 'MANUAL',
+  options: SyncProjectOptions = {}
+): Promise<ProjectSyncOutcome> {
+  log.info({ projectId, triggeredBy, modules: options.modules }, 'Starting project sync');
+  
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      accProjectLinks: {
+        include: {
+          oauthToken: true,
+        },
+      },
+    },
+  });
+  
+  if (!project || !project.accProjectLinks || project.accProjectLinks.length === 0) {
+    log.warn({ projectId }, 'Project not found or has no ACC links');
+    return { results: [], inProgress: [] };
+  }
+  
+  const adapters = options.modules
+    ? syncAdapters.filter(adapter => options.modules!.includes(adapter.module))
+    : syncAdapters;
+  
+  // Sync each ACC project link independently so one bad link doesn't block the rest
+  const outcome: ProjectSyncOutcome = { results: [], inProgress: [] };
+  for (const accProjectLink of project.accProjectLinks) {
+    const linkOutcome = await syncAccProjectLink(project, accProjectLink, adapters, triggeredBy);
+    outcome.results.push(...linkOutcome.results);
+    if (linkOutcome.inProgress) {
+      outcome.inProgress.push(linkOutcome.inProgress);
+    }
+  }
+  
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { lastSyncAt: new Date() },
+  });
+  
+  log.info({ projectId }, 'Project sync completed');
+  
+  return outcome;
+}
+
+/**
+ * Sync the enabled modules of one ACC project link and record its overall status
+ * Runs under the link's sync lease; if another run holds it, the link is skipped
+ */
+async function syncAccProjectLink(
+  project: any,
+  accProjectLink: any,
+  adapters: SyncAdapter[],
+  triggeredBy: SyncTrigger
+): Promise<LinkSyncOutcome> {
+  log.info({
+    projectId: project.id,
+    accProjectLinkId: accProjectLink.id,
+    accProjectId: accProjectLink.accProjectId,
+    folderName: accProjectLink.folderName
+  }, 'Syncing ACC project link');
+  
+  const enabledAdapters = adapters.filter(adapter => adapter.isEnabled(accProjectLink));
+  
+  if (enabledAdapters.length === 0) {
+    log.info({ accProjectLinkId: accProjectLink.id }, 'No enabled modules for link, skipping');
+    return { results: [] };
+  }
+  
+  const lease = await acquireSyncLease(accProjectLink.id);
+  
+  if (!lease.acquired) {
+    log.info({
+      accProjectLinkId: accProjectLink.id,
+      holderId: lease.lease.holderId,
+      syncLogId: lease.lease.syncLogId,
+    }, 'Link is already being synced, skipping');
+    
+    return {
+      results: [],
+      inProgress: {
+        accProjectLinkId: accProjectLink.id,
+        syncLogId: lease.lease.syncLogId,
+        startedAt: lease.lease.acquiredAt,
+      },
+    };
+  }
+  
+  const stopHeartbeat = startSyncLeaseHeartbeat(accProjectLink.id);
+  
+  try {
+    await prisma.accProjectLink.update({
+      where: { id: accProjectLink.id },
+      data: { lastSyncStatus: 'in_progress' },
+    });
+    
+    const summaries: ModuleSyncSummary[] = [];
+    for (const adapter of enabledAdapters) {
+      summaries.push(await syncProjectModule(project, accProjectLink, adapter, triggeredBy));
+    }
+    
+    const errors = summaries.flatMap(summary => summary.errors.map(error => `${summary.module}: ${error}`));
+    
+    await prisma.accProjectLink.update({
+      where: { id: accProjectLink.id },
+      data: {
+        lastSyncStatus: errors.length > 0 ? 'failed' : 'success',
+        lastSyncError: errors.length > 0 ? errors.join('; ') : null,
+      },
+    });
+    
+    return { results: summaries };
+  } finally {
+    stopHeartbeat();
+    await releaseSyncLease(accProjectLink.id);
+  }
+}
+
+/**
+ * Sync one module of one ACC project link with comprehensive error handling
+ */
+async function syncProjectModule(
+  project: any,
+  accProjectLink: any,
+  adapter: SyncAdapter,
+  triggeredBy: SyncTrigger
+): Promise<ModuleSyncSummary> {
   const startTime = Date.now();
-  const errors: string[] = [];
-  let itemsProcessed = 0;
-  let newItems = 0;
+  const projectId = project.id;
+  const module = adapter.module;
+  
+  log.info({ projectId, module, accProjectLinkId: accProjectLink.id }, 'Starting module sync');
   
-  // Create sync log entry
   const syncLog = await prisma.syncLog.create({
     data: {
       projectId,
+      accProjectLinkId: accProjectLink.id,
       module,
-      status: 'started',
+      status: 'STARTED',
       triggeredBy,
     },
   });
   
-  log.info({ projectId, module, syncLogId: syncLog.id }, 'Starting sync');
+  await setSyncLeaseLog(accProjectLink.id, syncLog.id);
   
   try {
-    // Get current cursor
     const cursor = await prisma.syncCursor.findUnique({
       where: {
-        projectId_module: { projectId, module },
+        accProjectLinkId_module: { accProjectLinkId: accProjectLink.id, module },
       },
     });
     
-    const sinceCursor = cursor?.cursorToken || undefined;
+    // Incremental unless we've never synced this link or the last full reconcile is too old
+    const reconcileDueAt = cursor?.lastFullSyncAt
+      ? cursor.lastFullSyncAt.getTime() + config.fullReconcileHours * 60 * 60 * 1000
+      : 0;
+    const isFullSync = !cursor?.cursorToken || Date.now() >= reconcileDueAt;
+    const sinceCursor = isFullSync ? undefined : cursor!.cursorToken!;
     
-    // Fetch items based on module type
-    const items = module === 'rfi'
-      ? await fetchRFIs(accessToken, projectId, sinceCursor)
-      : await fetchSubmittals(accessToken, projectId, sinceCursor);
+    log.info({ projectId, module, accProjectLinkId: accProjectLink.id, isFullSync, sinceCursor }, 'Fetching changes from ACC');
     
-    itemsProcessed = items.data.length;
+    const result = await syncItems(adapter, project, accProjectLink, sinceCursor);
     
-    // Process each item
-    for (const item of items.data) {
-      try {
-        const isNew = await processItem(projectId, module, item);
-        if (isNew) newItems++;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        errors.push(`Failed to process ${module} ${item.id}: ${errorMessage}`);
-        log.error({ projectId, module, itemId: item.id, error }, 'Failed to process item');
-      }
-    }
+    // Only move the cursor forward when every item was saved, otherwise the failed ones would be
+    // skipped until the next full reconcile; file failures are retried through the item's own flag
+    const now = new Date();
+    const advanceCursor = result.errors.length === 0;
+    const errors = [...result.errors, ...result.fileErrors];
     
-    // Update cursor
     await prisma.syncCursor.upsert({
       where: {
-        projectId_module: { projectId, module },
+        accProjectLinkId_module: { accProjectLinkId: accProjectLink.id, module },
       },
       create: {
         projectId,
+        accProjectLinkId: accProjectLink.id,
         module,
-        lastSeenAt: new Date(),
-        lastSeenId: items.data[items.data.length - 1]?.id,
-        cursorToken: items.cursor,
+        lastSeenAt: now,
+        lastSeenId: result.lastSeenId,
+        cursorToken: advanceCursor ? result.cursor : undefined,
+        lastFullSyncAt: isFullSync && advanceCursor ? now : undefined,
       },
       update: {
-        lastSeenAt: new Date(),
-        lastSeenId: items.data[items.data.length - 1]?.id,
-        cursorToken: items.cursor,
+        lastSeenAt: now,
+        lastSeenId: result.lastSeenId ?? undefined,
+        cursorToken: advanceCursor ? result.cursor : undefined,
+        lastFullSyncAt: isFullSync && advanceCursor ? now : undefined,
       },
     });
     
+    // A full reconcile sees every live item, so anything missing was deleted in ACC
+    if (isFullSync) {
+      const tombstoned = await tombstoneUnseenItems(adapter, accProjectLink.id, result.seenAccIds);
+      log.info({ projectId, module, accProjectLinkId: accProjectLink.id, tombstoned }, 'Full reconcile completed');
+    }
+    
     const duration = Date.now() - startTime;
     
-    // Update sync log
     await prisma.syncLog.update({
       where: { id: syncLog.id },
       data: {
-        status: errors.length > 0 ? 'completed_with_errors' : 'completed',
-        itemsProcessed,
-        newItems,
+        status: 'COMPLETED',
+        itemsProcessed: result.itemsProcessed,
+        newItems: result.newItems,
+        updatedItems: result.updatedItems,
         errors: errors.length > 0 ? JSON.stringify(errors) : null,
         duration,
         completedAt: new Date(),
       },
     });
     
-    log.info({
-      projectId,
-      module,
-      itemsProcessed,
-      newItems,
-      errors: errors.length,
-      duration,
-    }, 'Sync completed');
+    const { seenAccIds, ...summary } = result;
+    log.info({ projectId, module, accProjectLinkId: accProjectLink.id, duration, ...summary }, 'Module sync completed');
     
     return {
-      projectId,
+      accProjectLinkId: accProjectLink.id,
       module,
-      success: true,
-      itemsProcessed,
-      newItems,
+      syncLogId: syncLog.id,
+      success: errors.length === 0,
+      itemsProcessed: result.itemsProcessed,
+      newItems: result.newItems,
+      updatedItems: result.updatedItems,
       errors,
       duration,
-      cursor: items.cursor,
     };
   } catch (error) {
     const duration = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    
+    log.error({ projectId, module, accProjectLinkId: accProjectLink.id, error }, 'Module sync failed');
     
-    // Update sync log with failure
     await prisma.syncLog.update({
       where: { id: syncLog.id },
       data: {
-        status: 'failed',
-        itemsProcessed,
-        newItems,
-        errors: JSON.stringify([errorMessage, ...errors]),
+        status: 'FAILED',
+        errors: JSON.stringify([errorMessage]),
         duration,
         completedAt: new Date(),
       },
     });
     
-    log.error({ projectId, module, error }, 'Sync failed');
-    
     return {
-      projectId,
+      accProjectLinkId: accProjectLink.id,
       module,
+      syncLogId: syncLog.id,
       success: false,
-      itemsProcessed,
-      newItems,
-      errors: [errorMessage, ...errors],
+      itemsProcessed: 0,
+      newItems: 0,
+      updatedItems: 0,
+      errors: [errorMessage],
       duration,
     };
   }
 }
 
 /**
- * Fetches RFIs from ACC
+ * Fetch a module's items from ACC and process each one with change detection
  */
-async function fetchRFIs(
-  accessToken: string,
-  projectId: string,
+async function syncItems(
+  adapter: SyncAdapter,
+  project: any,
+  accProjectLink: any,
   sinceCursor?: string
-): Promise<{ data: ACCRFI[]; cursor?: string }> {
-  const response = await listRFIs(accessToken, projectId, sinceCursor);
-  return {
-    data: response.data,
-    cursor: response.cursor,
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    itemsProcessed: 0,
+    newItems: 0,
+    updatedItems: 0,
+    errors: [],
+    fileErrors: [],
+    seenAccIds: [],
   };
+  
+  const { accessToken } = await resolveLinkAccessToken(accProjectLink);
+  const knownUpdatedAt = await adapter.listKnownUpdatedAt(accProjectLink.id);
+  const { data: accItems, cursor } = await adapter.list(accessToken, accProjectLink.accProjectId, sinceCursor, knownUpdatedAt);
+  result.cursor = cursor;
+  result.lastSeenId = accItems[accItems.length - 1]?.id;
+  result.seenAccIds = accItems.map(item => item.id);
+  
+  log.info({ projectId: project.id, accProjectLinkId: accProjectLink.id, module: adapter.module, count: accItems.length }, 'Fetched items from ACC');
+  
+  for (const accItem of accItems) {
+    result.itemsProcessed++;
+    
+    try {
+      const isNew = await processItem(adapter, project, accProjectLink, accItem, accessToken, result.fileErrors);
+      if (isNew) {
+        result.newItems++;
+      } else {
+        result.updatedItems++;
+      }
+    } catch (error) {
+      const errorMessage = `${adapter.label} ${accItem.id}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push(errorMessage);
+      log.error({ module: adapter.module, accItemId: accItem.id, error }, 'Failed to process item');
+    }
+  }
+  
+  // Items whose files failed on an earlier run and weren't handled above: not in this batch (incremental runs
+  // only return changed items) or returned without details because they haven't changed
+  const filesHandled = new Set(accItems.filter(item => !item.detailsSkipped).map(item => item.id));
+  const retryItems = (await adapter.listNeedingFileRetry(accProjectLink.id)).filter(item => !filesHandled.has(item.accId));
+  
+  for (const retryItem of retryItems) {
+    try {
+      const attachments = retryItem.pendingAttachments ? JSON.parse(retryItem.pendingAttachments) : [];
+      await syncItemFiles(adapter, project, accProjectLink, retryItem, attachments, accessToken, result.fileErrors);
+    } catch (error) {
+      result.fileErrors.push(`${adapter.label} ${retryItem.accNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      log.error({ module: adapter.module, itemId: retryItem.id, error }, 'Failed to retry item files');
+    }
+  }
+  
+  if (retryItems.length > 0) {
+    log.info({ accProjectLinkId: accProjectLink.id, module: adapter.module, count: retryItems.length }, 'Retried item files');
+  }
+  
+  return result;
 }
 
 /**
- * Fetches Submittals from ACC
+ * Mirrors an item's ACC attachments into the network folder and regenerates its combined export
+ * Failures are reported and flag the item for another attempt on the next sync; success clears the flag
  */
-async function fetchSubmittals(
+async function syncItemFiles(
+  adapter: SyncAdapter,
+  project: any,
+  accProjectLink: any,
+  item: { id: string; accNumber: string },
+  attachments: any[],
   accessToken: string,
-  projectId: string,
-  sinceCursor?: string
-): Promise<{ data: ACCSubmittal[]; cursor?: string }> {
-  const response = await listSubmittals(accessToken, projectId, sinceCursor);
-  return {
-    data: response.data,
-    cursor: response.cursor,
-  };
+  fileErrors: string[]
+): Promise<void> {
+  const itemErrors: string[] = [];
+  
+  const attachmentResult = await syncItemAttachments(
+    {
+      itemType: adapter.module,
+      itemId: item.id,
+      itemNumber: item.accNumber,
+      networkBasePath: project.networkBasePath,
+      folderName: accProjectLink.folderName,
+      accProjectId: accProjectLink.accProjectId,
+    },
+    attachments,
+    accessToken
+  );
+  itemErrors.push(...attachmentResult.errors);
+  
+  // Regenerate the combined export when the ACC data or its attachments changed
+  try {
+    await generateItemExport(adapter.module, item.id, { force: attachmentResult.downloaded > 0 });
+  } catch (error) {
+    itemErrors.push(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    log.error({ module: adapter.module, itemId: item.id, error }, 'Failed to generate combined export');
+  }
+  
+  fileErrors.push(...itemErrors.map(error => `${adapter.label} ${item.accNumber}: ${error}`));
+  await adapter.setFileRetry(item.id, itemErrors.length > 0 ? attachments : null);
 }
 
 /**
- * Processes a single item (RFI or Submittal)
- * Returns true if the item is new, false if already ingested
+ * Process an individual RFI or Submittal with change detection
  */
 async function processItem(
-  projectId: string,
-  module: SyncModule,
-  item: ACCRFI | ACCSubmittal
+  adapter: SyncAdapter,
+  project: any,
+  accProjectLink: any,
+  accItem: any,
+  accessToken: string,
+  fileErrors: string[]
 ): Promise<boolean> {
-  // Create hash of item payload for change detection
-  const payloadHash = hashData(JSON.stringify(item));
+  const accDataHash = hashAccData(accItem);
   
-  // Check if already ingested
-  const existing = await prisma.ingestedItem.findUnique({
-    where: {
-      externalId_module_projectId: {
-        externalId: item.externalId,
-        module,
-        projectId,
-      },
-    },
-  });
+  const existing = await adapter.findExisting(accProjectLink.id, accItem.id);
+  
+  const now = new Date();
+  let hasUnacknowledgedChange = false;
+  let changesSummary = null;
+  
+  // Detect manual response added directly in ACC
+  let hasManualResponse = false;
+  let manualResponseData = null;
   
   if (existing) {
-    // Update last seen and check for changes
-    if (existing.payloadHash !== payloadHash) {
-      await prisma.ingestedItem.update({
-        where: { id: existing.id },
-        data: {
-          payloadHash,
-          lastSeenAt: new Date(),
-        },
-      });
-      log.debug({ externalId: item.externalId, module }, 'Item updated');
-    } else {
-      await prisma.ingestedItem.update({
-        where: { id: existing.id },
-        data: { lastSeenAt: new Date() },
+    if (existing.accDataHash !== accDataHash) {
+      hasUnacknowledgedChange = true;
+      changesSummary = detectChanges(existing, accItem);
+    }
+    
+    // Check if ACC has a response that we didn't send
+    if (accItem.response && accItem.response.text && !existing.responseSentAt && !isRejectedManualResponse(existing, accItem.response)) {
+      hasManualResponse = true;
+      manualResponseData = JSON.stringify({
+        status: accItem.response.status || accItem.status,
+        text: accItem.response.text,
+        respondedBy: accItem.response.respondedBy,
+        respondedAt: accItem.response.respondedAt,
+        detectedAt: now.toISOString(),
       });
+      
+      log.info({
+        module: adapter.module,
+        accItemId: accItem.id,
+        accNumber: accItem.number,
+        responseSentAt: existing.responseSentAt
+      }, 'Manual response detected in ACC - requires admin confirmation');
+    }
+  }
+  
+  const voided = VOIDED_STATUSES.includes(String(accItem.status).toLowerCase());
+  
+  const accFields = {
+    ...adapter.mapFields(accItem),
+    accStatus: accItem.status,
+    priority: accItem.priority,
+    accCreatedBy: accItem.createdBy,
+    accAssignedTo: JSON.stringify(accItem.assignedTo || []),
+    accDueDate: accItem.dueDate ? new Date(accItem.dueDate) : null,
+    accDescription: accItem.description,
+    accContractorComments: accItem.contractorComments,
+    accUpdatedAt: new Date(accItem.updatedAt || accItem.createdAt),
+    accDataHash,
+    isDeleted: voided,
+    lastSeenAt: now,
+  };
+  
+  const item = await adapter.upsert(
+    accProjectLink.id,
+    accItem.id,
+    {
+      ...accFields,
+      projectId: project.id,
+      accProjectLinkId: accProjectLink.id,
+      accNumber: accItem.number || accItem.id,
+      accCreatedAt: new Date(accItem.createdAt),
+      firstSeenAt: now,
+    },
+    {
+      ...accFields,
+      hasUnacknowledgedChange,
+      lastAccChangeAt: hasUnacknowledgedChange ? now : undefined,
+      changesSummary: hasUnacknowledgedChange ? JSON.stringify(changesSummary) : undefined,
+      hasManualResponse: hasManualResponse ? true : undefined,
+      manualResponseDetectedAt: hasManualResponse ? now : undefined,
+      manualResponseData: hasManualResponse ? manualResponseData : undefined,
     }
+  );
+  
+  if (existing && hasUnacknowledgedChange) {
+    await prisma.statusHistory.create({
+      data: {
+        ...adapter.itemRef(existing.id),
+        fieldName: 'accData',
+        oldValue: existing.accStatus,
+        newValue: accItem.status,
+        changeReason: 'ACC sync detected change',
+      },
+    });
+  }
+  
+  if (existing && existing.isDeleted !== voided) {
+    await recordDeletionChange(adapter, item.id, item.accNumber, voided, voided ? 'Voided in ACC' : 'Restored in ACC');
+  }
+  
+  // Unchanged items came back without attachments; their files were mirrored when they last changed
+  if (!accItem.detailsSkipped) {
+    await syncItemFiles(adapter, project, accProjectLink, item, accItem.attachments || [], accessToken, fileErrors);
+  }
+  
+  return !existing;
+}
+
+/**
+ * Hash ACC data for change detection
+ */
+function hashAccData(data: any): string {
+  const relevantData = {
+    status: data.status,
+    dueDate: data.dueDate,
+    title: data.title,
+    description: data.description,
+    priority: data.priority,
+    assignedTo: data.assignedTo,
+    updatedAt: data.updatedAt,
+  };
+  
+  return crypto.createHash('sha256')
+    .update(JSON.stringify(relevantData))
+    .digest('hex');
+}
+
+/**
+ * Detect specific changes
+ */
+function detectChanges(existing: any, accData: any): Record<string, any> {
+  const changes: Record<string, any> = {};
+  
+  if (existing.accStatus !== accData.status) {
+    changes.status = { old: existing.accStatus, new: accData.status };
+  }
+  
+  if (existing.title !== accData.title) {
+    changes.title = { old: existing.title, new: accData.title };
+  }
+  
+  const existingDueDate = existing.accDueDate?.toISOString();
+  const newDueDate = accData.dueDate ? new Date(accData.dueDate).toISOString() : null;
+  if (existingDueDate !== newDueDate) {
+    changes.dueDate = { old: existingDueDate, new: newDueDate };
+  }
+  
+  if (existing.priority !== accData.priority) {
+    changes.priority = { old: existing.priority, new: accData.priority };
+  }
+  
+  return changes;
+}
+
+/**
+ * True when an admin already rejected this exact ACC response, so it is not queued again
+ */
+function isRejectedManualResponse(existing: any, response: any): boolean {
+  if (!existing.manualResponseRejectedAt || !existing.manualResponseData) {
+    return false;
+  }
+  
+  try {
+    const rejected = JSON.parse(existing.manualResponseData);
+    return rejected.text === response.text && rejected.respondedAt === response.respondedAt;
+  } catch {
     return false;
   }
+}
+
+/**
+ * Records a tombstone or restore in status history and tells every assignee
+ */
+async function recordDeletionChange(
+  adapter: SyncAdapter,
+  itemId: string,
+  accNumber: string,
+  isDeleted: boolean,
+  reason: string
+) {
+  const itemRef = adapter.itemRef(itemId);
   
-  // New item - create record
-  await prisma.ingestedItem.create({
+  await prisma.statusHistory.create({
     data: {
-      externalId: item.externalId,
-      module,
-      projectId,
-      payloadHash,
+      ...itemRef,
+      fieldName: 'isDeleted',
+      oldValue: String(!isDeleted),
+      newValue: String(isDeleted),
+      changeReason: reason,
     },
   });
   
-  log.info({ externalId: item.externalId, module, projectId }, 'New item ingested');
-  
-  // TODO: Process attachments if needed
-  // if (item.attachments) {
-  //   for (const attachment of item.attachments) {
-  //     await downloadAttachment(accessToken, {
-  //       id: attachment.id,
-  //       urn: attachment.urn,
-  //       projectId,
-  //       module,
-  //       fileName: attachment.name,
-  //     });
-  //   }
-  // }
-  
-  return true;
+  const assigneeIds = await adapter.listAssigneeIds(itemId);
+  
+  for (const userId of assigneeIds) {
+    await createNotification({
+      userId,
+      type: 'ACC_CHANGE',
+      title: isDeleted
+        ? `${adapter.label} ${accNumber} removed from ACC`
+        : `${adapter.label} ${accNumber} restored in ACC`,
+      message: isDeleted
+        ? `${adapter.label} ${accNumber} was deleted or voided in ACC and has been removed from your queue (${reason})`
+        : `${adapter.label} ${accNumber} is back in ACC and has been restored to your queue`,
+      ...itemRef,
+    });
+  }
+  
+  log.info({ module: adapter.module, itemId, accNumber, isDeleted, reason }, 'Item deletion state changed');
 }
 
 /**
- * Runs sync for all enabled projects
- * Called by the cron job
+ * After a full reconcile, tombstones live items on the link that ACC no longer returns
  */
-export async function syncAllEnabledProjects(getAccessToken: (projectId: string) => Promise<string | null>): Promise<void> {
-  log.info('Starting scheduled sync for all enabled projects');
+async function tombstoneUnseenItems(
+  adapter: SyncAdapter,
+  accProjectLinkId: string,
+  seenAccIds: string[]
+): Promise<number> {
+  const liveItems = await adapter.listLive(accProjectLinkId);
   
-  const enabledProjects = await prisma.enabledProject.findMany({
-    where: { isActive: true },
-  });
-  
-  if (enabledProjects.length === 0) {
-    log.info('No enabled projects to sync');
-    return;
+  // An empty response against a populated log is far more likely an ACC hiccup than a mass delete
+  if (seenAccIds.length === 0 && liveItems.length > 0) {
+    log.warn({ module: adapter.module, accProjectLinkId, liveItems: liveItems.length }, 'ACC returned no items, skipping tombstoning');
+    return 0;
   }
   
-  for (const project of enabledProjects) {
-    const accessToken = await getAccessToken(project.projectId);
-    
-    if (!accessToken) {
-      log.warn({ projectId: project.projectId }, 'No valid token for project, skipping');
-      continue;
-    }
-    
-    if (project.syncRfis) {
-      await syncProject(accessToken, project.projectId, 'rfi', 'cron');
-    }
-    
-    if (project.syncSubs) {
-      await syncProject(accessToken, project.projectId, 'submittal', 'cron');
-    }
+  const seen = new Set(seenAccIds);
+  const missing = liveItems.filter(item => !seen.has(item.accId));
+  
+  for (const item of missing) {
+    await adapter.markDeleted(item.id);
+    await recordDeletionChange(adapter, item.id, item.accNumber, true, 'Not found in ACC during full reconcile');
   }
   
-  log.info('Scheduled sync completed');
+  return missing.length;
 }
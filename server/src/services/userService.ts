@@ -3,14 +3,36 @@
  * Handles user management, authentication, and authorization
  */
 
+import crypto from 'crypto';
 import { prisma } from '../lib/prisma';
 import { logger, createChildLogger } from '../lib/logger';
 import { hash, compare } from 'bcrypt';
+import { config } from '../config';
+import { hashData } from '../lib/crypto';
+import { sendMail } from '../lib/mailer';
+import { revokeAllUserSessions } from './sessionService';
 
 const log = createChildLogger({ module: 'userService' });
 
 const SALT_ROUNDS = 10;
 
+export const MIN_PASSWORD_LENGTH = 10;
+
+// Compared against when the email is unknown, so a miss takes as long as a wrong password
+const DUMMY_PASSWORD_HASH = '$2b$10$CwTycUXWue0Thq9StjUM0uJ8.jK5yDqZ8Nq9Ga6Y3nEGzAtR0Wq2e';
+
+export const PROJECT_ROLES = ['PROJECT_ADMIN', 'REVIEWER', 'QC_REVIEWER', 'VIEWER'];
+
+// Roles that can change workflow state (everyone except read-only viewers)
+export const CONTRIBUTOR_ROLES = ['PROJECT_ADMIN', 'REVIEWER', 'QC_REVIEWER'];
+
+/**
+ * Emails are stored and looked up trimmed and lower-cased, whichever sign-in method supplied them
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
 export interface CreateUserDto {
   email: string;
   password: string;
@@ -28,13 +50,14 @@ export interface UpdateUserDto {
  * Create a new user with hashed password
  */
 export async function createUser(data: CreateUserDto) {
-  log.info({ email: data.email }, 'Creating new user');
+  const email = normalizeEmail(data.email);
+  log.info({ email }, 'Creating new user');
   
   const passwordHash = await hash(data.password, SALT_ROUNDS);
   
   const user = await prisma.user.create({
     data: {
-      email: data.email,
+      email,
       passwordHash,
       firstName: data.firstName,
       lastName: data.lastName,
@@ -58,7 +81,7 @@ export async function createUser(data: CreateUserDto) {
  */
 export async function verifyCredentials(email: string, password: string) {
   const user = await prisma.user.findUnique({
-    where: { email },
+    where: { email: normalizeEmail(email) },
   });
   
   if (!user || !user.passwordHash) {
@@ -85,6 +108,181 @@ export async function verifyCredentials(email: string, password: string) {
   };
 }
 
+export type LocalLoginResult =
+  | { status: 'ok'; user: { id: string; email: string; firstName: string; lastName: string } }
+  | { status: 'invalid' }
+  | { status: 'locked'; lockedUntil: Date };
+
+/**
+ * Checks an email/password login, locking the account after repeated failures
+ */
+export async function attemptLocalLogin(email: string, password: string): Promise<LocalLoginResult> {
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+  
+  if (!user || !user.passwordHash || !user.isActive) {
+    await compare(password, DUMMY_PASSWORD_HASH);
+    return { status: 'invalid' };
+  }
+  
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    return { status: 'locked', lockedUntil: user.lockedUntil };
+  }
+  
+  if (!await compare(password, user.passwordHash)) {
+    // Incremented in the database so parallel guesses each count
+    const { failedLoginCount } = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: { increment: 1 } },
+      select: { failedLoginCount: true },
+    });
+    
+    if (failedLoginCount < config.loginMaxAttempts) {
+      return { status: 'invalid' };
+    }
+    
+    const lockedUntil = new Date(Date.now() + config.loginLockoutMinutes * 60 * 1000);
+    
+    const locked = await prisma.user.updateMany({
+      where: { id: user.id, failedLoginCount: { gte: config.loginMaxAttempts } },
+      data: {
+        // The count starts over once the lockout expires
+        failedLoginCount: 0,
+        lockedUntil,
+      },
+    });
+    
+    if (locked.count > 0) {
+      log.warn({ userId: user.id, lockedUntil }, 'Account locked after repeated failed logins');
+    }
+    
+    return { status: 'locked', lockedUntil };
+  }
+  
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date(), failedLoginCount: 0, lockedUntil: null },
+  });
+  
+  return {
+    status: 'ok',
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+    },
+  };
+}
+
+/**
+ * Emails a one-time password reset link; does nothing (silently) for unknown or inactive accounts
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+  
+  if (!user || !user.isActive) {
+    log.info({ email }, 'Password reset requested for unknown or inactive account');
+    return;
+  }
+  
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.passwordResetTtlMinutes * 60 * 1000);
+  
+  // Only the newest link works
+  await prisma.passwordResetToken.deleteMany({
+    where: { userId: user.id, usedAt: null },
+  });
+  
+  await prisma.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashData(token),
+      expiresAt,
+    },
+  });
+  
+  const resetUrl = `${config.webOrigin}/auth/reset-password?token=${encodeURIComponent(token)}`;
+  
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Use the link below to choose a new password. It can be used once and expires in '
+        + `${config.passwordResetTtlMinutes} minutes.`,
+      '',
+      resetUrl,
+      '',
+      'If you did not ask for this, you can ignore this email.',
+    ].join('\n'),
+  });
+  
+  log.info({ userId: user.id }, 'Password reset email sent');
+}
+
+/**
+ * Sets a new password using a reset token and signs the user out everywhere;
+ * returns false if the token is unknown, used or expired
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<boolean> {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashData(token) },
+  });
+  
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+    return false;
+  }
+  
+  // Mark used first so a second request with the same token can't also succeed
+  const claimed = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  
+  if (claimed.count === 0) {
+    return false;
+  }
+  
+  await prisma.user.update({
+    where: { id: resetToken.userId },
+    data: {
+      passwordHash: await hash(newPassword, SALT_ROUNDS),
+      failedLoginCount: 0,
+      lockedUntil: null,
+    },
+  });
+  
+  // Anyone signed in with the old password is signed out
+  await revokeAllUserSessions(resetToken.userId);
+  
+  log.info({ userId: resetToken.userId }, 'Password reset');
+  return true;
+}
+
+/**
+ * Finds the active internal user for an Autodesk sign-in by email; Autodesk sign-in never creates accounts
+ */
+export async function findUserForAccProfile(profile: { emailId: string }) {
+  const existing = await prisma.user.findUnique({
+    where: { email: normalizeEmail(profile.emailId) },
+  });
+  
+  if (!existing || !existing.isActive) {
+    return null;
+  }
+  
+  await prisma.user.update({
+    where: { id: existing.id },
+    data: { lastLoginAt: new Date() },
+  });
+  return existing;
+}
+
 /**
  * Get user by ID
  */
@@ -108,7 +306,7 @@ export async function getUserById(userId: string) {
  */
 export async function getUserByEmail(email: string) {
   return prisma.user.findUnique({
-    where: { email },
+    where: { email: normalizeEmail(email) },
     select: {
       id: true,
       email: true,
@@ -179,43 +377,12 @@ export async function getUserProjectMemberships(userId: string) {
 }
 
 /**
- * Check if user has role in project
- */
-export async function hasProjectRole(
-  userId: string,
-  projectId: string,
-  requiredRoles: string[]
-): Promise<boolean> {
-  const membership = await prisma.projectMembership.findUnique({
-    where: {
-      projectId_userId: { projectId, userId },
-    },
-  });
-  
-  if (!membership) {
-    return false;
-  }
-  
-  return requiredRoles.includes(membership.role);
-}
-
-/**
- * Check if user has specific permission in project
+ * Get a user's membership in a project
  */
-export async function hasProjectPermission(
-  userId: string,
-  projectId: string,
-  permission: 'canAssign' | 'canSendToAcc' | 'canEditSettings'
-): Promise<boolean> {
-  const membership = await prisma.projectMembership.findUnique({
+export async function getProjectMembership(userId: string, projectId: string) {
+  return prisma.projectMembership.findUnique({
     where: {
       projectId_userId: { projectId, userId },
     },
   });
-  
-  if (!membership) {
-    return false;
-  }
-  
-  return membership[permission];
 }
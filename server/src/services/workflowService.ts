@@ -134,14 +134,14 @@ export async function autoAssign(
   }
 }
 
+// Set by sending a response (or confirming one made in ACC), never by editing the status directly
+export const SEND_ONLY_STATUSES = ['SENT_TO_ACC'];
+
 /**
- * Validate status transition
+ * Whether the workflow allows moving an item from one internal status to another
+ * (who may make the move is decided by policyService.getStatusChangePermission)
  */
-export function canTransitionStatus(
-  currentStatus: string,
-  newStatus: string,
-  userRole: string
-): boolean {
+export function isValidStatusTransition(currentStatus: string, newStatus: string): boolean {
   const transitions: Record<string, string[]> = {
     UNASSIGNED: ['ASSIGNED_FOR_REVIEW'],
     ASSIGNED_FOR_REVIEW: ['UNDER_REVIEW', 'UNASSIGNED'],
@@ -152,24 +152,5 @@ export function canTransitionStatus(
     CLOSED: [],
   };
   
-  const allowedTransitions = transitions[currentStatus] || [];
-  
-  if (!allowedTransitions.includes(newStatus)) {
-    return false;
-  }
-  
-  // Role-based restrictions
-  if (userRole === 'VIEWER') {
-    return false;
-  }
-  
-  if (userRole === 'REVIEWER' && ['SENT_TO_ACC', 'CLOSED'].includes(newStatus)) {
-    return false;
-  }
-  
-  if (userRole === 'QC_REVIEWER' && ['SENT_TO_ACC', 'CLOSED'].includes(newStatus)) {
-    return false;
-  }
-  
-  return true;
+  return (transitions[currentStatus] || []).includes(newStatus);
 }
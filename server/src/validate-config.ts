@@ -3,7 +3,7 @@
  * Run this to verify all required credentials are configured
  */
 
-import { config } from './config';
+import { config, getEncryptionKeyErrors, getEntraConfigErrors } from './config';
 import { logger } from './lib/logger';
 
 const log = logger.child({ module: 'config-validator' });
@@ -34,8 +34,21 @@ export function validateConfig() {
   }
   
   // Check security keys
-  if (config.tokenEncryptionKey === 'dev_key_change_in_production_32chars!' && config.nodeEnv === 'production') {
-    errors.push('TOKEN_ENCRYPTION_KEY is using default value in production');
+  const keyErrors = getEncryptionKeyErrors();
+  if (keyErrors.length > 0) {
+    keyErrors.forEach(keyError => errors.push(`Token encryption: ${keyError}`));
+  } else {
+    log.info({ activeKeyId: config.tokenEncryptionKeys[0].id, keyCount: config.tokenEncryptionKeys.length }, 'Token encryption keys configured');
+  }
+  
+  // Check SSO (optional)
+  const entraErrors = getEntraConfigErrors();
+  if (entraErrors.length > 0) {
+    entraErrors.forEach(entraError => errors.push(`Entra ID: ${entraError}`));
+  } else if (config.entra.enabled) {
+    log.info({ issuer: config.entra.issuer, groupMappings: config.entra.groupRoleMappings.length }, 'Entra ID sign-in configured');
+  } else {
+    log.info('Entra ID sign-in disabled (ENTRA_CLIENT_ID not set)');
   }
   
   if (config.sessionSecret === 'session_secret_change_in_production' && config.nodeEnv === 'production') {
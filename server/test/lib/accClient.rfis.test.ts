@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startAccStandIn, type AccStandIn } from '../support/accStandIn';
+
+// No project link, so requests share the default rate-limit bucket
+vi.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    accProjectLink: { findFirst: vi.fn().mockResolvedValue(null) },
+  },
+}));
+
+const PROJECT_ID = 'b.5e7c2b1a-93f4-4c8e-b0d2-7a61f3e9c410';
+const RFIS_PATH = '/construction/rfis/v2/projects/5e7c2b1a-93f4-4c8e-b0d2-7a61f3e9c410/rfis';
+const BEAM_POCKET_RFI = 'a1f0c6d2-1b7e-4e55-9d0c-3f2b8e4a7c01';
+const REBAR_RFI = 'b2e1d7e3-2c8f-4f66-8e1d-4a3c9f5b8d02';
+const DRAFT_RFI = 'c3f2e8f4-3d9a-4a77-9f2e-5b4d0a6c9e03';
+
+let standIn: AccStandIn;
+let listRFIs: typeof import('../../src/lib/accClient').listRFIs;
+
+beforeAll(async () => {
+  standIn = await startAccStandIn(['rfis/full-listing', 'rfis/since-cursor']);
+  vi.stubEnv('AUTODESK_API_BASE_URL', standIn.baseUrl);
+  ({ listRFIs } = await import('../../src/lib/accClient'));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await standIn.close();
+});
+
+beforeEach(() => {
+  standIn.requests.length = 0;
+});
+
+describe('listRFIs', () => {
+  it('follows pagination to the last page', async () => {
+    const result = await listRFIs('access-token', PROJECT_ID);
+    
+    expect(result.data.map(rfi => rfi.id)).toEqual([BEAM_POCKET_RFI, REBAR_RFI, DRAFT_RFI]);
+    expect(result.pagination.totalResults).toBe(3);
+    
+    const pageRequests = standIn.requests.filter(request => request.path === RFIS_PATH);
+    expect(pageRequests.map(request => request.query.offset)).toEqual(['0', '2']);
+    expect(pageRequests[0].query).toMatchObject({ limit: '100', sort: 'updatedAt ASC' });
+    expect(pageRequests[0].query).not.toHaveProperty('filter[updatedAt]');
+    expect(pageRequests[0].authorization).toBe('Bearer access-token');
+  });
+  
+  it('maps RFI fields, assignees and custom attributes', async () => {
+    const { data } = await listRFIs('access-token', PROJECT_ID);
+    const rfi = data.find(candidate => candidate.id === BEAM_POCKET_RFI)!;
+    
+    expect(rfi).toMatchObject({
+      externalId: BEAM_POCKET_RFI,
+      projectId: PROJECT_ID,
+      number: '0001',
+      title: 'Beam pocket depth at grid C/4',
+      status: 'open',
+      priority: 'high',
+      discipline: 'Structural, Architectural',
+      category: 'Design Coordination',
+      dueDate: '2026-03-14',
+      contractorComments: 'Proceed with 250mm per structural.',
+      response: undefined,
+    });
+    expect(rfi.assignedTo).toEqual([
+      { id: 'XJ3HT7WQ9B2L', type: 'user', name: 'Sam Reviewer' },
+      { id: 'c9d41f7e-0a3b-4a52-8e6f-52b1d9a0e3aa', type: 'company', name: undefined },
+    ]);
+    expect(rfi.customAttributes).toEqual([
+      { id: '2b4e6a80-cc1d-4f3a-9e77-0d5a1b2c3d4e', name: 'Cost Impact', type: 'list', value: ['Yes'] },
+      { id: '7f8e9d0c-1b2a-4c3d-8e4f-5a6b7c8d9e0f', name: 'Drawing Reference', type: 'text', value: 'S-201 rev C' },
+    ]);
+  });
+  
+  it('maps official responses and fills defaults for sparse RFIs', async () => {
+    const { data } = await listRFIs('access-token', PROJECT_ID);
+    const answered = data.find(candidate => candidate.id === REBAR_RFI)!;
+    const draft = data.find(candidate => candidate.id === DRAFT_RFI)!;
+    
+    expect(answered.discipline).toBe('Structural');
+    expect(answered.assignedTo).toEqual([{ id: 'XJ3HT7WQ9B2L', type: 'user', name: 'Sam Reviewer' }]);
+    expect(answered.response).toEqual({
+      status: 'answered',
+      text: 'Use grade 60 throughout; the schedule will be revised.',
+      respondedBy: 'XJ3HT7WQ9B2L',
+      respondedAt: '2026-03-03T16:40:00.000Z',
+    });
+    
+    expect(draft).toMatchObject({
+      number: DRAFT_RFI,
+      title: 'Untitled RFI',
+      assignedTo: [],
+      customAttributes: [],
+      updatedAt: '2026-03-02T11:30:00.000Z',
+    });
+  });
+  
+  it('fetches and maps each RFI\'s attachments', async () => {
+    const { data } = await listRFIs('access-token', PROJECT_ID);
+    
+    expect(data.find(candidate => candidate.id === BEAM_POCKET_RFI)!.attachments).toEqual([
+      {
+        id: 'f1e2d3c4-b5a6-4978-8a9b-0c1d2e3f4a5b',
+        name: 'beam-pocket-photo.jpg',
+        urn: 'urn:adsk.objects:os.object:wip.dm.prod/1d2c3b4a-photo.jpg',
+        versionUrn: undefined,
+        mimeType: 'image/jpeg',
+        size: 482113,
+      },
+      {
+        id: '0a9b8c7d-6e5f-4a3b-9c2d-1e0f9a8b7c6d',
+        name: 'S-201 markup.pdf',
+        urn: 'urn:adsk.wipprod:fs.file:vf.Qm9vLk1hcmt1cA?version=2',
+        versionUrn: 'urn:adsk.wipprod:fs.file:vf.Qm9vLk1hcmt1cA?version=2',
+        mimeType: 'application/octet-stream',
+        size: 0,
+      },
+    ]);
+    expect(data.find(candidate => candidate.id === REBAR_RFI)!.attachments).toEqual([]);
+    expect(data.every(rfi => !rfi.detailsSkipped)).toBe(true);
+  });
+  
+  it('returns the newest updatedAt as the cursor', async () => {
+    const result = await listRFIs('access-token', PROJECT_ID);
+    
+    expect(result.cursor).toBe('2026-03-03T16:40:00.000Z');
+  });
+  
+  it('only asks for RFIs updated since the cursor', async () => {
+    const result = await listRFIs('access-token', PROJECT_ID, '2026-03-03T16:40:00.000Z');
+    
+    const pageRequests = standIn.requests.filter(request => request.path === RFIS_PATH);
+    expect(pageRequests).toHaveLength(1);
+    expect(pageRequests[0].query['filter[updatedAt]']).toBe('2026-03-03T16:40:00.000Z..');
+    
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0]).toMatchObject({
+      id: BEAM_POCKET_RFI,
+      status: 'answered',
+      response: { text: 'Confirmed: 250mm pocket. Architectural section to be revised.' },
+    });
+    expect(result.data[0].attachments).toHaveLength(2);
+    expect(result.cursor).toBe('2026-03-05T10:05:00.000Z');
+  });
+  
+  it('keeps the previous cursor when nothing changed', async () => {
+    const result = await listRFIs('access-token', PROJECT_ID, '2026-03-05T10:05:00.000Z');
+    
+    expect(result.data).toEqual([]);
+    expect(result.cursor).toBe('2026-03-05T10:05:00.000Z');
+  });
+  
+  it('skips the attachments call for RFIs already synced at the same updatedAt', async () => {
+    const knownUpdatedAt = new Map([
+      [BEAM_POCKET_RFI, '2026-03-01T09:20:00.000Z'],
+      [REBAR_RFI, '2026-03-01T00:00:00.000Z'], // Changed since the last sync
+    ]);
+    
+    const { data } = await listRFIs('access-token', PROJECT_ID, undefined, knownUpdatedAt);
+    
+    const attachmentRequests = standIn.requests.filter(request => request.path.endsWith('/attachments'));
+    expect(attachmentRequests.map(request => request.path)).toEqual([
+      `${RFIS_PATH}/${REBAR_RFI}/attachments`,
+      `${RFIS_PATH}/${DRAFT_RFI}/attachments`,
+    ]);
+    
+    const skipped = data.find(candidate => candidate.id === BEAM_POCKET_RFI)!;
+    expect(skipped.detailsSkipped).toBe(true);
+    expect(skipped.attachments).toEqual([]);
+    expect(skipped.title).toBe('Beam pocket depth at grid C/4');
+    expect(data.find(candidate => candidate.id === REBAR_RFI)!.detailsSkipped).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+import axios, { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config';
+import { applyRequestLayer, getAccRequestMetrics, setTokenRefresher } from '../../src/lib/accRequest';
+
+type Reply = { status: number; headers?: Record<string, string> } | { networkError: string };
+
+/**
+ * A client whose transport answers from a scripted list of replies and records what it was sent
+ */
+function scriptedClient(replies: Reply[], hubKey: string) {
+  const sent: { method?: string; authorization?: string }[] = [];
+  
+  const client = axios.create({
+    baseURL: config.autodesk.apiBaseUrl,
+    headers: { Authorization: 'Bearer stale-token' },
+    adapter: async (requestConfig: InternalAxiosRequestConfig) => {
+      sent.push({ method: requestConfig.method, authorization: String(requestConfig.headers.Authorization) });
+      
+      const reply = replies.shift();
+      if (!reply) {
+        throw new Error('Unexpected request');
+      }
+      
+      if ('networkError' in reply) {
+        throw new AxiosError('socket hang up', reply.networkError, requestConfig);
+      }
+      
+      const response: AxiosResponse = {
+        status: reply.status,
+        statusText: String(reply.status),
+        headers: reply.headers ?? {},
+        config: requestConfig,
+        data: { status: reply.status },
+      };
+      
+      if (reply.status >= 400) {
+        throw new AxiosError(`Request failed with status code ${reply.status}`, undefined, requestConfig, null, response);
+      }
+      return response;
+    },
+  });
+  
+  return { client: applyRequestLayer(client, { hubKey }), sent };
+}
+
+let hubCounter = 0;
+
+// A fresh rate-limit bucket per test, so a 429 pause in one test can't slow another
+function nextHub(): string {
+  hubCounter++;
+  return `hub-${hubCounter}`;
+}
+
+beforeEach(() => {
+  setTokenRefresher(async () => null);
+});
+
+describe('retries', () => {
+  it('retries idempotent requests after a 5xx or dropped connection', async () => {
+    const { client, sent } = scriptedClient([{ status: 503 }, { networkError: 'ECONNRESET' }, { status: 200 }], nextHub());
+    
+    const response = await client.get('/construction/rfis/v2/projects/1234/rfis');
+    
+    expect(response.status).toBe(200);
+    expect(sent).toHaveLength(3);
+    expect(getAccRequestMetrics()['GET /construction/rfis/v2/projects/:id/rfis']).toMatchObject({
+      retries: 2,
+      statusCounts: { 200: 1 },
+    });
+  });
+  
+  it('does not resend a POST after a 5xx', async () => {
+    const { client, sent } = scriptedClient([{ status: 502 }, { status: 200 }], nextHub());
+    
+    await expect(client.post('/construction/rfis/v2/projects/1234/rfis', {})).rejects.toMatchObject({
+      response: { status: 502 },
+    });
+    expect(sent).toHaveLength(1);
+  });
+  
+  it('does not retry client errors', async () => {
+    const { client, sent } = scriptedClient([{ status: 404 }, { status: 200 }], nextHub());
+    
+    await expect(client.get('/missing')).rejects.toMatchObject({ response: { status: 404 } });
+    expect(sent).toHaveLength(1);
+  });
+  
+  it('gives up after the configured number of retries', async () => {
+    const { client, sent } = scriptedClient([...Array(5).fill({ status: 500 }), { status: 200 }], nextHub());
+    
+    await expect(client.get('/flaky')).rejects.toMatchObject({ response: { status: 500 } });
+    expect(sent).toHaveLength(5);
+  });
+});
+
+describe('429 handling', () => {
+  it('resends even a POST after a 429, honouring Retry-After', async () => {
+    const { client, sent } = scriptedClient([{ status: 429, headers: { 'retry-after': '0' } }, { status: 201 }], nextHub());
+    
+    const response = await client.post('/construction/rfis/v2/projects/1234/rfis', {});
+    
+    expect(response.status).toBe(201);
+    expect(sent.map(request => request.method)).toEqual(['post', 'post']);
+  });
+  
+  it('waits as long as Retry-After asks', async () => {
+    const { client } = scriptedClient([{ status: 429, headers: { 'retry-after': '0.2' } }, { status: 200 }], nextHub());
+    const startedAt = Date.now();
+    
+    await client.get('/throttled');
+    
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+  });
+  
+  it('fails instead of waiting when Retry-After is longer than a minute', async () => {
+    const { client, sent } = scriptedClient([{ status: 429, headers: { 'retry-after': '3600' } }, { status: 200 }], nextHub());
+    
+    await expect(client.get('/throttled')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe('401 replay', () => {
+  it('replays once with a refreshed token and keeps it for later requests', async () => {
+    const refresher = vi.fn().mockResolvedValue('fresh-token');
+    setTokenRefresher(refresher);
+    const { client, sent } = scriptedClient([{ status: 401 }, { status: 200 }, { status: 200 }], nextHub());
+    
+    await client.get('/page-1');
+    await client.get('/page-2');
+    
+    expect(refresher).toHaveBeenCalledWith('stale-token');
+    expect(sent.map(request => request.authorization)).toEqual([
+      'Bearer stale-token',
+      'Bearer fresh-token',
+      'Bearer fresh-token',
+    ]);
+  });
+  
+  it('does not replay a second time when the refreshed token is also rejected', async () => {
+    const refresher = vi.fn().mockResolvedValue('fresh-token');
+    setTokenRefresher(refresher);
+    const { client, sent } = scriptedClient([{ status: 401 }, { status: 401 }, { status: 200 }], nextHub());
+    
+    await expect(client.get('/revoked')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(sent).toHaveLength(2);
+  });
+  
+  it('surfaces the 401 when no fresh token is available', async () => {
+    const { client, sent } = scriptedClient([{ status: 401 }, { status: 200 }], nextHub());
+    
+    await expect(client.get('/revoked')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+type CryptoModule = typeof import('../../src/lib/crypto');
+
+/**
+ * Loads the crypto module with a fresh config reading the given TOKEN_ENCRYPTION_KEYS
+ */
+async function loadWithKeys(keys: string): Promise<CryptoModule> {
+  vi.stubEnv('TOKEN_ENCRYPTION_KEYS', keys);
+  vi.resetModules();
+  return import('../../src/lib/crypto');
+}
+
+/**
+ * Produces the unversioned salt:iv:authTag:ciphertext format written before key rotation existed
+ */
+function legacyEncrypt(secret: string, plaintext: string): string {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(16);
+  const key = crypto.pbkdf2Sync(secret, salt, 100000, 32, 'sha256');
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = cipher.update(plaintext, 'utf8', 'base64') + cipher.final('base64');
+  
+  return [salt, iv, cipher.getAuthTag()]
+    .map(part => part.toString('base64'))
+    .concat(ciphertext)
+    .join(':');
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('versioned ciphertext', () => {
+  it('round-trips under the active key and names it', async () => {
+    const { encrypt, decrypt, getCiphertextKeyId, needsReencryption } = await loadWithKeys('k2:second-secret,k1:first-secret');
+    
+    const encrypted = encrypt('refresh-token-value');
+    
+    expect(encrypted.startsWith('v1:k2:')).toBe(true);
+    expect(encrypted).not.toContain('refresh-token-value');
+    expect(decrypt(encrypted)).toBe('refresh-token-value');
+    expect(getCiphertextKeyId(encrypted)).toBe('k2');
+    expect(needsReencryption(encrypted)).toBe(false);
+  });
+  
+  it('still decrypts values written under a key that has since been rotated out of first place', async () => {
+    const before = await loadWithKeys('k1:first-secret');
+    const encrypted = before.encrypt('access-token-value');
+    
+    const after = await loadWithKeys('k2:second-secret,k1:first-secret');
+    
+    expect(after.decrypt(encrypted)).toBe('access-token-value');
+    expect(after.needsReencryption(encrypted)).toBe(true);
+  });
+  
+  it('refuses values whose key is no longer configured', async () => {
+    const before = await loadWithKeys('k1:first-secret');
+    const encrypted = before.encrypt('access-token-value');
+    
+    const after = await loadWithKeys('k2:second-secret');
+    
+    expect(() => after.decrypt(encrypted)).toThrow('Encryption key "k1" is not configured');
+  });
+  
+  it('rejects tampered ciphertext', async () => {
+    const { encrypt, decrypt } = await loadWithKeys('k1:first-secret');
+    const parts = encrypt('access-token-value').split(':');
+    parts[5] = Buffer.from('forged').toString('base64');
+    
+    expect(() => decrypt(parts.join(':'))).toThrow();
+  });
+});
+
+describe('legacy ciphertext', () => {
+  it('decrypts with whichever configured key matches', async () => {
+    const { decrypt, getCiphertextKeyId, needsReencryption } = await loadWithKeys('k2:second-secret,k1:first-secret');
+    const legacy = legacyEncrypt('first-secret', 'legacy-token');
+    
+    expect(decrypt(legacy)).toBe('legacy-token');
+    expect(getCiphertextKeyId(legacy)).toBeNull();
+    expect(needsReencryption(legacy)).toBe(true);
+  });
+  
+  it('reads the single TOKEN_ENCRYPTION_KEY as the "default" key', async () => {
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', 'only-secret');
+    const { decrypt, encrypt } = await loadWithKeys('');
+    
+    expect(decrypt(legacyEncrypt('only-secret', 'legacy-token'))).toBe('legacy-token');
+    expect(encrypt('new-token').startsWith('v1:default:')).toBe(true);
+  });
+  
+  it('fails when no configured key matches', async () => {
+    const { decrypt } = await loadWithKeys('k1:first-secret');
+    
+    expect(() => decrypt(legacyEncrypt('unknown-secret', 'legacy-token'))).toThrow('Encrypted data does not match any configured key');
+  });
+  
+  it('rejects malformed values', async () => {
+    const { decrypt } = await loadWithKeys('k1:first-secret');
+    
+    expect(() => decrypt('not-encrypted')).toThrow('Invalid encrypted data format');
+  });
+});
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeTable } from '../support/fakeTable';
+import { prisma } from '../../src/lib/prisma';
+import { config } from '../../src/config';
+import {
+  enqueueJob,
+  processNextJob,
+  recoverStaleJobs,
+  registerJobHandler,
+} from '../../src/services/jobService';
+
+vi.mock('../../src/lib/prisma', async () => {
+  const { createFakeTable } = await import('../support/fakeTable');
+  return {
+    prisma: {
+      job: createFakeTable({
+        status: 'QUEUED',
+        attempts: 0,
+        runAt: new Date(0),
+        lockedBy: null,
+        lockedAt: null,
+        lastError: null,
+        result: null,
+        completedAt: null,
+      }),
+    },
+  };
+});
+
+const jobs = (prisma as unknown as { job: FakeTable }).job;
+
+function jobRow(id: string) {
+  return jobs.rows.find(row => row.id === id)!;
+}
+
+beforeEach(() => {
+  jobs.rows.length = 0;
+  registerJobHandler('SYNC_PROJECT', async () => ({ synced: true }));
+  registerJobHandler('SEND_RFI_RESPONSE', async () => undefined);
+});
+
+describe('processNextJob', () => {
+  it('returns false when nothing is due', async () => {
+    await jobs.create({ data: { type: 'SYNC_PROJECT', payload: '{}', maxAttempts: 3, runAt: new Date(Date.now() + 60000) } });
+    
+    expect(await processNextJob()).toBe(false);
+  });
+  
+  it('claims a due job, runs its handler and records the result', async () => {
+    const handler = vi.fn().mockResolvedValue({ synced: 4 });
+    registerJobHandler('SYNC_PROJECT', handler);
+    const job = await enqueueJob('SYNC_PROJECT', { projectId: 'p1' }, { projectId: 'p1' });
+    
+    expect(await processNextJob()).toBe(true);
+    
+    expect(handler).toHaveBeenCalledWith({ projectId: 'p1' }, { id: job.id, attempts: 1 });
+    expect(jobRow(job.id)).toMatchObject({
+      status: 'SUCCEEDED',
+      attempts: 1,
+      result: JSON.stringify({ synced: 4 }),
+      lockedBy: null,
+      lockedAt: null,
+    });
+    expect(jobRow(job.id).completedAt).toBeInstanceOf(Date);
+  });
+  
+  it('lets only one of two racing workers claim a job', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    registerJobHandler('SYNC_PROJECT', handler);
+    await enqueueJob('SYNC_PROJECT', {});
+    
+    const claimed = await Promise.all([processNextJob(0), processNextJob(1)]);
+    
+    expect(claimed.filter(Boolean)).toHaveLength(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+  
+  it('requeues a failed attempt with backoff', async () => {
+    registerJobHandler('SYNC_PROJECT', async () => {
+      throw new Error('ACC unavailable');
+    });
+    const job = await enqueueJob('SYNC_PROJECT', {}, { maxAttempts: 3 });
+    const before = Date.now();
+    
+    await processNextJob();
+    
+    const row = jobRow(job.id);
+    expect(row).toMatchObject({ status: 'QUEUED', attempts: 1, lastError: 'ACC unavailable', lockedBy: null });
+    
+    const delayMs = row.runAt.getTime() - before;
+    const baseMs = config.jobRetryBaseSeconds * 1000;
+    expect(delayMs).toBeGreaterThanOrEqual(baseMs * 0.8);
+    expect(delayMs).toBeLessThanOrEqual(baseMs * 1.2 + 1000);
+  });
+  
+  it('moves a job to the dead-letter state on its last attempt', async () => {
+    registerJobHandler('SYNC_PROJECT', async () => {
+      throw new Error('still failing');
+    });
+    const job = await enqueueJob('SYNC_PROJECT', {}, { maxAttempts: 2 });
+    
+    await processNextJob();
+    jobRow(job.id).runAt = new Date(0);
+    await processNextJob();
+    
+    expect(jobRow(job.id)).toMatchObject({ status: 'DEAD', attempts: 2, lastError: 'still failing', lockedBy: null });
+    expect(jobRow(job.id).completedAt).toBeInstanceOf(Date);
+    expect(await processNextJob()).toBe(false);
+  });
+  
+  it('drops the result when recovery took the job while it ran', async () => {
+    const job = await enqueueJob('SYNC_PROJECT', {});
+    registerJobHandler('SYNC_PROJECT', async () => {
+      Object.assign(jobRow(job.id), { status: 'QUEUED', lockedBy: null, lastError: 'Worker stopped responding' });
+      return { synced: true };
+    });
+    
+    await processNextJob();
+    
+    expect(jobRow(job.id)).toMatchObject({ status: 'QUEUED', result: null, lastError: 'Worker stopped responding' });
+  });
+  
+  it('drops the failure when another worker now holds the job', async () => {
+    const job = await enqueueJob('SYNC_PROJECT', {}, { maxAttempts: 1 });
+    registerJobHandler('SYNC_PROJECT', async () => {
+      Object.assign(jobRow(job.id), { lockedBy: 'other-host:1:0' });
+      throw new Error('late failure');
+    });
+    
+    await processNextJob();
+    
+    expect(jobRow(job.id)).toMatchObject({ status: 'RUNNING', lockedBy: 'other-host:1:0', lastError: null });
+  });
+});
+
+describe('recoverStaleJobs', () => {
+  const staleLockedAt = () => new Date(Date.now() - (config.jobTimeoutMinutes + 1) * 60 * 1000);
+  
+  it('requeues stale jobs and dead-letters stale sends', async () => {
+    const sync = await jobs.create({
+      data: { type: 'SYNC_PROJECT', payload: '{}', status: 'RUNNING', attempts: 1, maxAttempts: 5, lockedBy: 'gone:1:0', lockedAt: staleLockedAt() },
+    });
+    const send = await jobs.create({
+      data: { type: 'SEND_RFI_RESPONSE', payload: '{}', status: 'RUNNING', attempts: 1, maxAttempts: 5, lockedBy: 'gone:1:1', lockedAt: staleLockedAt() },
+    });
+    const live = await jobs.create({
+      data: { type: 'SYNC_PROJECT', payload: '{}', status: 'RUNNING', attempts: 1, maxAttempts: 5, lockedBy: 'alive:2:0', lockedAt: new Date() },
+    });
+    
+    expect(await recoverStaleJobs()).toBe(2);
+    
+    expect(jobRow(sync.id)).toMatchObject({ status: 'QUEUED', lockedBy: null, lastError: 'Worker gone:1:0 stopped responding' });
+    expect(jobRow(send.id)).toMatchObject({
+      status: 'DEAD',
+      lockedBy: null,
+      lastError: 'Worker gone:1:1 stopped responding; check ACC before sending again',
+    });
+    expect(jobRow(live.id)).toMatchObject({ status: 'RUNNING', lockedBy: 'alive:2:0' });
+  });
+  
+  it('leaves a stale job alone if its worker finishes first', async () => {
+    const job = await jobs.create({
+      data: { type: 'SYNC_PROJECT', payload: '{}', status: 'RUNNING', attempts: 1, maxAttempts: 5, lockedBy: 'slow:1:0', lockedAt: staleLockedAt() },
+    });
+    const findMany = jobs.findMany;
+    vi.spyOn(jobs, 'findMany').mockImplementationOnce(async args => {
+      const stale = await findMany(args);
+      Object.assign(jobRow(job.id), { status: 'SUCCEEDED', lockedBy: null });
+      return stale;
+    });
+    
+    await recoverStaleJobs();
+    
+    expect(jobRow(job.id)).toMatchObject({ status: 'SUCCEEDED', lastError: null });
+  });
+});
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeTable } from '../support/fakeTable';
+import { prisma } from '../../src/lib/prisma';
+import { config } from '../../src/config';
+import {
+  SYNC_LEASE_HOLDER_ID,
+  acquireSyncLease,
+  releaseSyncLease,
+  setSyncLeaseLog,
+} from '../../src/services/syncLockService';
+
+vi.mock('../../src/lib/prisma', async () => {
+  const { createFakeTable } = await import('../support/fakeTable');
+  return {
+    prisma: {
+      syncLease: createFakeTable({ syncLogId: null }, ['accProjectLinkId']),
+      syncLog: createFakeTable({ status: 'STARTED', errors: null, completedAt: null }),
+    },
+  };
+});
+
+const { syncLease: leases, syncLog: syncLogs } = prisma as unknown as { syncLease: FakeTable; syncLog: FakeTable };
+
+const LINK_ID = 'link-1';
+
+function addLease(holderId: string, expiresInMs: number, syncLogId: string | null = null) {
+  const now = Date.now();
+  return leases.create({
+    data: {
+      accProjectLinkId: LINK_ID,
+      holderId,
+      syncLogId,
+      acquiredAt: new Date(now - config.syncLeaseSeconds * 1000),
+      expiresAt: new Date(now + expiresInMs),
+    },
+  });
+}
+
+beforeEach(() => {
+  leases.rows.length = 0;
+  syncLogs.rows.length = 0;
+});
+
+describe('acquireSyncLease', () => {
+  it('takes a free link', async () => {
+    expect(await acquireSyncLease(LINK_ID)).toEqual({ acquired: true });
+    expect(leases.rows).toEqual([expect.objectContaining({ accProjectLinkId: LINK_ID, holderId: SYNC_LEASE_HOLDER_ID })]);
+  });
+  
+  it('reports the current holder while their lease is live', async () => {
+    await addLease('other-host:42:abcd', 60000, 'log-live');
+    
+    const result = await acquireSyncLease(LINK_ID);
+    
+    expect(result).toEqual({
+      acquired: false,
+      lease: expect.objectContaining({ holderId: 'other-host:42:abcd', syncLogId: 'log-live' }),
+    });
+    expect(leases.rows[0].holderId).toBe('other-host:42:abcd');
+  });
+  
+  it('takes over an expired lease and fails the abandoned sync log', async () => {
+    const abandoned = await syncLogs.create({ data: { id: 'log-abandoned' } });
+    await addLease('crashed-host:7:beef', -1000, abandoned.id);
+    
+    expect(await acquireSyncLease(LINK_ID)).toEqual({ acquired: true });
+    
+    expect(leases.rows).toHaveLength(1);
+    expect(leases.rows[0]).toMatchObject({ holderId: SYNC_LEASE_HOLDER_ID, syncLogId: null });
+    expect(leases.rows[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(syncLogs.rows[0]).toMatchObject({
+      status: 'FAILED',
+      errors: JSON.stringify(['Sync abandoned: lease holder stopped responding']),
+    });
+    expect(syncLogs.rows[0].completedAt).toBeInstanceOf(Date);
+  });
+  
+  it('leaves a finished sync log alone when taking over', async () => {
+    await syncLogs.create({ data: { id: 'log-done', status: 'COMPLETED' } });
+    await addLease('crashed-host:7:beef', -1000, 'log-done');
+    
+    await acquireSyncLease(LINK_ID);
+    
+    expect(syncLogs.rows[0].status).toBe('COMPLETED');
+  });
+  
+  it('backs off when another contender recovers the expired lease first', async () => {
+    await addLease('crashed-host:7:beef', -1000);
+    const updateMany = leases.updateMany;
+    vi.spyOn(leases, 'updateMany').mockImplementationOnce(async args => {
+      // The rival's compare-and-swap lands between our read and ours
+      Object.assign(leases.rows[0], { holderId: 'rival-host:9:cafe', expiresAt: new Date(Date.now() + 60000) });
+      return updateMany(args);
+    });
+    
+    const result = await acquireSyncLease(LINK_ID);
+    
+    expect(result).toEqual({ acquired: false, lease: expect.objectContaining({ holderId: 'rival-host:9:cafe' }) });
+    expect(leases.rows[0].holderId).toBe('rival-host:9:cafe');
+  });
+});
+
+describe('setSyncLeaseLog and releaseSyncLease', () => {
+  it('only touch a lease this process holds', async () => {
+    await addLease('other-host:42:abcd', 60000);
+    
+    await setSyncLeaseLog(LINK_ID, 'log-mine');
+    await releaseSyncLease(LINK_ID);
+    
+    expect(leases.rows).toEqual([expect.objectContaining({ holderId: 'other-host:42:abcd', syncLogId: null })]);
+  });
+  
+  it('release frees the link for the next sync', async () => {
+    await acquireSyncLease(LINK_ID);
+    await setSyncLeaseLog(LINK_ID, 'log-mine');
+    expect(leases.rows[0].syncLogId).toBe('log-mine');
+    
+    await releaseSyncLease(LINK_ID);
+    
+    expect(leases.rows).toHaveLength(0);
+  });
+});
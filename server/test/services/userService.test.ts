@@ -0,0 +1,185 @@
+import { hash } from 'bcrypt';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeTable } from '../support/fakeTable';
+import { prisma } from '../../src/lib/prisma';
+import { config } from '../../src/config';
+import { sendMail } from '../../src/lib/mailer';
+import { revokeAllUserSessions } from '../../src/services/sessionService';
+import { attemptLocalLogin, requestPasswordReset, resetPassword } from '../../src/services/userService';
+
+vi.mock('../../src/lib/prisma', async () => {
+  const { createFakeTable } = await import('../support/fakeTable');
+  return {
+    prisma: {
+      user: createFakeTable({ isActive: true, failedLoginCount: 0, lockedUntil: null, lastLoginAt: null }, ['id', 'email']),
+      passwordResetToken: createFakeTable({ usedAt: null }, ['id', 'tokenHash']),
+    },
+  };
+});
+
+vi.mock('../../src/lib/mailer', () => ({
+  sendMail: vi.fn().mockResolvedValue('message-id'),
+}));
+
+vi.mock('../../src/services/sessionService', () => ({
+  revokeAllUserSessions: vi.fn().mockResolvedValue(0),
+}));
+
+const { user: users, passwordResetToken: resetTokens } = prisma as unknown as {
+  user: FakeTable;
+  passwordResetToken: FakeTable;
+};
+
+const PASSWORD = 'correct horse battery';
+
+async function addUser() {
+  return users.create({
+    data: {
+      email: 'pat@example.com',
+      firstName: 'Pat',
+      lastName: 'Example',
+      passwordHash: await hash(PASSWORD, 4),
+    },
+  });
+}
+
+/**
+ * Pulls the one-time token out of the most recent reset email
+ */
+function tokenFromLastEmail(): string {
+  const { text } = vi.mocked(sendMail).mock.calls.at(-1)![0];
+  const url = new URL(text.match(/https?:\/\/\S+/)![0]);
+  return url.searchParams.get('token')!;
+}
+
+beforeEach(() => {
+  users.rows.length = 0;
+  resetTokens.rows.length = 0;
+  vi.clearAllMocks();
+});
+
+describe('attemptLocalLogin', () => {
+  it('signs in with the right password, matching the email case-insensitively', async () => {
+    const user = await addUser();
+    users.rows[0].failedLoginCount = 2;
+    
+    const result = await attemptLocalLogin(' Pat@Example.com ', PASSWORD);
+    
+    expect(result).toEqual({
+      status: 'ok',
+      user: { id: user.id, email: 'pat@example.com', firstName: 'Pat', lastName: 'Example' },
+    });
+    expect(users.rows[0].failedLoginCount).toBe(0);
+    expect(users.rows[0].lastLoginAt).toBeInstanceOf(Date);
+  });
+  
+  it('gives the same answer for unknown accounts and wrong passwords', async () => {
+    await addUser();
+    
+    expect(await attemptLocalLogin('nobody@example.com', PASSWORD)).toEqual({ status: 'invalid' });
+    expect(await attemptLocalLogin('pat@example.com', 'wrong password')).toEqual({ status: 'invalid' });
+  });
+  
+  it('locks the account after the configured number of failures', async () => {
+    await addUser();
+    
+    for (let attempt = 1; attempt < config.loginMaxAttempts; attempt++) {
+      expect(await attemptLocalLogin('pat@example.com', 'wrong password')).toEqual({ status: 'invalid' });
+    }
+    expect(users.rows[0].failedLoginCount).toBe(config.loginMaxAttempts - 1);
+    
+    const locked = await attemptLocalLogin('pat@example.com', 'wrong password');
+    
+    expect(locked.status).toBe('locked');
+    expect(users.rows[0].failedLoginCount).toBe(0);
+    expect(users.rows[0].lockedUntil.getTime()).toBeGreaterThan(Date.now() + (config.loginLockoutMinutes - 1) * 60 * 1000);
+    
+    // Even the right password is refused until the lock expires
+    expect((await attemptLocalLogin('pat@example.com', PASSWORD)).status).toBe('locked');
+  });
+  
+  it('counts parallel wrong guesses individually', async () => {
+    await addUser();
+    
+    const results = await Promise.all(
+      Array.from({ length: config.loginMaxAttempts }, () => attemptLocalLogin('pat@example.com', 'wrong password'))
+    );
+    
+    expect(results.filter(result => result.status === 'locked')).toHaveLength(1);
+    expect(users.rows[0].lockedUntil).toBeInstanceOf(Date);
+  });
+  
+  it('lets the user back in once the lock has expired', async () => {
+    await addUser();
+    users.rows[0].lockedUntil = new Date(Date.now() - 1000);
+    
+    expect((await attemptLocalLogin('pat@example.com', PASSWORD)).status).toBe('ok');
+    expect(users.rows[0].lockedUntil).toBeNull();
+  });
+});
+
+describe('password reset', () => {
+  it('emails a one-time link and stores only a hash of the token', async () => {
+    await addUser();
+    
+    await requestPasswordReset('PAT@example.com');
+    
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'pat@example.com', subject: 'Reset your password' }));
+    const token = tokenFromLastEmail();
+    expect(resetTokens.rows).toHaveLength(1);
+    expect(resetTokens.rows[0].tokenHash).not.toBe(token);
+  });
+  
+  it('stays silent for unknown accounts', async () => {
+    await requestPasswordReset('nobody@example.com');
+    
+    expect(sendMail).not.toHaveBeenCalled();
+    expect(resetTokens.rows).toHaveLength(0);
+  });
+  
+  it('only honours the newest link', async () => {
+    await addUser();
+    await requestPasswordReset('pat@example.com');
+    const firstToken = tokenFromLastEmail();
+    await requestPasswordReset('pat@example.com');
+    
+    expect(await resetPassword(firstToken, 'a brand new password')).toBe(false);
+    expect(await resetPassword(tokenFromLastEmail(), 'a brand new password')).toBe(true);
+  });
+  
+  it('sets the new password, unlocks the account and signs the user out everywhere', async () => {
+    const user = await addUser();
+    Object.assign(users.rows[0], { failedLoginCount: 3, lockedUntil: new Date(Date.now() + 60000) });
+    await requestPasswordReset('pat@example.com');
+    
+    expect(await resetPassword(tokenFromLastEmail(), 'a brand new password')).toBe(true);
+    
+    expect(users.rows[0]).toMatchObject({ failedLoginCount: 0, lockedUntil: null });
+    expect(revokeAllUserSessions).toHaveBeenCalledWith(user.id);
+    expect((await attemptLocalLogin('pat@example.com', 'a brand new password')).status).toBe('ok');
+    expect((await attemptLocalLogin('pat@example.com', PASSWORD)).status).toBe('invalid');
+  });
+  
+  it('accepts a token only once, even when used twice at the same time', async () => {
+    await addUser();
+    await requestPasswordReset('pat@example.com');
+    const token = tokenFromLastEmail();
+    
+    const results = await Promise.all([
+      resetPassword(token, 'first new password'),
+      resetPassword(token, 'second new password'),
+    ]);
+    
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await resetPassword(token, 'third new password')).toBe(false);
+  });
+  
+  it('refuses expired tokens', async () => {
+    await addUser();
+    await requestPasswordReset('pat@example.com');
+    resetTokens.rows[0].expiresAt = new Date(Date.now() - 1000);
+    
+    expect(await resetPassword(tokenFromLastEmail(), 'a brand new password')).toBe(false);
+    expect(revokeAllUserSessions).not.toHaveBeenCalled();
+  });
+});
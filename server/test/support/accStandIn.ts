@@ -0,0 +1,100 @@
+/**
+ * ACC Stand-in
+ *
+ * Local HTTP server that replays recorded ACC responses, so the client can be exercised
+ * end to end (paging, query parameters, per-item calls) without reaching Autodesk
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'acc');
+
+export interface RecordedInteraction {
+  request: {
+    method: string;
+    path: string;
+    query?: Record<string, string>; // Only these parameters are matched; others are ignored
+  };
+  response: {
+    status: number;
+    body?: unknown;
+  };
+}
+
+interface Recording {
+  description: string;
+  interactions: RecordedInteraction[];
+}
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  authorization?: string;
+}
+
+export interface AccStandIn {
+  baseUrl: string;
+  requests: ReceivedRequest[]; // Every request received, in order
+  close(): Promise<void>;
+}
+
+/**
+ * Loads a recording from test/fixtures/acc by name (e.g. "rfis/full-listing")
+ */
+function loadRecording(name: string): Recording {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+}
+
+function matches(interaction: RecordedInteraction, received: ReceivedRequest): boolean {
+  const { method, path: recordedPath, query = {} } = interaction.request;
+  
+  return method === received.method
+    && recordedPath === received.path
+    && Object.entries(query).every(([key, value]) => received.query[key] === value);
+}
+
+/**
+ * Starts a stand-in on a free port serving the named recordings; the matching interaction
+ * that pins the most query parameters answers each request, and anything unrecorded gets a 404
+ */
+export async function startAccStandIn(recordingNames: string[]): Promise<AccStandIn> {
+  const interactions = recordingNames.flatMap(name => loadRecording(name).interactions);
+  const requests: ReceivedRequest[] = [];
+  
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://stand-in');
+    const received: ReceivedRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      authorization: req.headers.authorization,
+    };
+    requests.push(received);
+    
+    const interaction = interactions
+      .filter(candidate => matches(candidate, received))
+      .sort((a, b) => Object.keys(b.request.query || {}).length - Object.keys(a.request.query || {}).length)[0];
+    const status = interaction?.response.status ?? 404;
+    const body = interaction
+      ? interaction.response.body
+      : { title: 'Not recorded', detail: `${received.method} ${url.pathname}${url.search}` };
+    
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  });
+  
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
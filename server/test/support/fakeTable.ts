@@ -0,0 +1,124 @@
+/**
+ * Fake Prisma Table
+ *
+ * In-memory stand-in for a Prisma model delegate, covering just the query shapes the
+ * services use (equality, in, lt/lte/gte, increment), so their race guards can be tested
+ * without a database
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+type Row = Record<string, any>;
+
+function isOperator(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (!isOperator(expected)) {
+    return comparable(actual) === comparable(expected);
+  }
+  
+  return Object.entries(expected).every(([operator, operand]) => {
+    const a = comparable(actual) as any;
+    const b = comparable(operand) as any;
+    switch (operator) {
+      case 'in': return (operand as unknown[]).some(candidate => matchesValue(actual, candidate));
+      case 'lt': return a !== null && a !== undefined && a < b;
+      case 'lte': return a !== null && a !== undefined && a <= b;
+      case 'gt': return a !== null && a !== undefined && a > b;
+      case 'gte': return a !== null && a !== undefined && a >= b;
+      default: throw new Error(`Unsupported operator in fake table: ${operator}`);
+    }
+  });
+}
+
+function matchesWhere(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([field, expected]) => matchesValue(row[field], expected));
+}
+
+function applyData(row: Row, data: Row): void {
+  for (const [field, value] of Object.entries(data)) {
+    row[field] = isOperator(value) && 'increment' in value ? row[field] + value.increment : value;
+  }
+}
+
+function pick(row: Row, select?: Record<string, boolean>): Row {
+  const copy = { ...row };
+  if (!select) {
+    return copy;
+  }
+  return Object.fromEntries(Object.entries(copy).filter(([field]) => select[field]));
+}
+
+/**
+ * Creates a fake delegate; uniqueFields are checked on create and raise P2002 like Prisma
+ */
+export function createFakeTable(defaults: Row = {}, uniqueFields: string[] = ['id']) {
+  const rows: Row[] = [];
+  
+  return {
+    rows,
+    
+    async create({ data }: { data: Row }) {
+      const row: Row = { id: crypto.randomUUID(), ...defaults, ...data };
+      if (uniqueFields.some(field => rows.some(existing => existing[field] === row[field]))) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        });
+      }
+      rows.push(row);
+      return { ...row };
+    },
+    
+    async findUnique({ where, select }: { where: Row; select?: Record<string, boolean> }) {
+      const row = rows.find(candidate => matchesWhere(candidate, where));
+      return row ? pick(row, select) : null;
+    },
+    
+    async findFirst({ where, select }: { where?: Row; select?: Record<string, boolean> } = {}) {
+      const row = rows.find(candidate => matchesWhere(candidate, where));
+      return row ? pick(row, select) : null;
+    },
+    
+    async findMany({ where, take, select }: { where?: Row; take?: number; select?: Record<string, boolean> } = {}) {
+      return rows
+        .filter(candidate => matchesWhere(candidate, where))
+        .slice(0, take)
+        .map(row => pick(row, select));
+    },
+    
+    async update({ where, data, select }: { where: Row; data: Row; select?: Record<string, boolean> }) {
+      const row = rows.find(candidate => matchesWhere(candidate, where));
+      if (!row) {
+        throw new Prisma.PrismaClientKnownRequestError('Record to update not found', {
+          code: 'P2025',
+          clientVersion: Prisma.prismaVersion.client,
+        });
+      }
+      applyData(row, data);
+      return pick(row, select);
+    },
+    
+    async updateMany({ where, data }: { where?: Row; data: Row }) {
+      const matched = rows.filter(candidate => matchesWhere(candidate, where));
+      matched.forEach(row => applyData(row, data));
+      return { count: matched.length };
+    },
+    
+    async deleteMany({ where }: { where?: Row } = {}) {
+      const remaining = rows.filter(candidate => !matchesWhere(candidate, where));
+      const count = rows.length - remaining.length;
+      rows.splice(0, rows.length, ...remaining);
+      return { count };
+    },
+  };
+}
+
+export type FakeTable = ReturnType<typeof createFakeTable>;
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Config is read at import time, so these apply before any module under test loads
+    env: {
+      NODE_ENV: 'test',
+      LOG_LEVEL: 'silent',
+      ACC_RETRY_BASE_MS: '1',
+    },
+  },
+});
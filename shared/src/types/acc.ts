@@ -310,20 +310,49 @@ export interface APSStorageLocation {
   };
 }
 
-// RFI Types (stub - to be updated when ACC API is available)
+// RFI Types (ACC RFIs v2)
+export interface ACCAssignee {
+  id: string;
+  type: 'user' | 'company' | 'role' | string;
+  name?: string;
+}
+
+export interface ACCCustomAttribute {
+  id: string;
+  name: string;
+  type: string;
+  value: string | number | boolean | string[] | null;
+}
+
+// Official response recorded on an RFI or Submittal in ACC
+export interface ACCItemResponse {
+  status?: string;
+  text: string;
+  respondedBy?: string;
+  respondedAt?: string;
+}
+
 export interface ACCRFI {
   id: string;
-  externalId: string;
+  externalId: string; // Same as id; kept for the legacy ingestion path
   projectId: string;
+  number: string; // Custom identifier shown in ACC (e.g. "0123")
   title: string;
+  description?: string; // The RFI question
   status: string;
-  priority: string;
+  priority?: string;
+  discipline?: string;
+  category?: string;
   dueDate?: string;
-  assignedTo?: string;
+  createdBy?: string;
+  assignedTo: ACCAssignee[];
+  contractorComments?: string; // Suggested answer from the originator
+  response?: ACCItemResponse;
+  customAttributes: ACCCustomAttribute[];
   createdAt: string;
   updatedAt: string;
-  attachments?: ACCAttachment[];
-  // Add more fields as API documentation becomes available
+  attachments: ACCAttachment[];
+  detailsSkipped?: boolean; // Unchanged since the last sync, so attachments weren't fetched (left empty)
 }
 
 export interface ACCRFIListResponse {
@@ -336,20 +365,47 @@ export interface ACCRFIListResponse {
   cursor?: string;
 }
 
-// Submittal Types (stub - to be updated when ACC API is available)
+// Submittal Types (ACC Submittals v2)
+export interface ACCSubmittalReviewTask {
+  id: string;
+  assignedTo: ACCAssignee[];
+  status: string;
+  dueDate?: string;
+  completedAt?: string;
+}
+
+export interface ACCSubmittalReviewStep {
+  id: string;
+  stepNumber: number;
+  status: string; // 'not-started' | 'in-progress' | 'completed'
+  dueDate?: string;
+  tasks: ACCSubmittalReviewTask[];
+}
+
 export interface ACCSubmittal {
   id: string;
-  externalId: string;
+  externalId: string; // Same as id; kept for the legacy ingestion path
   projectId: string;
+  number: string; // Custom identifier shown in ACC (e.g. "03 30 00-1")
   title: string;
-  specSection?: string;
+  description?: string;
+  specSection?: string; // Spec section identifier (e.g. "03 30 00")
+  specSectionTitle?: string;
+  packageNumber?: string;
+  packageTitle?: string;
   status: string;
+  priority?: string;
   dueDate?: string;
-  assignedTo?: string;
+  createdBy?: string;
+  assignedTo: ACCAssignee[]; // Ball in court
+  currentReviewer?: ACCAssignee; // Assignee on the active review step
+  reviewSteps: ACCSubmittalReviewStep[];
+  contractorComments?: string;
+  response?: ACCItemResponse;
   createdAt: string;
   updatedAt: string;
-  attachments?: ACCAttachment[];
-  // Add more fields as API documentation becomes available
+  attachments: ACCAttachment[];
+  detailsSkipped?: boolean; // Unchanged since the last sync, so review steps and attachments weren't fetched (left empty)
 }
 
 export interface ACCSubmittalListResponse {
@@ -367,6 +423,7 @@ export interface ACCAttachment {
   id: string;
   name: string;
   urn: string;
+  versionUrn?: string; // Changes whenever a new version of the file is uploaded
   mimeType: string;
   size: number;
   url?: string;
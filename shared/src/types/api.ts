@@ -8,6 +8,7 @@ export interface AuthStatus {
   userId?: string;
   email?: string;
   name?: string;
+  accConnected?: boolean; // Whether the session is also signed in with Autodesk
   expiresAt?: string;
   scopes?: string[];
 }
@@ -29,6 +30,7 @@ export interface ProjectListItem {
   region: string;
   projectType: string;
   webViewUrl?: string;
+  linkedProjects: { id: string; name: string }[]; // Internal projects linked to this ACC project
 }
 
 export interface HubWithProjects {
@@ -40,21 +42,141 @@ export interface HubWithProjects {
 
 // Sync Request/Response
 export interface SyncRunRequest {
-  projectId: string;
+  projectId: string; // Internal Project.id (see ProjectListItem.linkedProjects), not the ACC project ID
   modules?: ('rfi' | 'submittal')[];
 }
 
 export interface SyncRunResponse {
+  jobId: string;
+}
+
+// Background jobs
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'DEAD';
+
+export interface JobInfo {
+  id: string;
+  type: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  result: unknown;
+  projectId: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// OAuth token health
+export type OAuthTokenState = 'active' | 'expired' | 'refresh_failing' | 'revoked';
+
+export interface OAuthTokenLink {
+  id: string;
   projectId: string;
-  results: {
-    module: string;
-    success: boolean;
-    itemsProcessed: number;
-    newItems: number;
-    errors: string[];
-    duration: number;
-  }[];
-  totalDuration: number;
+  projectName: string;
+  accProjectName: string;
+  lastSyncStatus: string | null;
+}
+
+export interface OAuthTokenHealth {
+  id: string;
+  userId: string;
+  email: string | null;
+  name: string;
+  state: OAuthTokenState;
+  expiresAt: string;
+  lastRefreshedAt: string | null;
+  lastRefreshError: string | null;
+  revokedAt: string | null;
+  scopes: string[];
+  createdAt: string;
+  links: OAuthTokenLink[];
+  canManage: boolean;
+}
+
+export interface ReauthorizeTokenResponse {
+  loginUrl: string;
+}
+
+// Personal API tokens
+export type ApiTokenScope = 'read' | 'write';
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  projectIds: string[] | null; // null = every project the owner belongs to
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  readOnly?: boolean;
+  projectIds?: string[];
+  expiresInDays?: number;
+}
+
+export interface CreatedApiToken extends ApiTokenInfo {
+  token: string; // Only returned once, at creation
+}
+
+// Signed-in browser sessions
+export interface SessionInfo {
+  id: string;
+  device: string; // e.g. "Chrome on Windows"
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean; // The session making this request
+}
+
+// RFI / Submittal workflow requests
+export type ReviewRole = 'REVIEWER' | 'QC_REVIEWER';
+
+export interface UpdateItemRequest {
+  internalStatus?: string;
+  responseStatus?: string;
+  responseText?: string;
+  reviewDeadline?: string;
+  qcDeadline?: string;
+}
+
+export interface AssignItemRequest {
+  userId: string;
+  role: ReviewRole;
+}
+
+export interface AddCommentRequest {
+  text: string;
+  parentId?: string;
+}
+
+export interface SendResponseRequest {
+  responseStatus: string;
+  responseText: string;
+  selectedFilePaths: string[];
+}
+
+export interface RejectManualResponseRequest {
+  reason: string;
+}
+
+// Project administration requests
+export interface AddAccProjectLinkRequest {
+  accProjectId: string;
+  accHubId: string;
+  accProjectName?: string;
+  folderName: string;
+  oauthTokenId: string;
+  syncRfis?: boolean;
+  syncSubmittals?: boolean;
 }
 
 // Upload Request/Response
@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  getApiTokens,
+  createApiToken,
+  revokeApiToken,
+  type ApiTokenInfo,
+} from '@/lib/api';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function getTokenBadge(token: ApiTokenInfo): { className: string; label: string } {
+  if (token.revokedAt) return { className: 'error', label: 'Revoked' };
+  if (new Date(token.expiresAt) < new Date()) return { className: 'warning', label: 'Expired' };
+  return { className: 'success', label: 'Active' };
+}
+
+export default function ApiTokensPage() {
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [busyTokenId, setBusyTokenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [readOnly, setReadOnly] = useState(true);
+  const [projectIds, setProjectIds] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('90');
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getApiTokens();
+    if (result.success && result.data) {
+      setTokens(result.data);
+    } else {
+      setError(result.error || 'Failed to load API tokens');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setNewToken(null);
+
+    const limitedTo = projectIds.split(',').map((id) => id.trim()).filter(Boolean);
+    const result = await createApiToken({
+      name,
+      readOnly,
+      projectIds: limitedTo.length > 0 ? limitedTo : undefined,
+      expiresInDays: Number(expiresInDays),
+    });
+
+    if (result.success && result.data) {
+      setNewToken(result.data.token);
+      setName('');
+      setProjectIds('');
+      await loadTokens();
+    } else {
+      setError(result.error || 'Failed to create API token');
+    }
+    setCreating(false);
+  };
+
+  const handleRevoke = async (token: ApiTokenInfo) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working immediately.`)) return;
+
+    setBusyTokenId(token.id);
+    setError(null);
+
+    const result = await revokeApiToken(token.id);
+    if (result.success) {
+      await loadTokens();
+    } else {
+      setError(result.error || 'Failed to revoke API token');
+    }
+    setBusyTokenId(null);
+  };
+
+  return (
+    <>
+      <header className="header">
+        <h1>API Tokens</h1>
+        <div className="header-actions">
+          <Link href="/" className="btn btn-secondary">
+            Back
+          </Link>
+        </div>
+      </header>
+
+      <div className="container">
+        {error && (
+          <div className="alert error">
+            {error}
+            <button onClick={() => setError(null)} style={{ marginLeft: '1rem' }}>×</button>
+          </div>
+        )}
+
+        {newToken && (
+          <div className="alert success">
+            <div>Copy your new token now; it won&apos;t be shown again.</div>
+            <code style={{ display: 'block', marginTop: '0.5rem', wordBreak: 'break-all' }}>{newToken}</code>
+            <button onClick={() => setNewToken(null)} style={{ marginTop: '0.5rem' }}>Done</button>
+          </div>
+        )}
+
+        <div className="card" style={{ marginBottom: '1.5rem' }}>
+          <div className="card-header">
+            <h3>Create a token</h3>
+          </div>
+          <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
+            Send it as <code>Authorization: Bearer &lt;token&gt;</code>. A token acts as you, within the limits set here.
+          </p>
+          <form onSubmit={handleCreate}>
+            <div className="form-group">
+              <label>Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Nightly report script"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>Limit to project IDs (comma separated, leave empty for all your projects)</label>
+              <input
+                type="text"
+                value={projectIds}
+                onChange={(e) => setProjectIds(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label>Expires in (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={readOnly}
+                  onChange={(e) => setReadOnly(e.target.checked)}
+                  style={{ width: 'auto', marginRight: '0.5rem' }}
+                />
+                Read-only
+              </label>
+            </div>
+            <button type="submit" className="btn btn-primary" disabled={creating}>
+              {creating ? 'Creating...' : 'Create Token'}
+            </button>
+          </form>
+        </div>
+
+        <div className="section-header">
+          <h2>Your tokens</h2>
+        </div>
+
+        {loading && tokens.length === 0 ? (
+          <div className="card">
+            <div className="loading">
+              <div className="spinner" />
+              <span>Loading tokens...</span>
+            </div>
+          </div>
+        ) : tokens.length === 0 ? (
+          <div className="card empty-state">
+            <h3>No API tokens</h3>
+            <p>Create one above to call the API from scripts.</p>
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: '1rem' }}>
+            {tokens.map((token) => {
+              const badge = getTokenBadge(token);
+              return (
+                <div key={token.id} className="card">
+                  <div className="card-header">
+                    <h3>{token.name}</h3>
+                    <span className={`status-badge ${badge.className}`}>{badge.label}</span>
+                  </div>
+                  <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
+                    <code>{token.tokenPrefix}…</code> • {token.scopes.includes('write') ? 'Read and write' : 'Read-only'} •{' '}
+                    {token.projectIds ? `Projects: ${token.projectIds.join(', ')}` : 'All your projects'}
+                  </p>
+
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1rem', fontSize: '0.9rem' }}>
+                    <div>
+                      <div style={{ color: 'var(--text-secondary)' }}>Created</div>
+                      <div>{formatDate(token.createdAt)}</div>
+                    </div>
+                    <div>
+                      <div style={{ color: 'var(--text-secondary)' }}>Expires</div>
+                      <div>{formatDate(token.expiresAt)}</div>
+                    </div>
+                    <div>
+                      <div style={{ color: 'var(--text-secondary)' }}>Last used</div>
+                      <div>
+                        {formatDate(token.lastUsedAt)}
+                        {token.lastUsedIp && ` from ${token.lastUsedIp}`}
+                      </div>
+                    </div>
+                  </div>
+
+                  {!token.revokedAt && (
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                      <button
+                        className="btn btn-danger"
+                        onClick={() => handleRevoke(token)}
+                        disabled={busyTokenId === token.id}
+                      >
+                        {busyTokenId === token.id ? 'Revoking...' : 'Revoke'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
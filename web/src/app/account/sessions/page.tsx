@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { getSessions, revokeSession, type SessionInfo } from '@/lib/api';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getSessions();
+    if (result.success && result.data) {
+      setSessions(result.data);
+    } else {
+      setError(result.error || 'Failed to load sessions');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionInfo) => {
+    const prompt = session.current
+      ? 'Sign out of this browser?'
+      : `Sign out ${session.device}${session.ipAddress ? ` (${session.ipAddress})` : ''}?`;
+    if (!confirm(prompt)) return;
+
+    setBusySessionId(session.id);
+    setError(null);
+
+    const result = await revokeSession(session.id);
+    if (result.success) {
+      if (session.current) {
+        window.location.href = '/';
+        return;
+      }
+      await loadSessions();
+    } else {
+      setError(result.error || 'Failed to sign out session');
+    }
+    setBusySessionId(null);
+  };
+
+  return (
+    <>
+      <header className="header">
+        <h1>Sessions</h1>
+        <div className="header-actions">
+          <Link href="/" className="btn btn-secondary">
+            Back
+          </Link>
+        </div>
+      </header>
+
+      <div className="container">
+        {error && (
+          <div className="alert error">
+            {error}
+            <button onClick={() => setError(null)} style={{ marginLeft: '1rem' }}>×</button>
+          </div>
+        )}
+
+        <div className="section-header">
+          <h2>Where you&apos;re signed in</h2>
+          <button
+            className="btn btn-secondary"
+            onClick={loadSessions}
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <div className="spinner" style={{ width: 16, height: 16 }} />
+                Loading...
+              </>
+            ) : (
+              'Refresh'
+            )}
+          </button>
+        </div>
+
+        {loading && sessions.length === 0 ? (
+          <div className="card">
+            <div className="loading">
+              <div className="spinner" />
+              <span>Loading sessions...</span>
+            </div>
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: '1rem' }}>
+            {sessions.map((session) => (
+              <div key={session.id} className="card">
+                <div className="card-header">
+                  <h3>{session.device}</h3>
+                  {session.current && <span className="status-badge success">This browser</span>}
+                </div>
+                <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
+                  {session.ipAddress || 'Unknown IP'}
+                </p>
+
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1rem', fontSize: '0.9rem' }}>
+                  <div>
+                    <div style={{ color: 'var(--text-secondary)' }}>Signed in</div>
+                    <div>{formatDate(session.createdAt)}</div>
+                  </div>
+                  <div>
+                    <div style={{ color: 'var(--text-secondary)' }}>Last seen</div>
+                    <div>{formatDate(session.lastSeenAt)}</div>
+                  </div>
+                  <div>
+                    <div style={{ color: 'var(--text-secondary)' }}>Expires if idle</div>
+                    <div>{formatDate(session.expiresAt)}</div>
+                  </div>
+                </div>
+
+                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                  <button
+                    className="btn btn-danger"
+                    onClick={() => handleRevoke(session)}
+                    disabled={busySessionId === session.id}
+                  >
+                    {busySessionId === session.id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
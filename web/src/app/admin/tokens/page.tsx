@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useState, useCallback, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import {
+  getOAuthTokens,
+  reauthorizeOAuthToken,
+  revokeOAuthToken,
+  getApiUrl,
+  type OAuthTokenHealth,
+  type OAuthTokenState,
+} from '@/lib/api';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+const STATE_BADGES: Record<OAuthTokenState, { className: string; label: string }> = {
+  active: { className: 'success', label: 'Active' },
+  expired: { className: 'warning', label: 'Expired' },
+  refresh_failing: { className: 'error', label: 'Refresh failing' },
+  revoked: { className: 'error', label: 'Revoked' },
+};
+
+function TokenHealthContent() {
+  const searchParams = useSearchParams();
+
+  const [tokens, setTokens] = useState<OAuthTokenHealth[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyTokenId, setBusyTokenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getOAuthTokens();
+    if (result.success && result.data) {
+      setTokens(result.data);
+    } else {
+      setError(result.error || 'Failed to load tokens');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  // Back from a re-authorization started on this page
+  useEffect(() => {
+    const rebound = searchParams.get('rebound');
+    if (rebound === null) return;
+
+    const skipped = Number(searchParams.get('skipped') || 0);
+    setNotice(
+      `Re-authorized. ${rebound} link(s) moved to the new token` +
+      (skipped > 0 ? `; ${skipped} link(s) were skipped because the new account can't see their ACC project.` : '.')
+    );
+  }, [searchParams]);
+
+  const handleReauthorize = async (token: OAuthTokenHealth) => {
+    setBusyTokenId(token.id);
+    setError(null);
+
+    const result = await reauthorizeOAuthToken(token.id);
+    if (result.success && result.data) {
+      window.location.href = getApiUrl(result.data.loginUrl);
+      return;
+    }
+
+    setError(result.error || 'Failed to start re-authorization');
+    setBusyTokenId(null);
+  };
+
+  const handleRevoke = async (token: OAuthTokenHealth) => {
+    const dependents = token.links.length > 0
+      ? ` ${token.links.length} linked project(s) will stop syncing until re-authorized.`
+      : '';
+    if (!confirm(`Revoke the ACC token for ${token.email || token.userId}?${dependents}`)) return;
+
+    setBusyTokenId(token.id);
+    setError(null);
+    setNotice(null);
+
+    const result = await revokeOAuthToken(token.id);
+    if (result.success && result.data) {
+      setNotice(
+        result.data.revokedAtAps
+          ? `Token for ${token.email || token.userId} revoked.`
+          : `Token for ${token.email || token.userId} deleted, but Autodesk could not be reached to revoke it.`
+      );
+      await loadTokens();
+    } else {
+      setError(result.error || 'Failed to revoke token');
+    }
+    setBusyTokenId(null);
+  };
+
+  return (
+    <>
+      <header className="header">
+        <h1>ACC Token Health</h1>
+        <div className="header-actions">
+          <Link href="/" className="btn btn-secondary">
+            Back
+          </Link>
+        </div>
+      </header>
+
+      <div className="container">
+        {error && (
+          <div className="alert error">
+            {error}
+            <button onClick={() => setError(null)} style={{ marginLeft: '1rem' }}>×</button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="alert success">
+            {notice}
+            <button onClick={() => setNotice(null)} style={{ marginLeft: '1rem' }}>×</button>
+          </div>
+        )}
+
+        <div className="section-header">
+          <h2>Stored Autodesk authorizations</h2>
+          <button
+            className="btn btn-secondary"
+            onClick={loadTokens}
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <div className="spinner" style={{ width: 16, height: 16 }} />
+                Loading...
+              </>
+            ) : (
+              'Refresh'
+            )}
+          </button>
+        </div>
+
+        {loading && tokens.length === 0 ? (
+          <div className="card">
+            <div className="loading">
+              <div className="spinner" />
+              <span>Loading tokens...</span>
+            </div>
+          </div>
+        ) : tokens.length === 0 ? (
+          <div className="card empty-state">
+            <h3>No stored tokens</h3>
+            <p>Tokens appear here once an admin signs in with Autodesk.</p>
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: '1rem' }}>
+            {tokens.map((token) => {
+              const badge = STATE_BADGES[token.state];
+              return (
+                <div key={token.id} className="card">
+                  <div className="card-header">
+                    <h3>{token.name || token.email || token.userId}</h3>
+                    <span className={`status-badge ${badge.className}`}>{badge.label}</span>
+                  </div>
+                  <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
+                    {token.email || 'No email'} • Autodesk user {token.userId}
+                  </p>
+
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1rem', fontSize: '0.9rem' }}>
+                    <div>
+                      <div style={{ color: 'var(--text-secondary)' }}>Access token expires</div>
+                      <div>{formatDate(token.expiresAt)}</div>
+                    </div>
+                    <div>
+                      <div style={{ color: 'var(--text-secondary)' }}>Last successful refresh</div>
+                      <div>{formatDate(token.lastRefreshedAt)}</div>
+                    </div>
+                    <div>
+                      <div style={{ color: 'var(--text-secondary)' }}>Scopes</div>
+                      <div>{token.scopes.join(', ') || '—'}</div>
+                    </div>
+                  </div>
+
+                  {token.lastRefreshError && (
+                    <div className="alert warning" style={{ marginTop: '1rem' }}>
+                      Last refresh failed: {token.lastRefreshError}
+                    </div>
+                  )}
+
+                  <div style={{ marginTop: '1rem', fontSize: '0.9rem' }}>
+                    <div style={{ color: 'var(--text-secondary)', marginBottom: '0.5rem' }}>
+                      Dependent links ({token.links.length})
+                    </div>
+                    {token.links.length === 0 ? (
+                      <em style={{ color: 'var(--text-secondary)' }}>Not used by any project</em>
+                    ) : (
+                      <ul style={{ paddingLeft: '1.25rem' }}>
+                        {token.links.map((link) => (
+                          <li key={link.id}>
+                            {link.projectName} → {link.accProjectName}
+                            {link.lastSyncStatus && (
+                              <span style={{ color: 'var(--text-secondary)' }}> (last sync: {link.lastSyncStatus})</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {token.canManage && (
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                      <button
+                        className="btn btn-primary"
+                        onClick={() => handleReauthorize(token)}
+                        disabled={busyTokenId === token.id}
+                      >
+                        Re-authorize
+                      </button>
+                      <button
+                        className="btn btn-danger"
+                        onClick={() => handleRevoke(token)}
+                        disabled={busyTokenId === token.id}
+                      >
+                        {busyTokenId === token.id ? 'Working...' : 'Revoke'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default function TokenHealthPage() {
+  return (
+    <Suspense fallback={
+      <div className="container">
+        <div className="loading">
+          <div className="spinner" />
+          <span>Loading...</span>
+        </div>
+      </div>
+    }>
+      <TokenHealthContent />
+    </Suspense>
+  );
+}
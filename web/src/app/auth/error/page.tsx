@@ -13,6 +13,13 @@ function ErrorContent() {
     invalid_state: 'Invalid or expired session. Please try again.',
     callback_failed: 'Authentication callback failed. Please try again.',
     access_denied: 'Access was denied. Please grant the required permissions.',
+    sso_not_configured: 'Single sign-on is not configured for this site.',
+    sso_failed: 'Single sign-on failed. Please try again.',
+    sso_missing_email: 'Your directory account has no email address. Contact your administrator.',
+    sso_unverified_email: 'Your directory email is not verified, so it cannot be linked to your existing account automatically. Ask an administrator to link it.',
+    account_disabled: 'Your account has been deactivated. Contact your administrator.',
+    account_not_found: 'No active account matches your Autodesk email. Sign in first to connect Autodesk, or ask an administrator to create your account.',
+    account_conflict: 'This email is already linked to a different directory account. Contact your administrator.',
     unknown_error: 'An unknown error occurred. Please try again.',
   };
 
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { resetPassword } from '@/lib/api';
+
+const MIN_PASSWORD_LENGTH = 10;
+
+function ResetPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const result = await resetPassword(token, password);
+    if (result.success) {
+      setDone(true);
+    } else {
+      setError(result.error || 'Failed to reset password');
+    }
+    setLoading(false);
+  };
+
+  if (!token) {
+    return (
+      <div className="container">
+        <div className="auth-card card">
+          <h2>Invalid Reset Link</h2>
+          <p style={{ marginBottom: '2rem' }}>This link is missing its reset token. Request a new one from the sign-in page.</p>
+          <Link href="/" className="btn btn-primary">
+            Back to Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (done) {
+    return (
+      <div className="container">
+        <div className="auth-card card">
+          <div style={{ fontSize: '3rem', marginBottom: '1rem', color: 'var(--success)' }}>✓</div>
+          <h2>Password Updated</h2>
+          <p style={{ marginBottom: '2rem' }}>You can now sign in with your new password.</p>
+          <Link href="/" className="btn btn-primary">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className="auth-card card">
+        <h2>Choose a New Password</h2>
+
+        {error && <div className="alert error">{error}</div>}
+
+        <form onSubmit={handleSubmit} style={{ textAlign: 'left' }}>
+          <div className="form-group">
+            <label>New password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              minLength={MIN_PASSWORD_LENGTH}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label>Confirm new password</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <button type="submit" className="btn btn-primary" disabled={loading}>
+            {loading ? 'Saving...' : 'Set Password'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <div className="container">
+        <div className="auth-card card">
+          <div className="loading" style={{ justifyContent: 'center' }}>
+            <div className="spinner" />
+            <span>Loading...</span>
+          </div>
+        </div>
+      </div>
+    }>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
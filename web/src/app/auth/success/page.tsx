@@ -20,7 +20,7 @@ export default function AuthSuccess() {
       <div className="auth-card card">
         <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>✓</div>
         <h2>Authentication Successful</h2>
-        <p>You have been successfully connected to Autodesk.</p>
+        <p>You have been signed in successfully.</p>
         <div className="loading" style={{ justifyContent: 'center', marginTop: '1rem' }}>
           <div className="spinner" />
           <span>Redirecting...</span>
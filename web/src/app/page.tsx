@@ -1,36 +1,49 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
 import {
   getAuthStatus,
   getLoginUrl,
+  getEntraLoginUrl,
+  getAuthProviders,
   getLogoutUrl,
+  localLogin,
+  requestPasswordReset,
   getProjects,
   getProjectFolders,
   runSync,
+  getJob,
   testUpload,
   type AuthStatus,
+  type AuthProviders,
   type HubWithProjects,
   type ProjectListItem,
   type FolderItem,
-  type SyncRunResponse,
+  type JobInfo,
   type UploadTestResponse,
 } from '@/lib/api';
 
 export default function Home() {
   const [authStatus, setAuthStatus] = useState<AuthStatus | null>(null);
+  const [providers, setProviders] = useState<AuthProviders | null>(null);
   const [loading, setLoading] = useState(true);
   const [hubs, setHubs] = useState<HubWithProjects[]>([]);
   const [projectsLoading, setProjectsLoading] = useState(false);
   const [selectedProject, setSelectedProject] = useState<ProjectListItem | null>(null);
+  const [syncProjectId, setSyncProjectId] = useState<string>('');
   const [folders, setFolders] = useState<FolderItem[]>([]);
   const [foldersLoading, setFoldersLoading] = useState(false);
   const [selectedFolder, setSelectedFolder] = useState<FolderItem | null>(null);
-  const [syncResult, setSyncResult] = useState<SyncRunResponse | null>(null);
+  const [syncResult, setSyncResult] = useState<JobInfo | null>(null);
   const [syncLoading, setSyncLoading] = useState(false);
   const [uploadResult, setUploadResult] = useState<UploadTestResponse | null>(null);
   const [uploadLoading, setUploadLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [loginEmail, setLoginEmail] = useState('');
+  const [loginPassword, setLoginPassword] = useState('');
+  const [loginLoading, setLoginLoading] = useState(false);
+  const [loginMessage, setLoginMessage] = useState<string | null>(null);
 
   // Check auth status on mount
   useEffect(() => {
@@ -42,16 +55,54 @@ export default function Home() {
     const result = await getAuthStatus();
     if (result.success && result.data) {
       setAuthStatus(result.data);
+      if (!result.data.authenticated) {
+        const providersResult = await getAuthProviders();
+        if (providersResult.success && providersResult.data) {
+          setProviders(providersResult.data);
+        }
+      }
     }
     setLoading(false);
   };
 
-  // Load projects when authenticated
+  // Local sign-in
+  const handleLocalLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoginLoading(true);
+    setLoginMessage(null);
+    setError(null);
+
+    const result = await localLogin(loginEmail, loginPassword);
+    if (result.success) {
+      setLoginPassword('');
+      await checkAuth();
+    } else {
+      setError(result.error || 'Sign in failed');
+    }
+    setLoginLoading(false);
+  };
+
+  const handleForgotPassword = async () => {
+    if (!loginEmail) {
+      setError('Enter your email address first');
+      return;
+    }
+
+    setError(null);
+    const result = await requestPasswordReset(loginEmail);
+    if (result.success && result.data) {
+      setLoginMessage(result.data.message);
+    } else {
+      setError(result.error || 'Failed to request password reset');
+    }
+  };
+
+  // Load projects when connected to Autodesk
   useEffect(() => {
-    if (authStatus?.authenticated) {
+    if (authStatus?.authenticated && authStatus.accConnected) {
       loadProjects();
     }
-  }, [authStatus?.authenticated]);
+  }, [authStatus?.authenticated, authStatus?.accConnected]);
 
   const loadProjects = async () => {
     setProjectsLoading(true);
@@ -68,6 +119,7 @@ export default function Home() {
   // Load folders when project is selected
   const handleSelectProject = useCallback(async (project: ProjectListItem) => {
     setSelectedProject(project);
+    setSyncProjectId(project.linkedProjects[0]?.id || '');
     setSelectedFolder(null);
     setSyncResult(null);
     setUploadResult(null);
@@ -85,19 +137,41 @@ export default function Home() {
 
   // Run sync
   const handleRunSync = async () => {
-    if (!selectedProject) return;
+    if (!syncProjectId) return;
     
     setSyncLoading(true);
     setSyncResult(null);
     setError(null);
 
-    const result = await runSync(selectedProject.id, ['rfi', 'submittal']);
-    if (result.success && result.data) {
-      setSyncResult(result.data);
-    } else {
+    // A 409 still carries the job that is already running, so follow that one instead
+    // Syncs run per internal project, which may link several ACC projects
+    const result = await runSync(syncProjectId, ['rfi', 'submittal']);
+    if (!result.data?.jobId) {
       setError(result.error || 'Sync failed');
+      setSyncLoading(false);
+      return;
     }
-    setSyncLoading(false);
+
+    const jobId = result.data.jobId;
+    const poll = async () => {
+      const jobResult = await getJob(jobId);
+      if (!jobResult.success || !jobResult.data) {
+        setError(jobResult.error || 'Failed to get sync status');
+        setSyncLoading(false);
+        return;
+      }
+
+      setSyncResult(jobResult.data);
+      if (jobResult.data.status === 'SUCCEEDED' || jobResult.data.status === 'DEAD') {
+        if (jobResult.data.status === 'DEAD') {
+          setError(jobResult.data.lastError || 'Sync failed');
+        }
+        setSyncLoading(false);
+      } else {
+        setTimeout(poll, 2000);
+      }
+    };
+    await poll();
   };
 
   // Test upload
@@ -142,10 +216,52 @@ export default function Home() {
       <div className="container">
         <div className="auth-card card">
           <h2>ACC Integration MVP</h2>
-          <p>Connect your Autodesk account to get started.</p>
-          <a href={getLoginUrl()} className="btn btn-primary">
-            Connect Autodesk
-          </a>
+          <p>Sign in with your email and password, or with your organization or Autodesk account.</p>
+
+          {error && <div className="alert error">{error}</div>}
+          {loginMessage && <div className="alert success">{loginMessage}</div>}
+
+          <form onSubmit={handleLocalLogin} style={{ textAlign: 'left', marginBottom: '1rem' }}>
+            <div className="form-group">
+              <label>Email</label>
+              <input
+                type="email"
+                value={loginEmail}
+                onChange={(e) => setLoginEmail(e.target.value)}
+                autoComplete="username"
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>Password</label>
+              <input
+                type="password"
+                value={loginPassword}
+                onChange={(e) => setLoginPassword(e.target.value)}
+                autoComplete="current-password"
+                required
+              />
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="submit" className="btn btn-primary" disabled={loginLoading}>
+                {loginLoading ? 'Signing in...' : 'Sign in'}
+              </button>
+              <button type="button" className="btn btn-secondary" onClick={handleForgotPassword}>
+                Forgot password?
+              </button>
+            </div>
+          </form>
+
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center' }}>
+            {providers?.entra && (
+              <a href={getEntraLoginUrl()} className="btn btn-primary">
+                Sign in with Microsoft
+              </a>
+            )}
+            <a href={getLoginUrl()} className="btn btn-secondary">
+              Sign in with Autodesk
+            </a>
+          </div>
         </div>
       </div>
     );
@@ -166,6 +282,15 @@ export default function Home() {
               <div className="email">{authStatus.email}</div>
             </div>
           </div>
+          <Link href="/admin/tokens" className="btn btn-secondary">
+            Tokens
+          </Link>
+          <Link href="/account/api-tokens" className="btn btn-secondary">
+            API Tokens
+          </Link>
+          <Link href="/account/sessions" className="btn btn-secondary">
+            Sessions
+          </Link>
           <a href={getLogoutUrl()} className="btn btn-secondary">
             Logout
           </a>
@@ -185,7 +310,7 @@ export default function Home() {
           <button 
             className="btn btn-secondary" 
             onClick={loadProjects}
-            disabled={projectsLoading}
+            disabled={projectsLoading || !authStatus.accConnected}
           >
             {projectsLoading ? (
               <>
@@ -198,7 +323,15 @@ export default function Home() {
           </button>
         </div>
 
-        {projectsLoading && hubs.length === 0 ? (
+        {!authStatus.accConnected ? (
+          <div className="card empty-state">
+            <h3>Autodesk account not connected</h3>
+            <p>Connect your Autodesk account to browse ACC projects.</p>
+            <a href={getLoginUrl()} className="btn btn-primary">
+              Connect Autodesk
+            </a>
+          </div>
+        ) : projectsLoading && hubs.length === 0 ? (
           <div className="card">
             <div className="loading">
               <div className="spinner" />
@@ -259,10 +392,26 @@ export default function Home() {
                 <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem' }}>
                   Polls for new RFIs and Submittals (stub implementation for MVP).
                 </p>
+                {selectedProject.linkedProjects.length === 0 ? (
+                  <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem' }}>
+                    This ACC project isn&apos;t linked to any of your projects yet, so there is nothing to sync.
+                  </p>
+                ) : selectedProject.linkedProjects.length > 1 && (
+                  <div className="form-group">
+                    <label>Project to sync</label>
+                    <select value={syncProjectId} onChange={(e) => setSyncProjectId(e.target.value)}>
+                      {selectedProject.linkedProjects.map((project) => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <button
                   className="btn btn-primary"
                   onClick={handleRunSync}
-                  disabled={syncLoading}
+                  disabled={syncLoading || !syncProjectId}
                 >
                   {syncLoading ? (
                     <>
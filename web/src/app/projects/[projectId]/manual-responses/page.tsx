@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import {
+  getManualResponseQueue,
+  confirmManualResponse,
+  rejectManualResponse,
+  type ManualResponseQueueItem,
+} from '@/lib/api';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function ResponsePanel({
+  heading,
+  status,
+  text,
+  footer,
+}: {
+  heading: string;
+  status: string | null;
+  text: string | null;
+  footer?: string;
+}) {
+  return (
+    <div style={{ background: 'var(--bg-tertiary)', borderRadius: 8, padding: '1rem' }}>
+      <div style={{ fontSize: '0.85rem', color: 'var(--text-secondary)', marginBottom: '0.5rem' }}>
+        {heading}
+      </div>
+      {status ? (
+        <span className="status-badge warning" style={{ marginBottom: '0.75rem' }}>{status}</span>
+      ) : (
+        <span className="status-badge error" style={{ marginBottom: '0.75rem' }}>No status</span>
+      )}
+      <p style={{ whiteSpace: 'pre-wrap', marginTop: '0.75rem' }}>
+        {text || <em style={{ color: 'var(--text-secondary)' }}>No response text</em>}
+      </p>
+      {footer && (
+        <div style={{ fontSize: '0.8rem', color: 'var(--text-secondary)', marginTop: '0.75rem' }}>
+          {footer}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ManualResponsesPage() {
+  const params = useParams<{ projectId: string }>();
+  const projectId = params.projectId;
+
+  const [items, setItems] = useState<ManualResponseQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [rejectingItemId, setRejectingItemId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getManualResponseQueue(projectId);
+    if (result.success && result.data) {
+      setItems(result.data);
+    } else {
+      setError(result.error || 'Failed to load manual responses');
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const removeItem = (itemId: string) => {
+    setItems((current) => current.filter((item) => item.itemId !== itemId));
+  };
+
+  // Confirm: accept the ACC response as official and close the item
+  const handleConfirm = async (item: ManualResponseQueueItem) => {
+    setBusyItemId(item.itemId);
+    setError(null);
+    setNotice(null);
+
+    const result = await confirmManualResponse(projectId, item.itemType, item.itemId);
+    if (result.success) {
+      removeItem(item.itemId);
+      setNotice(`${item.accNumber} confirmed and closed.`);
+    } else {
+      setError(result.error || 'Failed to confirm response');
+    }
+    setBusyItemId(null);
+  };
+
+  // Reject: keep the item open and send it back for review
+  const handleReject = async (item: ManualResponseQueueItem) => {
+    if (!rejectReason.trim()) return;
+
+    setBusyItemId(item.itemId);
+    setError(null);
+    setNotice(null);
+
+    const result = await rejectManualResponse(projectId, item.itemType, item.itemId, rejectReason.trim());
+    if (result.success) {
+      removeItem(item.itemId);
+      setRejectingItemId(null);
+      setRejectReason('');
+      setNotice(`${item.accNumber} rejected and reopened for review.`);
+    } else {
+      setError(result.error || 'Failed to reject response');
+    }
+    setBusyItemId(null);
+  };
+
+  return (
+    <>
+      <header className="header">
+        <h1>Manual Responses</h1>
+        <div className="header-actions">
+          <Link href="/" className="btn btn-secondary">
+            Back
+          </Link>
+        </div>
+      </header>
+
+      <div className="container">
+        {error && (
+          <div className="alert error">
+            {error}
+            <button onClick={() => setError(null)} style={{ marginLeft: '1rem' }}>×</button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="alert success">
+            {notice}
+            <button onClick={() => setNotice(null)} style={{ marginLeft: '1rem' }}>×</button>
+          </div>
+        )}
+
+        <div className="section-header">
+          <h2>Responses posted directly in ACC</h2>
+          <button
+            className="btn btn-secondary"
+            onClick={loadQueue}
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <div className="spinner" style={{ width: 16, height: 16 }} />
+                Loading...
+              </>
+            ) : (
+              'Refresh'
+            )}
+          </button>
+        </div>
+
+        {loading && items.length === 0 ? (
+          <div className="card">
+            <div className="loading">
+              <div className="spinner" />
+              <span>Loading manual responses...</span>
+            </div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="card empty-state">
+            <h3>Nothing to reconcile</h3>
+            <p>Responses added directly in ACC will appear here for confirmation.</p>
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: '1rem' }}>
+            {items.map((item) => (
+              <div key={item.itemId} className="card">
+                <div className="card-header">
+                  <h3>
+                    {item.itemType === 'RFI' ? 'RFI' : 'Submittal'} {item.accNumber} — {item.title}
+                  </h3>
+                  <span className="status-badge warning">{item.internalStatus}</span>
+                </div>
+                <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
+                  {item.accProjectName} • Detected {formatDate(item.detectedAt)}
+                </p>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                  <ResponsePanel
+                    heading="Internal draft"
+                    status={item.draft.responseStatus}
+                    text={item.draft.responseText}
+                  />
+                  <ResponsePanel
+                    heading="Posted in ACC"
+                    status={item.manual.status}
+                    text={item.manual.text}
+                    footer={`By ${item.manual.respondedBy || 'unknown'} on ${formatDate(item.manual.respondedAt)}`}
+                  />
+                </div>
+
+                {rejectingItemId === item.itemId ? (
+                  <div style={{ marginTop: '1rem' }}>
+                    <div className="form-group">
+                      <label>Reason for rejecting</label>
+                      <textarea
+                        rows={3}
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        placeholder="Explain why this response is not acceptable"
+                      />
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button
+                        className="btn btn-danger"
+                        onClick={() => handleReject(item)}
+                        disabled={busyItemId === item.itemId || !rejectReason.trim()}
+                      >
+                        Reject and Reopen
+                      </button>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => {
+                          setRejectingItemId(null);
+                          setRejectReason('');
+                        }}
+                        disabled={busyItemId === item.itemId}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                    <button
+                      className="btn btn-primary"
+                      onClick={() => handleConfirm(item)}
+                      disabled={busyItemId === item.itemId}
+                    >
+                      {busyItemId === item.itemId ? 'Saving...' : 'Confirm and Close'}
+                    </button>
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => {
+                        setRejectingItemId(item.itemId);
+                        setRejectReason('');
+                      }}
+                      disabled={busyItemId === item.itemId}
+                    >
+                      Reject...
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
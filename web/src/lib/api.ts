@@ -37,6 +37,7 @@ export interface AuthStatus {
   userId?: string;
   email?: string;
   name?: string;
+  accConnected?: boolean; // Whether the session is also signed in with Autodesk
   expiresAt?: string;
   scopes?: string[];
 }
@@ -53,15 +54,62 @@ export function getLogoutUrl(): string {
   return `${API_URL}/auth/logout`;
 }
 
+export function getEntraLoginUrl(): string {
+  return `${API_URL}/auth/entra/login`;
+}
+
+export interface AuthProviders {
+  local: boolean;
+  autodesk: boolean;
+  entra: boolean;
+}
+
+export async function getAuthProviders(): Promise<ApiResponse<AuthProviders>> {
+  return fetchApi<AuthProviders>('/auth/providers');
+}
+
+// Local sign-in
+export interface LocalUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export async function localLogin(email: string, password: string): Promise<ApiResponse<LocalUser>> {
+  return fetchApi<LocalUser>('/auth/local/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+}
+
+export async function requestPasswordReset(email: string): Promise<ApiResponse<{ message: string }>> {
+  return fetchApi<{ message: string }>('/auth/password/forgot', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+export async function resetPassword(token: string, password: string): Promise<ApiResponse<{ reset: boolean }>> {
+  return fetchApi<{ reset: boolean }>('/auth/password/reset', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+}
+
 // User
 export interface UserInfo {
   userId: string;
   email: string;
   firstName: string;
   lastName: string;
-  tokenExpiresAt: string;
-  lastUpdated: string;
-  scopes: string[];
+  acc: {
+    userId: string;
+    email: string | null;
+    tokenExpiresAt: string;
+    lastUpdated: string;
+    scopes: string[];
+  } | null;
 }
 
 export async function getUserInfo(): Promise<ApiResponse<UserInfo>> {
@@ -77,6 +125,7 @@ export interface ProjectListItem {
   region: string;
   projectType: string;
   webViewUrl?: string;
+  linkedProjects: { id: string; name: string }[]; // Internal projects linked to this ACC project
 }
 
 export interface HubWithProjects {
@@ -101,22 +150,12 @@ export async function getProjectFolders(hubId: string, projectId: string): Promi
   return fetchApi<FolderItem[]>(`/api/projects/${hubId}/${projectId}/folders`);
 }
 
-// Sync
-export interface SyncResult {
-  module: string;
-  success: boolean;
-  itemsProcessed: number;
-  newItems: number;
-  errors: string[];
-  duration: number;
-}
-
+// Sync (runs as a background job; poll getJob with the returned jobId)
 export interface SyncRunResponse {
-  projectId: string;
-  results: SyncResult[];
-  totalDuration: number;
+  jobId: string;
 }
 
+// projectId is the internal project, not the ACC project
 export async function runSync(projectId: string, modules?: string[]): Promise<ApiResponse<SyncRunResponse>> {
   return fetchApi<SyncRunResponse>('/api/sync/run', {
     method: 'POST',
@@ -124,10 +163,30 @@ export async function runSync(projectId: string, modules?: string[]): Promise<Ap
   });
 }
 
+// Background jobs
+export interface JobInfo {
+  id: string;
+  type: string;
+  status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'DEAD';
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  result: unknown;
+  projectId: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export async function getJob(jobId: string): Promise<ApiResponse<JobInfo>> {
+  return fetchApi<JobInfo>(`/api/jobs/${jobId}`);
+}
+
 // Sync History
 export interface SyncLogEntry {
   id: string;
   projectId: string;
+  accProjectLinkId: string | null;
   module: string;
   status: string;
   itemsProcessed: number;
@@ -162,3 +221,164 @@ export async function testUpload(
     body: JSON.stringify({ projectId, folderUrn, fileName, content }),
   });
 }
+
+// Manual Response Reconciliation
+export type ManualResponseItemType = 'RFI' | 'SUBMITTAL';
+
+export interface ManualResponseQueueItem {
+  itemType: ManualResponseItemType;
+  itemId: string;
+  accNumber: string;
+  title: string;
+  accProjectName: string;
+  internalStatus: string;
+  detectedAt: string | null;
+  draft: {
+    responseStatus: string | null;
+    responseText: string | null;
+  };
+  manual: {
+    status: string | null;
+    text: string | null;
+    respondedBy: string | null;
+    respondedAt: string | null;
+  };
+}
+
+function manualResponsePath(projectId: string, itemType: ManualResponseItemType, itemId: string): string {
+  const collection = itemType === 'RFI' ? 'rfis' : 'submittals';
+  return `/api/projects/${projectId}/manual-responses/${collection}/${itemId}`;
+}
+
+export async function getManualResponseQueue(projectId: string): Promise<ApiResponse<ManualResponseQueueItem[]>> {
+  return fetchApi<ManualResponseQueueItem[]>(`/api/projects/${projectId}/manual-responses`);
+}
+
+export async function confirmManualResponse(
+  projectId: string,
+  itemType: ManualResponseItemType,
+  itemId: string
+): Promise<ApiResponse<unknown>> {
+  return fetchApi<unknown>(`${manualResponsePath(projectId, itemType, itemId)}/confirm`, {
+    method: 'POST',
+  });
+}
+
+export async function rejectManualResponse(
+  projectId: string,
+  itemType: ManualResponseItemType,
+  itemId: string,
+  reason: string
+): Promise<ApiResponse<unknown>> {
+  return fetchApi<unknown>(`${manualResponsePath(projectId, itemType, itemId)}/reject`, {
+    method: 'POST',
+    body: JSON.stringify({ reason }),
+  });
+}
+
+// OAuth Token Health
+export type OAuthTokenState = 'active' | 'expired' | 'refresh_failing' | 'revoked';
+
+export interface OAuthTokenHealth {
+  id: string;
+  userId: string;
+  email: string | null;
+  name: string;
+  state: OAuthTokenState;
+  expiresAt: string;
+  lastRefreshedAt: string | null;
+  lastRefreshError: string | null;
+  revokedAt: string | null;
+  scopes: string[];
+  createdAt: string;
+  links: {
+    id: string;
+    projectId: string;
+    projectName: string;
+    accProjectName: string;
+    lastSyncStatus: string | null;
+  }[];
+  canManage: boolean;
+}
+
+export async function getOAuthTokens(): Promise<ApiResponse<OAuthTokenHealth[]>> {
+  return fetchApi<OAuthTokenHealth[]>('/api/oauth-tokens');
+}
+
+// Returns the sign-in path to send the browser to; the new token takes over this token's links
+export async function reauthorizeOAuthToken(tokenId: string): Promise<ApiResponse<{ loginUrl: string }>> {
+  return fetchApi<{ loginUrl: string }>(`/api/oauth-tokens/${tokenId}/reauthorize`, {
+    method: 'POST',
+  });
+}
+
+export async function revokeOAuthToken(tokenId: string): Promise<ApiResponse<{ deleted: boolean; revokedAtAps: boolean }>> {
+  return fetchApi<{ deleted: boolean; revokedAtAps: boolean }>(`/api/oauth-tokens/${tokenId}`, {
+    method: 'DELETE',
+  });
+}
+
+// Personal API Tokens
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ('read' | 'write')[];
+  projectIds: string[] | null;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  readOnly?: boolean;
+  projectIds?: string[];
+  expiresInDays?: number;
+}
+
+export async function getApiTokens(): Promise<ApiResponse<ApiTokenInfo[]>> {
+  return fetchApi<ApiTokenInfo[]>('/api/api-tokens');
+}
+
+// The returned token value is shown once and can't be fetched again
+export async function createApiToken(request: CreateApiTokenRequest): Promise<ApiResponse<ApiTokenInfo & { token: string }>> {
+  return fetchApi<ApiTokenInfo & { token: string }>('/api/api-tokens', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function revokeApiToken(tokenId: string): Promise<ApiResponse<ApiTokenInfo>> {
+  return fetchApi<ApiTokenInfo>(`/api/api-tokens/${tokenId}`, {
+    method: 'DELETE',
+  });
+}
+
+// Signed-in Sessions
+export interface SessionInfo {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export async function getSessions(): Promise<ApiResponse<SessionInfo[]>> {
+  return fetchApi<SessionInfo[]>('/api/sessions');
+}
+
+export async function revokeSession(sessionId: string): Promise<ApiResponse<SessionInfo>> {
+  return fetchApi<SessionInfo>(`/api/sessions/${sessionId}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getApiUrl(path: string): string {
+  return `${API_URL}${path}`;
+}